@@ -18,6 +18,7 @@ import { getCorsStats, resetCorsStats } from './middlewares/security/cors.middle
 import helmetMiddleware from './middlewares/security/helmet.middleware.js';
 import xssProtectionMiddleware from './middlewares/security/xssClean.middleware.js';
 import sessionMiddleware from './middlewares/security/session.middleware.js';
+import csrfProtectionMiddleware from './middlewares/security/csrf.middleware.js';
 // import { generalRateLimiter } from './middlewares/security/rateLimiter.middleware';
 
 // استيراد middlewares التسجيل
@@ -30,9 +31,11 @@ import notFoundMiddleware from './middlewares/errors/notFound.middleware.js';
 
 import passport from './modules/auth/index.js';
 import { authenticateJwt } from './modules/auth/middlewares/auth.middleware.js';
+import { IdentityCacheService } from './modules/cache/redis/index.js';
 
 // استيراد routes
 import authRoutes from './modules/auth/routes/auth.route.js';
+import jwksRoutes from './modules/auth/routes/jwks.route.js';
 import { routes } from './modules/api/v1/restful/routes/index.js';
 // import uploadRoutes from './modules/files/routes/upload.routes.js';
 
@@ -82,6 +85,9 @@ app.use(responseTimeMiddleware);
 app.use(compression());
 app.use(cookieParser());
 
+// ===== CSRF PROTECTION (وضع الكوكيز فقط) =====
+app.use(csrfProtectionMiddleware);
+
 // تطبيق body parsers على كل الـ routes ماعدا upload routes
 app.use((req: Request, res: Response, next: NextFunction): void => {
     // استثناء upload routes من JSON parsing
@@ -128,10 +134,16 @@ app.get('/health', async (req: Request, res: Response): Promise<void> => {
         memory: {
             used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024) + ' MB',
             total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024) + ' MB'
-        }
+        },
+        // نسبة الإصابة في تخزين هوية التوكنات مؤقتاً (منذ بدء العملية)
+        identityCache: IdentityCacheService.getMetrics()
     });
 });
 
+// ===== JWKS ENDPOINT =====
+// المفاتيح العامة للتحقق من توكنات JWT (/.well-known/jwks.json)
+app.use(jwksRoutes);
+
 // ===== API ROUTES =====
 const API_VERSION = '/api/v1';
 
@@ -2,25 +2,50 @@ import joi from 'joi';
 import type { ObjectSchema, ValidationResult } from 'joi';
 
 const types = joi.types();
-const { string, object } = types;
+const { string, object, boolean } = types;
 
 interface IntegratedAuthConfigEnv {
+  GOOGLE_AUTH_ENABLED: boolean;
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
   FACEBOOK_CLIENT_ID: string;
   FACEBOOK_CLIENT_SECRET: string;
+  GITHUB_AUTH_ENABLED: boolean;
   GITHUB_CLIENT_ID: string;
   GITHUB_CLIENT_SECRET: string;
+  GITHUB_REDIRECT_URI: string;
+  DISCORD_AUTH_ENABLED: boolean;
+  DISCORD_CLIENT_ID: string;
+  DISCORD_CLIENT_SECRET: string;
+  DISCORD_REDIRECT_URI: string;
 }
 
+// مفاتيح المزود مطلوبة فقط إذا كان مفعلاً
+const requiredWhenEnabled = (flag: string) =>
+  string.when(flag, { is: true, then: string.required(), otherwise: string.allow('').default('') });
+
 // تعريف Schema للتحقق من الإعدادات
 const authSchema: ObjectSchema = object.keys({
-  GOOGLE_CLIENT_ID: string.required(),
-  GOOGLE_CLIENT_SECRET: string.required(),
+  // Google
+  GOOGLE_AUTH_ENABLED: boolean.default(true),
+  GOOGLE_CLIENT_ID: requiredWhenEnabled('GOOGLE_AUTH_ENABLED'),
+  GOOGLE_CLIENT_SECRET: requiredWhenEnabled('GOOGLE_AUTH_ENABLED'),
+
+  // Facebook
   FACEBOOK_CLIENT_ID: string.required(),
   FACEBOOK_CLIENT_SECRET: string.required(),
-  GITHUB_CLIENT_ID: string.required(),
-  GITHUB_CLIENT_SECRET: string.required(),
+
+  // GitHub
+  GITHUB_AUTH_ENABLED: boolean.default(false),
+  GITHUB_CLIENT_ID: requiredWhenEnabled('GITHUB_AUTH_ENABLED'),
+  GITHUB_CLIENT_SECRET: requiredWhenEnabled('GITHUB_AUTH_ENABLED'),
+  GITHUB_REDIRECT_URI: string.uri().default('http://localhost:3000/auth/callback/github'),
+
+  // Discord
+  DISCORD_AUTH_ENABLED: boolean.default(false),
+  DISCORD_CLIENT_ID: requiredWhenEnabled('DISCORD_AUTH_ENABLED'), // نفس Application ID الخاص بالبوت
+  DISCORD_CLIENT_SECRET: requiredWhenEnabled('DISCORD_AUTH_ENABLED'),
+  DISCORD_REDIRECT_URI: string.uri().default('http://localhost:3000/auth/callback/discord'),
 }).unknown();
 
 const { value: integratedAuthConfig, error } = authSchema.validate(process.env, {
@@ -34,10 +59,17 @@ if (error) {
 }
 
 export const {
+  GOOGLE_AUTH_ENABLED,
   GOOGLE_CLIENT_ID,
   GOOGLE_CLIENT_SECRET,
   FACEBOOK_CLIENT_ID,
   FACEBOOK_CLIENT_SECRET,
+  GITHUB_AUTH_ENABLED,
   GITHUB_CLIENT_ID,
   GITHUB_CLIENT_SECRET,
+  GITHUB_REDIRECT_URI,
+  DISCORD_AUTH_ENABLED,
+  DISCORD_CLIENT_ID,
+  DISCORD_CLIENT_SECRET,
+  DISCORD_REDIRECT_URI,
 } = integratedAuthConfig;
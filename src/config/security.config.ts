@@ -4,13 +4,45 @@ import type { ObjectSchema, ValidationResult } from 'joi';
 const types = joi.types();
 const { string, object, number, boolean } = types;
 
+export type RegistrationMode = 'open' | 'invite_only' | 'domain_restricted';
+
 interface SecurityConfigEnv {
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
   JWT_REFRESH_EXPIRES_IN: string;
+  JWT_KEYS_DIR: string;
+  JWT_ACTIVE_KEY_ID: string;
+  JWT_ACCEPT_HS256: boolean;
+  PASSWORD_RESET_EXPIRES_IN: string;
+  EMAIL_VERIFICATION_EXPIRES_IN: string;
+  MAGIC_LINK_EXPIRES_IN: string;
+  IMPERSONATION_EXPIRES_IN: string;
+  AUTH_IDENTITY_CACHE_TTL: number;
+  REGISTRATION_MODE: RegistrationMode;
+  REGISTRATION_ALLOWED_DOMAINS: string;
+  INVITATION_EXPIRES_IN: string;
+  TWO_FACTOR_ISSUER: string;
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN: string;
+  WEBAUTHN_RP_ID: string;
+  WEBAUTHN_RP_NAME: string;
+  WEBAUTHN_ORIGINS: string;
+  WEBAUTHN_CHALLENGE_EXPIRES_IN: string;
   API_KEY: string;
   BOT_TOKEN: string;
-  API_BOT_AUTHORIZATION: string;
+  SERVICE_ACCOUNT_ROTATION_GRACE_PERIOD: string;
+  LOGIN_FAILURE_WINDOW: string;
+  LOGIN_DELAY_AFTER_FAILURES: number;
+  LOGIN_LOCKOUT_THRESHOLD: number;
+  LOGIN_LOCKOUT_DURATION: string;
+  LOGIN_IP_LOCKOUT_THRESHOLD: number;
+  PASSWORD_MIN_LENGTH: number;
+  PASSWORD_MAX_LENGTH: number;
+  PASSWORD_REQUIRE_LOWERCASE: boolean;
+  PASSWORD_REQUIRE_UPPERCASE: boolean;
+  PASSWORD_REQUIRE_DIGIT: boolean;
+  PASSWORD_REQUIRE_SYMBOL: boolean;
+  PASSWORD_DISALLOW_PERSONAL_INFO: boolean;
+  PASSWORD_DISALLOW_COMMON: boolean;
   CORS_ORIGIN: string;
   CORS_METHODS: string;
   CORS_HEADERS: string;
@@ -26,19 +58,61 @@ interface SecurityConfigEnv {
 // تعريف Schema للتحقق من الإعدادات
 const securitySchema: ObjectSchema = object.keys({
   // JWT
-  JWT_SECRET: string.required(),
+  JWT_SECRET: string.when('JWT_ACCEPT_HS256', { is: true, then: string.required(), otherwise: string.allow('').default('') }),
   JWT_EXPIRES_IN: string.default('1h'),
   JWT_REFRESH_EXPIRES_IN: string.default('7d'),
+  JWT_KEYS_DIR: string.default('keys/jwt'), // مفاتيح التوقيع الخاصة (<kid>.pem) - RS256 أو ES256
+  JWT_ACTIVE_KEY_ID: string.allow('').default(''), // فارغ = أحدث مفتاح خاص حسب الاسم
+  JWT_ACCEPT_HS256: boolean.default(true), // قبول التوكنات القديمة الموقعة بـ JWT_SECRET خلال فترة الانتقال
+  PASSWORD_RESET_EXPIRES_IN: string.default('1h'),
+  EMAIL_VERIFICATION_EXPIRES_IN: string.default('24h'),
+  MAGIC_LINK_EXPIRES_IN: string.default('15m'), // رابط تسجيل الدخول بدون كلمة مرور
+  IMPERSONATION_EXPIRES_IN: string.default('30m'), // توكن دخول المالك بحساب مستخدم (بدون refresh)
+  AUTH_IDENTITY_CACHE_TTL: number.integer().min(0).max(3600).default(60), // ثوانٍ، 0 = تعطيل تخزين هوية التوكن مؤقتاً
+
+  // Registration (من يمكنه إنشاء حساب جديد)
+  REGISTRATION_MODE: string.valid('open', 'invite_only', 'domain_restricted').default('open'),
+  REGISTRATION_ALLOWED_DOMAINS: string.when('REGISTRATION_MODE', { is: 'domain_restricted', then: string.required(), otherwise: string.allow('').default('') }), // قائمة مفصولة بفواصل
+  INVITATION_EXPIRES_IN: string.default('7d'),
+
+  // Two-Factor Authentication (TOTP)
+  TWO_FACTOR_ISSUER: string.default('Global Hound'), // الاسم الظاهر في تطبيق المصادقة
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN: string.default('5m'),
+
+  // WebAuthn (Passkeys)
+  WEBAUTHN_RP_ID: string.default('localhost'), // نطاق الواجهة الأمامية بدون بروتوكول أو منفذ
+  WEBAUTHN_RP_NAME: string.default('Global Hound'),
+  WEBAUTHN_ORIGINS: string.default('http://localhost:3000'), // قائمة مفصولة بفواصل
+  WEBAUTHN_CHALLENGE_EXPIRES_IN: string.default('5m'),
   API_KEY: string.required(),
 
   // Discord Bot Token
   BOT_TOKEN: string.required(),
-  API_BOT_AUTHORIZATION: string.required(),
+
+  // Service Accounts (البوت والخدمات الداخلية)
+  SERVICE_ACCOUNT_ROTATION_GRACE_PERIOD: string.default('24h'), // مدة بقاء السر القديم فعالاً بعد التدوير
+
+  // Login Lockout (محاولات الدخول الفاشلة)
+  LOGIN_FAILURE_WINDOW: string.default('15m'), // مدة تذكر المحاولات الفاشلة
+  LOGIN_DELAY_AFTER_FAILURES: number.integer().min(1).default(3), // بعدها يبدأ التأخير المتزايد
+  LOGIN_LOCKOUT_THRESHOLD: number.integer().min(1).default(10), // قفل الحساب مؤقتاً
+  LOGIN_LOCKOUT_DURATION: string.default('15m'),
+  LOGIN_IP_LOCKOUT_THRESHOLD: number.integer().min(1).default(50), // قفل عنوان IP (عدة حسابات)
+
+  // Password Policy (سياسة كلمات المرور)
+  PASSWORD_MIN_LENGTH: number.integer().min(1).default(8),
+  PASSWORD_MAX_LENGTH: number.integer().min(joi.ref('PASSWORD_MIN_LENGTH')).max(1024).default(128),
+  PASSWORD_REQUIRE_LOWERCASE: boolean.default(true),
+  PASSWORD_REQUIRE_UPPERCASE: boolean.default(true),
+  PASSWORD_REQUIRE_DIGIT: boolean.default(true),
+  PASSWORD_REQUIRE_SYMBOL: boolean.default(false),
+  PASSWORD_DISALLOW_PERSONAL_INFO: boolean.default(true), // منع البريد أو الاسم داخل كلمة المرور
+  PASSWORD_DISALLOW_COMMON: boolean.default(true), // منع كلمات المرور الشائعة أو المسربة (قائمة محلية)
 
   // CORS
   CORS_ORIGIN: string.required(), // قائمة مفصولة بفواصل
   CORS_METHODS: string.default('GET,POST,PUT,DELETE,PATCH,OPTIONS'),
-  CORS_HEADERS: string.default('Content-Type,Authorization,X-Requested-With,serverID,serverid'),
+  CORS_HEADERS: string.default('Content-Type,Authorization,X-Requested-With,serverID,serverid,X-Auth-Mode,X-CSRF-Token'),
   CORS_EXPOSED_HEADERS: string.default('X-Total-Count,X-Page-Count'),
   CORS_CREDENTIALS: string.default('true'),
   CORS_MAX_AGE: string.default('86400'), // 24 ساعة
@@ -69,9 +143,37 @@ export const {
   JWT_SECRET,
   JWT_EXPIRES_IN,
   JWT_REFRESH_EXPIRES_IN,
+  JWT_KEYS_DIR,
+  JWT_ACTIVE_KEY_ID,
+  JWT_ACCEPT_HS256,
+  PASSWORD_RESET_EXPIRES_IN,
+  EMAIL_VERIFICATION_EXPIRES_IN,
+  MAGIC_LINK_EXPIRES_IN,
+  IMPERSONATION_EXPIRES_IN,
+  AUTH_IDENTITY_CACHE_TTL,
+  REGISTRATION_MODE,
+  INVITATION_EXPIRES_IN,
+  TWO_FACTOR_ISSUER,
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  WEBAUTHN_RP_ID,
+  WEBAUTHN_RP_NAME,
+  WEBAUTHN_CHALLENGE_EXPIRES_IN,
   API_KEY,
   BOT_TOKEN,
-  API_BOT_AUTHORIZATION,
+  SERVICE_ACCOUNT_ROTATION_GRACE_PERIOD,
+  LOGIN_FAILURE_WINDOW,
+  LOGIN_DELAY_AFTER_FAILURES,
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_DURATION,
+  LOGIN_IP_LOCKOUT_THRESHOLD,
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_REQUIRE_LOWERCASE,
+  PASSWORD_REQUIRE_UPPERCASE,
+  PASSWORD_REQUIRE_DIGIT,
+  PASSWORD_REQUIRE_SYMBOL,
+  PASSWORD_DISALLOW_PERSONAL_INFO,
+  PASSWORD_DISALLOW_COMMON,
   CORS_METHODS,
   CORS_HEADERS,
   CORS_EXPOSED_HEADERS,
@@ -84,3 +186,5 @@ export const {
 
 export const CORS_ORIGIN: string[] = parseCorsOrigin(securityConfig.CORS_ORIGIN);
 export const CORS_CREDENTIALS: boolean = securityConfig.CORS_CREDENTIALS === 'true';
+export const WEBAUTHN_ORIGINS: string[] = parseCorsOrigin(securityConfig.WEBAUTHN_ORIGINS);
+export const REGISTRATION_ALLOWED_DOMAINS: string[] = parseCorsOrigin(securityConfig.REGISTRATION_ALLOWED_DOMAINS).map((domain) => domain.replace(/^@/, '').toLowerCase());
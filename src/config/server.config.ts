@@ -11,6 +11,7 @@ interface ServerConfigEnv {
   SERVER_PORT: number;
   NODE_ENV: NodeEnv;
   BASE_URL: string;
+  FRONTEND_URL: string;
 }
 
 // تعريف Schema للتحقق من الإعدادات
@@ -21,6 +22,7 @@ const serverSchema: ObjectSchema = object.keys({
     .valid('development', 'production', 'testing')
     .default('development'),
   BASE_URL: string.uri().required(),
+  FRONTEND_URL: string.uri().default('http://localhost:3000'), // لروابط البريد الإلكتروني (إعادة التعيين، التفعيل...)
 }).unknown();
 
 const { value: serverConfig, error } = serverSchema.validate(process.env, {
@@ -38,4 +40,5 @@ export const {
   SERVER_PORT,
   NODE_ENV,
   BASE_URL,
+  FRONTEND_URL,
 } = serverConfig;
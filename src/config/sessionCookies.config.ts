@@ -2,13 +2,17 @@ import joi from 'joi';
 import type { ObjectSchema, ValidationResult } from 'joi';
 
 const types = joi.types();
-const { string, number, object } = types;
+const { string, number, object, boolean } = types;
 
 interface SessionCookiesConfigEnv {
   SESSION_SECRET: string;
   SESSION_MAX_AGE: number;
   COOKIE_SECRET: string;
   COOKIE_MAX_AGE: number;
+  AUTH_COOKIES_ENABLED: boolean;
+  AUTH_COOKIE_DOMAIN: string;
+  AUTH_COOKIE_SAME_SITE: 'strict' | 'lax' | 'none';
+  AUTH_COOKIE_SECURE: boolean;
 }
 
 // تعريف Schema للتحقق من الإعدادات
@@ -17,6 +21,12 @@ const sessionCookiesSchema: ObjectSchema = object.keys({
   SESSION_MAX_AGE: number.integer().min(1).required(),
   COOKIE_SECRET: string.required(),
   COOKIE_MAX_AGE: number.integer().min(1).required(),
+
+  // وضع الكوكيز للمصادقة (اختياري): التوكنات في كوكيز httpOnly بدلاً من جسم الرد
+  AUTH_COOKIES_ENABLED: boolean.default(false),
+  AUTH_COOKIE_DOMAIN: string.allow('').default(''), // فارغ = نطاق الخادم الحالي فقط
+  AUTH_COOKIE_SAME_SITE: string.valid('strict', 'lax', 'none').default('lax'),
+  AUTH_COOKIE_SECURE: boolean.default(true), // المتصفحات تقبل Secure على localhost بدون HTTPS
 }).unknown(true); // السماح بمتغيرات إضافية
 
 // التحقق من القيم
@@ -35,4 +45,8 @@ export const {
   SESSION_MAX_AGE,
   COOKIE_SECRET,
   COOKIE_MAX_AGE,
+  AUTH_COOKIES_ENABLED,
+  AUTH_COOKIE_DOMAIN,
+  AUTH_COOKIE_SAME_SITE,
+  AUTH_COOKIE_SECURE,
 } = sessionCookiesConfig;
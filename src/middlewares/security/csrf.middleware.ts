@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import status from '../../config/status.config.js';
+import { extractBearerToken } from '../../modules/auth/services/auth.service.js';
+import { hasAuthCookies, isValidCsrfRequest } from '../../modules/auth/services/authCookies.service.js';
+
+// الطرق التي لا تغير الحالة لا تحتاج إلى حماية CSRF
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * حماية CSRF لوضع الكوكيز (double-submit)
+ * تُطبق فقط على الطلبات التي تعتمد على كوكيز المصادقة، أما طلبات Authorization: Bearer فلا تتأثر
+ * (أي هيدر Authorization آخر لا يُستخدم للمصادقة فلا يعفي من التحقق)
+ */
+const csrfProtectionMiddleware: RequestHandler = (req: Request, res: Response, next: NextFunction): void => {
+  if (SAFE_METHODS.includes(req.method) || extractBearerToken(req) || !hasAuthCookies(req)) {
+    next();
+    return;
+  }
+
+  if (!isValidCsrfRequest(req)) {
+    res.status(status.FORBIDDEN).json({
+      error: 'CSRF token missing or invalid'
+    });
+    return;
+  }
+
+  next();
+};
+
+export default csrfProtectionMiddleware;
@@ -101,6 +101,14 @@ export const authRateLimiter: RequestHandler = createRateLimiter({
   message: 'Too many login attempts, please try again after 15 minutes.'
 });
 
+// حد عام لكل IP على مسارات تسجيل الدخول (القفل لكل حساب في loginThrottle.service)
+export const loginRateLimiter: RequestHandler = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 دقيقة
+  max: 30, // 30 محاولة تسجيل دخول لكل IP
+  message: 'Too many login attempts from this IP, please try again later.',
+  keyGenerator: (req: Request): string => `login:${req.ip || 'unknown'}`
+});
+
 export const generalRateLimiter: RequestHandler = createRateLimiter({
   windowMs: 15 * 60 * 1000, // 15 دقيقة
   max: 100, // 100 طلب كحد أقصى
@@ -0,0 +1,129 @@
+import { Response, NextFunction } from 'express';
+import { InvitationsService } from '../../../../database/postgreSQL/services/index.js';
+import type { InvitationQueryOptions, InvitationStatus } from '../../../../database/postgreSQL/services/index.js';
+import { createInvitation as createInvitationService, getInvitationStatus, toPublicInvitation } from '../../../../auth/services/registration.service.js';
+import send from '../../../../../utils/responseHandler.util.js';
+import { AuthenticatedRequest } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * كنترولر دعوات التسجيل - Invitations Controller
+ * يحتوي على إنشاء الدعوات وعرضها وإلغائها
+ * Contains all operations related to registration invitations
+ */
+
+/**
+ * الحصول على الدعوات
+ * Get invitations
+ */
+export const getAllInvitations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status, email, limit, offset } = req.query as {
+      status?: InvitationStatus;
+      email?: string;
+      limit?: number;
+      offset?: number;
+    };
+
+    const options: InvitationQueryOptions = {
+      status,
+      email,
+      limit: limit || 50,
+      offset: offset || 0
+    };
+
+    const [invitations, error] = await InvitationsService.getAll(options);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    send(res, { success: true, data: (invitations || []).map(toPublicInvitation) }, 'تم جلب الدعوات بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * إنشاء دعوة وإرسالها بالبريد
+ * Create and email an invitation
+ */
+export const createInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const [created, error] = await createInvitationService(req.user!, {
+      email: req.body.email,
+      permissions: req.body.permissions ?? null,
+      expiresIn: req.body.expires_in
+    });
+
+    if (error || !created) {
+      res.status(400);
+      return next(error || new Error('فشل في إنشاء الدعوة'));
+    }
+
+    send(res, {
+      success: true,
+      data: {
+        ...toPublicInvitation(created.invitation),
+        emailSent: created.emailSent
+      }
+    }, 'تم إنشاء الدعوة بنجاح', 201);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * إلغاء دعوة لم تُقبل بعد
+ * Revoke a not yet accepted invitation
+ */
+export const revokeInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [invitation, error] = await InvitationsService.getById(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!invitation) {
+      send(res, { success: false, data: null }, 'الدعوة غير موجودة', 404);
+      return;
+    }
+
+    if (invitation.accepted_at) {
+      send(res, { success: false, data: toPublicInvitation(invitation) }, 'لا يمكن إلغاء دعوة مقبولة', 409);
+      return;
+    }
+
+    if (getInvitationStatus(invitation) !== 'revoked') {
+      const [, revokeError] = await InvitationsService.revoke(id);
+      if (revokeError) {
+        res.status(500);
+        return next(revokeError);
+      }
+    }
+
+    const [revoked] = await InvitationsService.getById(id);
+    send(res, { success: true, data: toPublicInvitation(revoked || invitation) }, 'تم إلغاء الدعوة بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
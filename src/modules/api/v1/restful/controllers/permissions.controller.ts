@@ -0,0 +1,35 @@
+import { Response, NextFunction } from 'express';
+import { getPermissionCatalog } from '../../../../auth/services/permissions.service.js';
+import send from '../../../../../utils/responseHandler.util.js';
+import { AuthenticatedRequest } from '../../../../auth/middlewares/role.middleware.js';
+import { routes } from '../routes/index.js';
+
+/**
+ * كنترولر كتالوج الصلاحيات - Permissions Controller
+ * Lists every permission known to the API
+ */
+
+const API_VERSION = '/api/v1';
+
+/**
+ * الحصول على جميع الصلاحيات مع وصفها والمسارات التي تحميها
+ * Get all permissions with their description and the routes they guard
+ */
+export const getAllPermissions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const permissions = getPermissionCatalog(routes, API_VERSION);
+
+    send(res, {
+      success: true,
+      data: permissions,
+      count: permissions.length
+    }, 'تم جلب الصلاحيات بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
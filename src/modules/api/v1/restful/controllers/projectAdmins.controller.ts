@@ -152,6 +152,7 @@ export const createProjectAdmin = async (
   try {
     const projectAdminData: ProjectAdminData = {
       user_id: req.body.user_id,
+      role_id: req.body.role_id ?? null,
       permissions: req.body.permissions ?? []
     };
     
@@ -0,0 +1,186 @@
+import { Response, NextFunction } from 'express';
+import { RolesService } from '../../../../database/postgreSQL/services/index.js';
+import { SYSTEM_ROLES, isSystemRoleName, toPublicRole, toPublicSystemRole } from '../../../../auth/services/roles.service.js';
+import send from '../../../../../utils/responseHandler.util.js';
+import { AuthenticatedRequest } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * كنترولر الأدوار المخصصة - Roles Controller
+ * يحتوي على عرض الأدوار الأساسية وإدارة الأدوار المخصصة
+ * Contains all operations related to built-in and custom roles
+ */
+
+const SYSTEM_ROLE_NAME_MESSAGE = 'هذا الاسم محجوز لدور أساسي (owner, admin, user, guest)';
+
+/**
+ * الحصول على جميع الأدوار (الأساسية ثم المخصصة مع عدد حامليها)
+ * Get all roles (built-in first, then custom with holder counts)
+ */
+export const getAllRoles = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const [roles, error] = await RolesService.getAll();
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    const customRoles = await Promise.all((roles || []).map(async (role) => {
+      const [holders] = await RolesService.getHolderUserIds(role.id!);
+      return toPublicRole(role, (holders || []).length);
+    }));
+
+    send(res, {
+      success: true,
+      data: {
+        system: SYSTEM_ROLES.map(toPublicSystemRole),
+        custom: customRoles
+      }
+    }, 'تم جلب الأدوار بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * الحصول على دور مخصص مع حامليه
+ * Get custom role with its holders
+ */
+export const getRoleById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [role, error] = await RolesService.getById(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!role) {
+      send(res, { success: false, data: null }, 'الدور غير موجود', 404);
+      return;
+    }
+
+    const [holders] = await RolesService.getHolderUserIds(id);
+
+    send(res, {
+      success: true,
+      data: { ...toPublicRole(role, (holders || []).length), holderUserIds: holders || [] }
+    }, 'تم جلب الدور بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * إنشاء دور مخصص
+ * Create custom role
+ */
+export const createRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (isSystemRoleName(req.body.name)) {
+      send(res, { success: false, data: null }, SYSTEM_ROLE_NAME_MESSAGE, 400);
+      return;
+    }
+
+    const [role, error] = await RolesService.create({
+      name: req.body.name,
+      description: req.body.description || null,
+      permissions: req.body.permissions ?? [],
+      created_by: req.user!.isSystemClient ? null : req.user!.userID
+    });
+
+    if (error || !role) {
+      res.status(400);
+      return next(error || new Error('فشل في إنشاء الدور'));
+    }
+
+    send(res, { success: true, data: toPublicRole(role, 0) }, 'تم إنشاء الدور بنجاح', 201);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * تحديث دور مخصص (الصلاحيات الجديدة تُطبق على جميع حامليه فوراً)
+ * Update custom role (new permissions apply to every holder at once)
+ */
+export const updateRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    if (req.body.name && isSystemRoleName(req.body.name)) {
+      send(res, { success: false, data: null }, SYSTEM_ROLE_NAME_MESSAGE, 400);
+      return;
+    }
+
+    const [existing] = await RolesService.getById(id);
+    if (!existing) {
+      send(res, { success: false, data: null }, 'الدور غير موجود', 404);
+      return;
+    }
+
+    const [role, error] = await RolesService.update(id, req.body);
+
+    if (error || !role) {
+      res.status(400);
+      return next(error || new Error('فشل في تحديث الدور'));
+    }
+
+    send(res, { success: true, data: toPublicRole(role) }, 'تم تحديث الدور بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * حذف دور مخصص (حاملوه يبقون مشرفين بصلاحياتهم المباشرة فقط)
+ * Delete custom role (holders keep only their direct permissions)
+ */
+export const deleteRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [deleted, error] = await RolesService.delete(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!deleted) {
+      send(res, { success: false, data: null }, 'الدور غير موجود', 404);
+      return;
+    }
+
+    send(res, { success: true, data: null }, 'تم حذف الدور بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
@@ -0,0 +1,275 @@
+import { Response, NextFunction } from 'express';
+import { ServiceAccountsService, ServiceAccountSecretsService } from '../../../../database/postgreSQL/services/index.js';
+import type { ServiceAccountData, ServiceAccountQueryOptions } from '../../../../database/postgreSQL/services/index.js';
+import { issueServiceAccountSecret, rotateServiceAccountSecret, toPublicSecret } from '../../../../auth/services/serviceAccounts.service.js';
+import send from '../../../../../utils/responseHandler.util.js';
+import { AuthenticatedRequest } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * كنترولر إدارة حسابات الخدمة - Service Accounts Controller
+ * يحتوي على جميع العمليات المتعلقة بإدارة حسابات الخدمة وأسرارها
+ * Contains all operations related to service accounts and their secrets
+ */
+
+/**
+ * دمج بيانات الحساب مع بيانات أسراره (بدون البصمات)
+ * Attach public secrets metadata to the account
+ */
+const withSecrets = async (account: ServiceAccountData) => {
+  const [secrets] = await ServiceAccountSecretsService.getByServiceAccountId(account.id!);
+  return { ...account, secrets: (secrets || []).map(toPublicSecret) };
+};
+
+/**
+ * الحصول على جميع حسابات الخدمة
+ * Get all service accounts
+ */
+export const getAllServiceAccounts = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { limit, offset } = req.query as {
+      limit?: string;
+      offset?: string;
+    };
+
+    const options: ServiceAccountQueryOptions = {
+      ...(limit && { limit: Math.min(parseInt(limit), 200) }),
+      ...(offset && { offset: parseInt(offset) })
+    };
+
+    const [accounts, error] = await ServiceAccountsService.getAll(options);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    const result = await Promise.all((accounts || []).map(withSecrets));
+
+    send(res, { success: true, data: result }, 'تم جلب حسابات الخدمة بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * الحصول على حساب خدمة بواسطة المعرف
+ * Get service account by ID
+ */
+export const getServiceAccountById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [account, error] = await ServiceAccountsService.getById(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!account) {
+      send(res, { success: false, data: null }, 'حساب الخدمة غير موجود', 404);
+      return;
+    }
+
+    send(res, { success: true, data: await withSecrets(account) }, 'تم جلب حساب الخدمة بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * إنشاء حساب خدمة جديد مع سره الأول
+ * Create new service account with its first secret
+ */
+export const createServiceAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const accountData: ServiceAccountData = {
+      name: req.body.name,
+      description: req.body.description || null,
+      permissions: req.body.permissions ?? [],
+      allowed_ips: req.body.allowed_ips ?? [],
+      created_by: req.user!.userID
+    };
+
+    const [account, error] = await ServiceAccountsService.create(accountData);
+
+    if (error) {
+      console.log('Error creating service account:', error);
+      res.status(400);
+      return next(error);
+    }
+
+    if (!account) {
+      send(res, { success: false, data: null }, 'فشل في إنشاء حساب الخدمة', 400);
+      return;
+    }
+
+    const [issued, secretError] = await issueServiceAccountSecret(account.id!);
+
+    if (secretError || !issued) {
+      res.status(500);
+      return next(secretError || new Error('فشل في إنشاء سر حساب الخدمة'));
+    }
+
+    send(res, {
+      success: true,
+      data: {
+        ...account,
+        secret: issued.secret,
+        secrets: [toPublicSecret(issued.secretData)]
+      }
+    }, 'تم إنشاء حساب الخدمة بنجاح، احفظ السر الآن لأنه لن يظهر مرة أخرى', 201);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * تحديث حساب الخدمة (الاسم، الوصف، الصلاحيات، عناوين IP)
+ * Update service account
+ */
+export const updateServiceAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [account] = await ServiceAccountsService.getById(id);
+    if (!account) {
+      send(res, { success: false, data: null }, 'حساب الخدمة غير موجود', 404);
+      return;
+    }
+
+    const [result, error] = await ServiceAccountsService.update(id, req.body);
+
+    if (error) {
+      console.log('Error updating service account:', error);
+      res.status(400);
+      return next(error);
+    }
+
+    send(res, { success: true, data: result }, 'تم تحديث حساب الخدمة بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * تدوير السر: إصدار سر جديد، والأسرار الحالية تبقى فعالة حتى نهاية فترة السماح
+ * Rotate secret: issue a new one, current secrets stay valid for the grace period
+ */
+export const rotateServiceAccountSecretHandler = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [account] = await ServiceAccountsService.getById(id);
+    if (!account) {
+      send(res, { success: false, data: null }, 'حساب الخدمة غير موجود', 404);
+      return;
+    }
+
+    const [issued, error] = await rotateServiceAccountSecret(id, req.body?.grace_period);
+
+    if (error || !issued) {
+      res.status(400);
+      return next(error || new Error('فشل في تدوير سر حساب الخدمة'));
+    }
+
+    send(res, {
+      success: true,
+      data: {
+        secret: issued.secret,
+        ...toPublicSecret(issued.secretData)
+      }
+    }, 'تم إنشاء سر جديد، احفظه الآن لأنه لن يظهر مرة أخرى', 201);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * إلغاء سر فوراً
+ * Revoke a secret immediately
+ */
+export const revokeServiceAccountSecret = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+    const secretId = req.params.secretId as string;
+
+    const [deleted, error] = await ServiceAccountSecretsService.delete(secretId, id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!deleted) {
+      send(res, { success: false, data: null }, 'السر غير موجود', 404);
+      return;
+    }
+
+    send(res, { success: true, data: null }, 'تم إلغاء السر بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * حذف حساب الخدمة
+ * Delete service account
+ */
+export const deleteServiceAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [deleted, error] = await ServiceAccountsService.delete(id);
+
+    if (error) {
+      console.log('Error deleting service account:', error);
+      res.status(400);
+      return next(error);
+    }
+
+    if (!deleted) {
+      send(res, { success: false, data: null }, 'حساب الخدمة غير موجود', 404);
+      return;
+    }
+
+    send(res, { success: true, data: null }, 'تم حذف حساب الخدمة بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
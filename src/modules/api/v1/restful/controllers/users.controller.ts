@@ -4,6 +4,9 @@ import { type QueryOptions } from '../../../../database/postgreSQL/services/user
 import send from '../../../../../utils/responseHandler.util.js';
 import { resolveDatabaseResult } from '../../../../../utils/object.util.js';
 import { AuthenticatedRequest } from '../../../../auth/middlewares/role.middleware.js';
+import { clearLoginFailures, getLockoutStatus } from '../../../../auth/services/loginThrottle.service.js';
+import { SecurityEventsService, SecurityEventType } from '../../../../database/postgreSQL/services/index.js';
+import { toPublicSecurityEvent } from '../../../../auth/services/securityEvents.service.js';
 
 /**
  * كنترولر إدارة المستخدمين - Users Controller
@@ -144,6 +147,9 @@ export const getUserByEmail = async (
   }
 };
 
+// الحقول التي يمكن تحديثها عبر PUT /users/:id (الملف الشخصي فقط، المستخدم يصل لحسابه)
+const UPDATABLE_PROFILE_FIELDS = ['first_name', 'last_name', 'display_name', 'avatar_url'] as const;
+
 /**
  * تحديث مستخدم
  * Update user
@@ -155,7 +161,12 @@ export const updateUser = async (
 ): Promise<void> => {
   try {
     const id = req.params.id as string;
-    const updateData = req.body;
+    // لا تُمرر أي حقول أخرى (email, email_verified, password_hash...) حتى لو أرسلها العميل
+    const updateData = Object.fromEntries(
+      UPDATABLE_PROFILE_FIELDS
+        .filter((field) => req.body[field] !== undefined)
+        .map((field) => [field, req.body[field]])
+    );
 
     const [result, error] = await UsersService.update(id, updateData);
 
@@ -198,3 +209,136 @@ export const deleteUser = async (
     next(error);
   }
 };
+
+/**
+ * حالة قفل تسجيل الدخول للمستخدم
+ * Get user login lockout status
+ */
+export const getUserLockout = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [user, error] = await UsersService.getById(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!user) {
+      send(res, { success: false, data: null }, 'المستخدم غير موجود', 404);
+      return;
+    }
+
+    const lockout = await getLockoutStatus(user.email);
+    send(res, { success: true, data: lockout }, 'تم جلب حالة القفل بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * فك قفل تسجيل الدخول ومسح المحاولات الفاشلة
+ * Unlock user login and clear failed attempts
+ */
+export const unlockUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+
+    const [user, error] = await UsersService.getById(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!user) {
+      send(res, { success: false, data: null }, 'المستخدم غير موجود', 404);
+      return;
+    }
+
+    await clearLoginFailures(user.email);
+    send(res, { success: true, data: null }, 'تم فك قفل تسجيل الدخول بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
+
+/**
+ * سجل الأحداث الأمنية للمستخدم (تسجيلات الدخول، تغييرات كلمة المرور والمصادقة الثنائية، إلغاء الجلسات)
+ * Get user security events (logins, password and 2FA changes, token revocations)
+ */
+export const getUserSecurityEvents = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const id = req.params.id as string;
+    const { type, success, provider, ip_address, from, to, limit, offset } = req.query as {
+      type?: string;
+      success?: boolean;
+      provider?: string;
+      ip_address?: string;
+      from?: Date;
+      to?: Date;
+      limit?: number;
+      offset?: number;
+    };
+
+    const [user, error] = await UsersService.getById(id);
+
+    if (error) {
+      res.status(500);
+      return next(error);
+    }
+
+    if (!user) {
+      send(res, { success: false, data: null }, 'المستخدم غير موجود', 404);
+      return;
+    }
+
+    const currentLimit = limit || 50;
+    const currentOffset = offset || 0;
+
+    const [result, eventsError] = await SecurityEventsService.getAll({
+      user_id: id,
+      types: type ? type.split(',') as SecurityEventType[] : undefined,
+      success,
+      provider,
+      ip_address,
+      from,
+      to,
+      limit: currentLimit,
+      offset: currentOffset
+    });
+
+    if (eventsError || !result) {
+      res.status(500);
+      return next(eventsError);
+    }
+
+    const nextOffset = currentOffset + currentLimit;
+
+    send(res, {
+      success: true,
+      data: result.events.map(toPublicSecurityEvent),
+      count: result.total,
+      nextOffset,
+      left: Math.max(0, result.total - nextOffset)
+    }, 'تم جلب سجل الأحداث الأمنية بنجاح', 200);
+  } catch (error) {
+    res.status(500);
+    next(error);
+  }
+};
@@ -33,11 +33,11 @@ router.get(
 /**
  * @route GET /api/v1/cars/statistics
  * @desc الحصول على إحصائيات السيارات
- * @access Private - owner and admin with 'view_cars' permission
+ * @access Private - owner and admin with 'cars:read' permission
  */
 router.get(
   '/statistics',
-  checkRole(['owner', 'admin'], ['view_cars']),
+  checkRole(['owner', 'admin'], ['cars:read']),
   carsController.getCarStatistics
 );
 
@@ -72,7 +72,7 @@ router.get(
 /**
  * @route POST /api/v1/cars
  * @desc إنشاء سيارة جديدة
- * @access Private - owner and admin with 'create_cars' permission
+ * @access Private - owner and admin with 'cars:create' permission
  * @body {string} car_make - شركة تصنيع السيارة
  * @body {string} car_model - موديل السيارة
  * @body {number} car_model_year - سنة الصنع
@@ -80,7 +80,7 @@ router.get(
  */
 router.post(
   '/',
-  checkRole(['owner', 'admin'], ['create_cars']),
+  checkRole(['owner', 'admin'], ['cars:create']),
   validationMiddlewareFactory(carsValidator.createCarSchema.body!, 'body'),
   carsController.createCar
 );
@@ -88,13 +88,13 @@ router.post(
 /**
  * @route PUT /api/v1/cars/:id
  * @desc تحديث سيارة
- * @access Private - owner and admin with 'update_cars' permission
+ * @access Private - owner and admin with 'cars:update' permission
  * @param {string} id - معرف السيارة (UUID)
  * @body {Object} updateData - البيانات المحدثة
  */
 router.put(
   '/:id',
-  checkRole(['owner', 'admin'], ['update_cars']),
+  checkRole(['owner', 'admin'], ['cars:update']),
   validationMiddlewareFactory(carsValidator.updateCarSchema.params!, 'params'),
   validationMiddlewareFactory(carsValidator.updateCarSchema.body!, 'body'),
   carsController.updateCar
@@ -103,12 +103,12 @@ router.put(
 /**
  * @route DELETE /api/v1/cars/:id
  * @desc حذف سيارة
- * @access Private - owner and admin with 'delete_cars' permission
+ * @access Private - owner and admin with 'cars:delete' permission
  * @param {string} id - معرف السيارة (UUID)
  */
 router.delete(
   '/:id',
-  checkRole(['owner', 'admin'], ['delete_cars']),
+  checkRole(['owner', 'admin'], ['cars:delete']),
   validationMiddlewareFactory(carsValidator.deleteCarSchema.params!, 'params'),
   carsController.deleteCar
 );
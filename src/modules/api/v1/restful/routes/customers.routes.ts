@@ -1,6 +1,6 @@
 import express, { Router } from 'express';
 import * as customersController from '../controllers/customers.controller.js';
-import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+import { checkRole, requireVerifiedEmail } from '../../../../auth/middlewares/role.middleware.js';
 
 /**
  * مسارات إدارة عملاء Stripe
@@ -12,7 +12,7 @@ const router: Router = express.Router();
 /**
  * @route POST /api/v1/customers
  * @desc إنشاء عميل جديد في Stripe
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @body {string} email - البريد الإلكتروني
  * @body {string} [name] - الاسم
  * @body {string} [phone] - الهاتف
@@ -21,18 +21,20 @@ const router: Router = express.Router();
 router.post(
   '/',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   customersController.createCustomer
 );
 
 /**
  * @route POST /api/v1/customers/get-or-create
  * @desc الحصول على عميل أو إنشاؤه
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @body {string} email - البريد الإلكتروني
  */
 router.post(
   '/get-or-create',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   customersController.getOrCreateCustomer
 );
 
@@ -63,13 +65,14 @@ router.put(
 /**
  * @route POST /api/v1/customers/:customerId/payment-methods
  * @desc إرفاق طريقة دفع للعميل
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @param {string} customerId - معرف العميل
  * @body {string} paymentMethodId - معرف طريقة الدفع
  */
 router.post(
   '/:customerId/payment-methods',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   customersController.attachPaymentMethod
 );
 
@@ -89,12 +92,13 @@ router.get(
 /**
  * @route POST /api/v1/customers/:customerId/setup-intent
  * @desc إنشاء Setup Intent للعميل
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @param {string} customerId - معرف العميل
  */
 router.post(
   '/:customerId/setup-intent',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   customersController.createSetupIntent
 );
 
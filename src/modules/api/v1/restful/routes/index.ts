@@ -5,6 +5,10 @@ import subscriptionsRoutes from './subscriptions.routes.js';
 import plansRoutes from './plans.routes.js';
 import customersRoutes from './customers.routes.js';
 import carsRoutes from './cars.routes.js';
+import serviceAccountsRoutes from './serviceAccounts.routes.js';
+import invitationsRoutes from './invitations.routes.js';
+import rolesRoutes from './roles.routes.js';
+import permissionsRoutes from './permissions.routes.js';
 
 interface RouteConfig {
   path: string;
@@ -18,7 +22,11 @@ const routes: RouteConfig[] = [
   { path: '/subscriptions', router: subscriptionsRoutes },
   { path: '/plans', router: plansRoutes },
   { path: '/customers', router: customersRoutes },
-  { path: '/cars', router: carsRoutes }
+  { path: '/cars', router: carsRoutes },
+  { path: '/service-accounts', router: serviceAccountsRoutes },
+  { path: '/invitations', router: invitationsRoutes },
+  { path: '/roles', router: rolesRoutes },
+  { path: '/permissions', router: permissionsRoutes }
 ];
 
 export {
@@ -28,5 +36,9 @@ export {
   subscriptionsRoutes,
   plansRoutes,
   customersRoutes,
-  carsRoutes
+  carsRoutes,
+  serviceAccountsRoutes,
+  invitationsRoutes,
+  rolesRoutes,
+  permissionsRoutes
 };
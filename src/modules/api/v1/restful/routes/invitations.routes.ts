@@ -0,0 +1,58 @@
+import express, { Router } from 'express';
+import * as invitationsController from '../controllers/invitations.controller.js';
+import * as invitationsValidator from '../validators/invitations.validator.js';
+import validationMiddlewareFactory from '../../../../../middlewares/validation/validation.middleware.js';
+import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * مسارات دعوات التسجيل
+ * @module InvitationsRoutes
+ */
+
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/v1/invitations
+ * @desc الحصول على الدعوات
+ * @access Private - owner and admin with 'invitations:read' permission
+ * @query {string} [status] - pending / accepted / revoked / expired
+ * @query {string} [email] - البريد المدعو
+ * @query {number} [limit] - عدد النتائج (الحد الأقصى 200)
+ * @query {number} [offset] - عدد النتائج المتجاوزة
+ */
+router.get(
+  '/',
+  checkRole(['owner', 'admin'], ['invitations:read']),
+  validationMiddlewareFactory(invitationsValidator.getInvitationsSchema.query!, 'query'),
+  invitationsController.getAllInvitations
+);
+
+/**
+ * @route POST /api/v1/invitations
+ * @desc إنشاء دعوة وإرسالها بالبريد (تلغي الدعوات المعلقة السابقة لنفس البريد)
+ * @access Private - owner and admin with 'invitations:write' permission
+ * @body {string} email - البريد المدعو
+ * @body {string[]} [permissions] - صلاحيات مشرف تُمنح عند قبول الدعوة (المشرف يمنح صلاحياته فقط)
+ * @body {string} [expires_in] - مدة الصلاحية (الافتراضي INVITATION_EXPIRES_IN)
+ */
+router.post(
+  '/',
+  checkRole(['owner', 'admin'], ['invitations:write']),
+  validationMiddlewareFactory(invitationsValidator.createInvitationSchema.body!, 'body'),
+  invitationsController.createInvitation
+);
+
+/**
+ * @route DELETE /api/v1/invitations/:id
+ * @desc إلغاء دعوة لم تُقبل بعد
+ * @access Private - owner and admin with 'invitations:write' permission
+ * @param {string} id - معرف الدعوة (UUID)
+ */
+router.delete(
+  '/:id',
+  checkRole(['owner', 'admin'], ['invitations:write']),
+  validationMiddlewareFactory(invitationsValidator.invitationIdSchema.params!, 'params'),
+  invitationsController.revokeInvitation
+);
+
+export default router;
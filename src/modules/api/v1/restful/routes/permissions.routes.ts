@@ -0,0 +1,23 @@
+import express, { Router } from 'express';
+import * as permissionsController from '../controllers/permissions.controller.js';
+import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * مسارات كتالوج الصلاحيات
+ * @module PermissionsRoutes
+ */
+
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/v1/permissions
+ * @desc جميع الصلاحيات مع وصفها والمسارات التي تحميها
+ * @access Private - owner, admin
+ */
+router.get(
+  '/',
+  checkRole(['owner', 'admin']),
+  permissionsController.getAllPermissions
+);
+
+export default router;
@@ -1,6 +1,6 @@
 import express, { Router } from 'express';
 import * as plansController from '../controllers/plans.controller.js';
-import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+import { checkRole, requireVerifiedEmail } from '../../../../auth/middlewares/role.middleware.js';
 
 /**
  * مسارات إدارة الخطط والأسعار - متكاملة مع Stripe
@@ -60,7 +60,7 @@ router.get('/products/:productId', plansController.getProductById);
 /**
  * @route POST /api/v1/plans/subscriptions
  * @desc إنشاء اشتراك جديد في Stripe
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @body {string} customerId - معرف العميل في Stripe
  * @body {string} priceId - معرف السعر في Stripe
  * @body {number} [quantity] - الكمية
@@ -72,6 +72,7 @@ router.get('/products/:productId', plansController.getProductById);
 router.post(
   '/subscriptions',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   plansController.createStripeSubscription
 );
 
@@ -103,19 +104,20 @@ router.post(
 /**
  * @route POST /api/v1/plans/subscriptions/:subscriptionId/reactivate
  * @desc إعادة تفعيل اشتراك في Stripe
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @param {string} subscriptionId - معرف الاشتراك في Stripe
  */
 router.post(
   '/subscriptions/:subscriptionId/reactivate',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   plansController.reactivateStripeSubscription
 );
 
 /**
  * @route POST /api/v1/plans/subscriptions/:subscriptionId/change-plan
  * @desc تغيير خطة الاشتراك في Stripe
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @param {string} subscriptionId - معرف الاشتراك في Stripe
  * @body {string} newPriceId - معرف السعر الجديد
  * @body {string} [prorationBehavior] - سلوك التناسب
@@ -123,6 +125,7 @@ router.post(
 router.post(
   '/subscriptions/:subscriptionId/change-plan',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   plansController.changeStripeSubscriptionPlan
 );
 
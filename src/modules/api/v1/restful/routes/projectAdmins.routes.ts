@@ -119,8 +119,8 @@ router.put(
 router.post(
   '/:id/permissions',
   checkRole(['owner']),
-  validationMiddlewareFactory(projectAdminsValidator.permissionActionSchema.params!, 'params'),
-  validationMiddlewareFactory(projectAdminsValidator.permissionActionSchema.body!, 'body'),
+  validationMiddlewareFactory(projectAdminsValidator.addPermissionSchema.params!, 'params'),
+  validationMiddlewareFactory(projectAdminsValidator.addPermissionSchema.body!, 'body'),
   projectAdminsController.addPermission
 );
 
@@ -134,8 +134,8 @@ router.post(
 router.delete(
   '/:id/permissions',
   checkRole(['owner']),
-  validationMiddlewareFactory(projectAdminsValidator.permissionActionSchema.params!, 'params'),
-  validationMiddlewareFactory(projectAdminsValidator.permissionActionSchema.body!, 'body'),
+  validationMiddlewareFactory(projectAdminsValidator.removePermissionSchema.params!, 'params'),
+  validationMiddlewareFactory(projectAdminsValidator.removePermissionSchema.body!, 'body'),
   projectAdminsController.removePermission
 );
 
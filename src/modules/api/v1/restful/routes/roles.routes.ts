@@ -0,0 +1,80 @@
+import express, { Router } from 'express';
+import * as rolesController from '../controllers/roles.controller.js';
+import * as rolesValidator from '../validators/roles.validator.js';
+import validationMiddlewareFactory from '../../../../../middlewares/validation/validation.middleware.js';
+import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * مسارات إدارة الأدوار المخصصة
+ * @module RolesRoutes
+ */
+
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/v1/roles
+ * @desc الأدوار الأساسية (owner, admin, user, guest) والأدوار المخصصة مع عدد حامليها
+ * @access Private - owner only
+ */
+router.get(
+  '/',
+  checkRole(['owner']),
+  rolesController.getAllRoles
+);
+
+/**
+ * @route GET /api/v1/roles/:id
+ * @desc الحصول على دور مخصص مع معرفات حامليه
+ * @access Private - owner only
+ * @param {string} id - معرف الدور (UUID)
+ */
+router.get(
+  '/:id',
+  checkRole(['owner']),
+  validationMiddlewareFactory(rolesValidator.roleIdSchema.params!, 'params'),
+  rolesController.getRoleById
+);
+
+/**
+ * @route POST /api/v1/roles
+ * @desc إنشاء دور مخصص
+ * @access Private - owner only
+ * @body {string} name - اسم الدور (فريد، ولا يكون اسم دور أساسي)
+ * @body {string} [description] - الوصف
+ * @body {string[]} [permissions] - صلاحيات الدور
+ */
+router.post(
+  '/',
+  checkRole(['owner']),
+  validationMiddlewareFactory(rolesValidator.createRoleSchema.body!, 'body'),
+  rolesController.createRole
+);
+
+/**
+ * @route PUT /api/v1/roles/:id
+ * @desc تحديث دور مخصص (يُطبق على جميع حامليه فوراً)
+ * @access Private - owner only
+ * @param {string} id - معرف الدور (UUID)
+ */
+router.put(
+  '/:id',
+  checkRole(['owner']),
+  validationMiddlewareFactory(rolesValidator.updateRoleSchema.params!, 'params'),
+  validationMiddlewareFactory(rolesValidator.updateRoleSchema.body!, 'body'),
+  rolesController.updateRole
+);
+
+/**
+ * @route DELETE /api/v1/roles/:id
+ * @desc حذف دور مخصص (حاملوه يبقون بصلاحياتهم المباشرة فقط)
+ * @access Private - owner only
+ * @param {string} id - معرف الدور (UUID)
+ */
+router.delete(
+  '/:id',
+  checkRole(['owner']),
+  validationMiddlewareFactory(rolesValidator.roleIdSchema.params!, 'params'),
+  rolesController.deleteRole
+);
+
+export default router;
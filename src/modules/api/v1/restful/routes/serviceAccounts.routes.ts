@@ -0,0 +1,110 @@
+import express, { Router } from 'express';
+import * as serviceAccountsController from '../controllers/serviceAccounts.controller.js';
+import * as serviceAccountsValidator from '../validators/serviceAccounts.validator.js';
+import validationMiddlewareFactory from '../../../../../middlewares/validation/validation.middleware.js';
+import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+
+/**
+ * مسارات إدارة حسابات الخدمة (البوت والخدمات الداخلية)
+ * @module ServiceAccountsRoutes
+ */
+
+const router: Router = express.Router();
+
+/**
+ * @route GET /api/v1/service-accounts
+ * @desc الحصول على جميع حسابات الخدمة مع بيانات أسرارها (بدون الأسرار نفسها)
+ * @access Private - owner only
+ * @query {number} [limit] - عدد النتائج المطلوبة
+ * @query {number} [offset] - عدد النتائج المتجاوزة
+ */
+router.get(
+  '/',
+  checkRole(['owner']),
+  serviceAccountsController.getAllServiceAccounts
+);
+
+/**
+ * @route GET /api/v1/service-accounts/:id
+ * @desc الحصول على حساب خدمة بواسطة المعرف
+ * @access Private - owner only
+ * @param {string} id - معرف حساب الخدمة (UUID)
+ */
+router.get(
+  '/:id',
+  checkRole(['owner']),
+  validationMiddlewareFactory(serviceAccountsValidator.serviceAccountIdSchema.params!, 'params'),
+  serviceAccountsController.getServiceAccountById
+);
+
+/**
+ * @route POST /api/v1/service-accounts
+ * @desc إنشاء حساب خدمة جديد (السر يُعرض مرة واحدة في الاستجابة)
+ * @access Private - owner only
+ * @body {string} name - اسم الحساب
+ * @body {string} [description] - الوصف
+ * @body {string[]} [permissions] - الصلاحيات الممنوحة
+ * @body {string[]} [allowed_ips] - عناوين IP أو نطاقات CIDR المسموحة
+ */
+router.post(
+  '/',
+  checkRole(['owner']),
+  validationMiddlewareFactory(serviceAccountsValidator.createServiceAccountSchema.body!, 'body'),
+  serviceAccountsController.createServiceAccount
+);
+
+/**
+ * @route PUT /api/v1/service-accounts/:id
+ * @desc تحديث حساب الخدمة
+ * @access Private - owner only
+ * @param {string} id - معرف حساب الخدمة (UUID)
+ */
+router.put(
+  '/:id',
+  checkRole(['owner']),
+  validationMiddlewareFactory(serviceAccountsValidator.updateServiceAccountSchema.params!, 'params'),
+  validationMiddlewareFactory(serviceAccountsValidator.updateServiceAccountSchema.body!, 'body'),
+  serviceAccountsController.updateServiceAccount
+);
+
+/**
+ * @route POST /api/v1/service-accounts/:id/secrets
+ * @desc تدوير السر: سر جديد، والأسرار الحالية تنتهي بعد فترة السماح
+ * @access Private - owner only
+ * @param {string} id - معرف حساب الخدمة (UUID)
+ * @body {string} [grace_period] - فترة السماح (الافتراضي SERVICE_ACCOUNT_ROTATION_GRACE_PERIOD)
+ */
+router.post(
+  '/:id/secrets',
+  checkRole(['owner']),
+  validationMiddlewareFactory(serviceAccountsValidator.rotateSecretSchema.params!, 'params'),
+  validationMiddlewareFactory(serviceAccountsValidator.rotateSecretSchema.body!, 'body'),
+  serviceAccountsController.rotateServiceAccountSecretHandler
+);
+
+/**
+ * @route DELETE /api/v1/service-accounts/:id/secrets/:secretId
+ * @desc إلغاء سر فوراً
+ * @access Private - owner only
+ */
+router.delete(
+  '/:id/secrets/:secretId',
+  checkRole(['owner']),
+  validationMiddlewareFactory(serviceAccountsValidator.revokeSecretSchema.params!, 'params'),
+  serviceAccountsController.revokeServiceAccountSecret
+);
+
+/**
+ * @route DELETE /api/v1/service-accounts/:id
+ * @desc حذف حساب الخدمة مع جميع أسراره
+ * @access Private - owner only
+ * @param {string} id - معرف حساب الخدمة (UUID)
+ */
+router.delete(
+  '/:id',
+  checkRole(['owner']),
+  validationMiddlewareFactory(serviceAccountsValidator.serviceAccountIdSchema.params!, 'params'),
+  serviceAccountsController.deleteServiceAccount
+);
+
+export default router;
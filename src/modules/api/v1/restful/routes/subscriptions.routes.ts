@@ -2,7 +2,8 @@ import express, { Router } from 'express';
 import * as subscriptionsController from '../controllers/subscriptions.controller.js';
 import * as subscriptionsValidator from '../validators/subscriptions.validator.js';
 import validationMiddlewareFactory from '../../../../../middlewares/validation/validation.middleware.js';
-import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+import { checkRole, denyWhileImpersonating, requireVerifiedEmail } from '../../../../auth/middlewares/role.middleware.js';
+import { authorize, ownerFromParam, subscriptionOwnerFromParam } from '../../../../auth/middlewares/policy.middleware.js';
 
 /**
  * مسارات إدارة الاشتراكات - متوافقة مع Stripe
@@ -68,57 +69,59 @@ router.get(
 router.post(
   '/me/cancel',
   checkRole(['owner', 'admin', 'user']),
+  denyWhileImpersonating(),
   subscriptionsController.cancelMySubscription
 );
 
 /**
  * @route GET /api/v1/subscriptions/user/:userId
  * @desc الحصول على اشتراكات المستخدم
- * @access Private - owner and admin only
+ * @access Private - owner, admin, or the user themselves (policy 'subscriptions:read')
  * @param {string} userId - معرف المستخدم (UUID)
  */
 router.get(
   '/user/:userId',
-  checkRole(['owner', 'admin']),
   validationMiddlewareFactory(subscriptionsValidator.getSubscriptionsByUserIdSchema.params!, 'params'),
+  authorize('subscriptions:read', ownerFromParam('userId')),
   subscriptionsController.getSubscriptionsByUserId
 );
 
 /**
  * @route GET /api/v1/subscriptions/user/:userId/active
  * @desc الحصول على الاشتراك النشط للمستخدم
- * @access Private - owner and admin only
+ * @access Private - owner, admin, or the user themselves (policy 'subscriptions:read')
  * @param {string} userId - معرف المستخدم (UUID)
  */
 router.get(
   '/user/:userId/active',
-  checkRole(['owner', 'admin']),
   validationMiddlewareFactory(subscriptionsValidator.getSubscriptionsByUserIdSchema.params!, 'params'),
+  authorize('subscriptions:read', ownerFromParam('userId')),
   subscriptionsController.getActiveSubscriptionByUserId
 );
 
 /**
  * @route GET /api/v1/subscriptions/:id
  * @desc الحصول على اشتراك بواسطة المعرف
- * @access Private - owner and admin only
+ * @access Private - owner, admin, or the subscription's user (policy 'subscriptions:read')
  * @param {string} id - معرف الاشتراك (UUID)
  */
 router.get(
   '/:id',
-  checkRole(['owner', 'admin']),
   validationMiddlewareFactory(subscriptionsValidator.getSubscriptionByIdSchema.params!, 'params'),
+  authorize('subscriptions:read', subscriptionOwnerFromParam('id')),
   subscriptionsController.getSubscriptionById
 );
 
 /**
  * @route POST /api/v1/subscriptions
  * @desc إنشاء اشتراك جديد (حفظ في قاعدة البيانات)
- * @access Private - authenticated users
+ * @access Private - authenticated users with a verified email
  * @body {Object} subscriptionData - بيانات الاشتراك
  */
 router.post(
   '/',
   checkRole(['owner', 'admin', 'user']),
+  requireVerifiedEmail(),
   validationMiddlewareFactory(subscriptionsValidator.createSubscriptionSchema.body!, 'body'),
   subscriptionsController.createSubscription
 );
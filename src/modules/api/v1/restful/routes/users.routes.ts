@@ -2,7 +2,8 @@ import express, { Router } from 'express';
 import * as usersController from '../controllers/users.controller.js';
 import * as usersValidator from '../validators/users.validator.js';
 import validationMiddlewareFactory from '../../../../../middlewares/validation/validation.middleware.js';
-import { checkRole } from '../../../../auth/middlewares/role.middleware.js';
+import { checkRole, denyWhileImpersonating } from '../../../../auth/middlewares/role.middleware.js';
+import { authorize, ownerFromParam } from '../../../../auth/middlewares/policy.middleware.js';
 import { checkSubscription } from '../../../../auth/middlewares/subscription.middleware.js';
 
 /**
@@ -15,7 +16,7 @@ const router: Router = express.Router();
 /**
  * @route GET /api/v1/users
  * @desc الحصول على جميع المستخدمين
- * @access Private - owner and admin with 'view_users' permission
+ * @access Private - owner and admin with 'users:read' permission
  * @query {number} [limit] - عدد النتائج المطلوبة
  * @query {number} [offset] - عدد النتائج المتجاوزة
  * @query {string} [order] - ترتيب النتائج
@@ -24,19 +25,19 @@ const router: Router = express.Router();
  */
 router.get(
   '/',
-  checkRole(['owner', 'admin'], ['view_users']),
+  checkRole(['owner', 'admin'], ['users:read']),
   usersController.getAllUsers
 );
 
 /**
  * @route GET /api/v1/users/email/:email
  * @desc الحصول على مستخدم بواسطة البريد الإلكتروني
- * @access Private - owner and admin with 'view_users' permission
+ * @access Private - owner and admin with 'users:read' permission
  * @param {string} email - البريد الإلكتروني
  */
 router.get(
   '/email/:email',
-  checkRole(['owner', 'admin'], ['view_users']),
+  checkRole(['owner', 'admin'], ['users:read']),
   validationMiddlewareFactory(usersValidator.getUserByEmailSchema.params!, 'params'),
   usersController.getUserByEmail
 );
@@ -44,31 +45,80 @@ router.get(
 /**
  * @route GET /api/v1/users/:id
  * @desc الحصول على مستخدم بواسطة المعرف (UUID)
- * @access Private - owner and admin with 'view_users' permission
+ * @access Private - owner, admin with 'users:read' permission, or the user themselves (policy 'users:read')
  * @param {string} id - معرف المستخدم (UUID)
  */
 router.get(
   '/:id',
-  checkRole(['owner', 'admin'], ['view_users']),
   validationMiddlewareFactory(usersValidator.getUserByIdSchema.params!, 'params'),
+  authorize('users:read', ownerFromParam('id')),
   usersController.getUserById
 );
 
 /**
  * @route PUT /api/v1/users/:id
- * @desc تحديث مستخدم
- * @access Private - owner only
+ * @desc تحديث مستخدم (بيانات الملف الشخصي فقط)
+ * @access Private - owner, or the user themselves (policy 'users:update')
  * @param {string} id - معرف المستخدم (UUID)
- * @body {Object} updateData - البيانات المحدثة
+ * @body {Object} updateData - البيانات المحدثة (first_name, last_name, display_name, avatar_url فقط)
  */
 router.put(
   '/:id',
-  checkRole(['owner']),
   validationMiddlewareFactory(usersValidator.updateUserSchema.params!, 'params'),
+  authorize('users:update', ownerFromParam('id')),
+  denyWhileImpersonating(),
   validationMiddlewareFactory(usersValidator.updateUserSchema.body!, 'body'),
   usersController.updateUser
 );
 
+/**
+ * @route GET /api/v1/users/:id/lockout
+ * @desc حالة قفل تسجيل الدخول (عدد المحاولات الفاشلة وموعد انتهاء القفل)
+ * @access Private - owner only
+ * @param {string} id - معرف المستخدم (UUID)
+ */
+router.get(
+  '/:id/lockout',
+  checkRole(['owner']),
+  validationMiddlewareFactory(usersValidator.unlockUserSchema.params!, 'params'),
+  usersController.getUserLockout
+);
+
+/**
+ * @route POST /api/v1/users/:id/unlock
+ * @desc فك قفل تسجيل الدخول بعد المحاولات الفاشلة
+ * @access Private - owner only
+ * @param {string} id - معرف المستخدم (UUID)
+ */
+router.post(
+  '/:id/unlock',
+  checkRole(['owner']),
+  validationMiddlewareFactory(usersValidator.unlockUserSchema.params!, 'params'),
+  usersController.unlockUser
+);
+
+/**
+ * @route GET /api/v1/users/:id/security-events
+ * @desc سجل الأحداث الأمنية للمستخدم (تسجيلات الدخول الناجحة والفاشلة، تجديد التوكنات، تغييرات الأمان)
+ * @access Private - owner and admin with 'security_events:read' permission
+ * @param {string} id - معرف المستخدم (UUID)
+ * @query {string} [type] - أنواع الأحداث مفصولة بفاصلة (login_failed,password_changed)
+ * @query {boolean} [success] - تصفية حسب نجاح العملية
+ * @query {string} [provider] - طريقة المصادقة (password, google, passkey...)
+ * @query {string} [ip_address] - عنوان IP
+ * @query {string} [from] - من تاريخ (ISO)
+ * @query {string} [to] - إلى تاريخ (ISO)
+ * @query {number} [limit] - عدد النتائج (الحد الأقصى 200)
+ * @query {number} [offset] - عدد النتائج المتجاوزة
+ */
+router.get(
+  '/:id/security-events',
+  checkRole(['owner', 'admin'], ['security_events:read']),
+  validationMiddlewareFactory(usersValidator.getUserSecurityEventsSchema.params!, 'params'),
+  validationMiddlewareFactory(usersValidator.getUserSecurityEventsSchema.query!, 'query'),
+  usersController.getUserSecurityEvents
+);
+
 /**
  * @route DELETE /api/v1/users/:id
  * @desc حذف مستخدم
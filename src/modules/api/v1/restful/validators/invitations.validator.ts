@@ -0,0 +1,100 @@
+import Joi, { ObjectSchema } from 'joi';
+import { GRANTABLE_PERMISSIONS } from '../../../../auth/services/permissions.service.js';
+
+/**
+ * مخططات التحقق من صحة البيانات لدعوات التسجيل
+ * Validation schemas for registration invitations
+ */
+
+interface ValidationSchema {
+  params?: ObjectSchema;
+  body?: ObjectSchema;
+  query?: ObjectSchema;
+}
+
+/**
+ * مخطط التحقق من جلب الدعوات
+ * List invitations validation schema
+ */
+export const getInvitationsSchema: ValidationSchema = {
+  query: Joi.object({
+    status: Joi.string()
+      .valid('pending', 'accepted', 'revoked', 'expired')
+      .messages({
+        'any.only': 'حالة الدعوة يجب أن تكون pending أو accepted أو revoked أو expired'
+      }),
+    email: Joi.string()
+      .email()
+      .messages({
+        'string.base': 'البريد الإلكتروني يجب أن يكون نصاً',
+        'string.email': 'البريد الإلكتروني غير صالح'
+      }),
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(200)
+      .messages({
+        'number.base': 'الحد يجب أن يكون رقماً',
+        'number.min': 'الحد يجب أن يكون 1 على الأقل',
+        'number.max': 'الحد يجب أن لا يزيد عن 200'
+      }),
+    offset: Joi.number()
+      .integer()
+      .min(0)
+      .messages({
+        'number.base': 'الإزاحة يجب أن تكون رقماً',
+        'number.min': 'الإزاحة يجب أن تكون 0 أو أكثر'
+      })
+  })
+};
+
+/**
+ * مخطط التحقق من إنشاء دعوة
+ * Create invitation validation schema
+ */
+export const createInvitationSchema: ValidationSchema = {
+  body: Joi.object({
+    email: Joi.string()
+      .trim()
+      .email()
+      .required()
+      .messages({
+        'string.base': 'البريد الإلكتروني يجب أن يكون نصاً',
+        'string.email': 'البريد الإلكتروني غير صالح',
+        'any.required': 'البريد الإلكتروني مطلوب'
+      }),
+
+    permissions: Joi.array()
+      .items(Joi.string().trim().valid(...GRANTABLE_PERMISSIONS))
+      .allow(null)
+      .messages({
+        'array.base': 'الصلاحيات يجب أن تكون مصفوفة',
+        'string.base': 'كل صلاحية يجب أن تكون نصاً',
+        'any.only': `صلاحية غير معروفة، القيم المتاحة: ${GRANTABLE_PERMISSIONS.join(', ')}`
+      }),
+
+    expires_in: Joi.string()
+      .pattern(/^\d+(m|h|d)$/)
+      .messages({
+        'string.base': 'مدة الصلاحية يجب أن تكون نصاً',
+        'string.pattern.base': 'مدة الصلاحية يجب أن تكون مثل 30m أو 48h أو 7d'
+      })
+  })
+};
+
+/**
+ * مخطط التحقق من معرف الدعوة
+ * Invitation ID validation schema
+ */
+export const invitationIdSchema: ValidationSchema = {
+  params: Joi.object({
+    id: Joi.string()
+      .uuid()
+      .required()
+      .messages({
+        'string.base': 'معرف الدعوة يجب أن يكون نصاً',
+        'string.guid': 'معرف الدعوة يجب أن يكون UUID صالح',
+        'any.required': 'معرف الدعوة مطلوب'
+      })
+  })
+};
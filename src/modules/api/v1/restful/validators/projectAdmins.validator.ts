@@ -1,4 +1,5 @@
 import Joi, { ObjectSchema } from 'joi';
+import { GRANTABLE_PERMISSIONS } from '../../../../auth/services/permissions.service.js';
 
 /**
  * مخططات التحقق من صحة البيانات لإدارة مشرفي المشاريع
@@ -81,14 +82,21 @@ export const createProjectAdminSchema: ValidationSchema = {
         'any.required': 'معرف المستخدم مطلوب'
       }),
 
+    role_id: Joi.string()
+      .uuid()
+      .allow(null)
+      .messages({
+        'string.base': 'معرف الدور يجب أن يكون نصاً',
+        'string.guid': 'معرف الدور يجب أن يكون UUID صالح'
+      }),
+
     permissions: Joi.array()
-      .items(Joi.string().trim().min(1).max(100))
+      .items(Joi.string().trim().valid(...GRANTABLE_PERMISSIONS))
       .default([])
       .messages({
         'array.base': 'الصلاحيات يجب أن تكون مصفوفة',
         'string.base': 'كل صلاحية يجب أن تكون نصاً',
-        'string.min': 'الصلاحية يجب أن تكون على الأقل حرف واحد',
-        'string.max': 'الصلاحية يجب أن لا تزيد عن 100 حرف'
+        'any.only': `صلاحية غير معروفة، القيم المتاحة: ${GRANTABLE_PERMISSIONS.join(', ')}`
       })
   })
 };
@@ -109,13 +117,20 @@ export const updateProjectAdminSchema: ValidationSchema = {
       })
   }),
   body: Joi.object({
+    role_id: Joi.string()
+      .uuid()
+      .allow(null)
+      .messages({
+        'string.base': 'معرف الدور يجب أن يكون نصاً',
+        'string.guid': 'معرف الدور يجب أن يكون UUID صالح'
+      }),
+
     permissions: Joi.array()
-      .items(Joi.string().trim().min(1).max(100))
+      .items(Joi.string().trim().valid(...GRANTABLE_PERMISSIONS))
       .messages({
         'array.base': 'الصلاحيات يجب أن تكون مصفوفة',
         'string.base': 'كل صلاحية يجب أن تكون نصاً',
-        'string.min': 'الصلاحية يجب أن تكون على الأقل حرف واحد',
-        'string.max': 'الصلاحية يجب أن لا تزيد عن 100 حرف'
+        'any.only': `صلاحية غير معروفة، القيم المتاحة: ${GRANTABLE_PERMISSIONS.join(', ')}`
       })
   }).min(1).messages({
     'object.min': 'يجب توفير بيانات للتحديث'
@@ -123,10 +138,39 @@ export const updateProjectAdminSchema: ValidationSchema = {
 };
 
 /**
- * مخطط التحقق من إضافة/إزالة صلاحية
- * Add/Remove permission validation schema
+ * مخطط التحقق من إضافة صلاحية (من كتالوج الصلاحيات فقط)
+ * Add permission validation schema (catalog permissions only)
+ */
+export const addPermissionSchema: ValidationSchema = {
+  params: Joi.object({
+    id: Joi.string()
+      .uuid()
+      .required()
+      .messages({
+        'string.base': 'معرف مشرف المشروع يجب أن يكون نصاً',
+        'string.guid': 'معرف مشرف المشروع يجب أن يكون UUID صالح',
+        'any.required': 'معرف مشرف المشروع مطلوب'
+      })
+  }),
+  body: Joi.object({
+    permission: Joi.string()
+      .trim()
+      .valid(...GRANTABLE_PERMISSIONS)
+      .required()
+      .messages({
+        'string.base': 'يجب أن تكون الصلاحية نصاً',
+        'string.trim': 'الصلاحية لا يمكن أن تحتوي على أحرف إضافية',
+        'any.only': `صلاحية غير معروفة، القيم المتاحة: ${GRANTABLE_PERMISSIONS.join(', ')}`,
+        'any.required': 'الصلاحية مطلوبة'
+      })
+  })
+};
+
+/**
+ * مخطط التحقق من إزالة صلاحية (يقبل أي اسم لتنظيف الصلاحيات القديمة غير المعروفة)
+ * Remove permission validation schema (any name, so stale unknown grants can be cleaned up)
  */
-export const permissionActionSchema: ValidationSchema = {
+export const removePermissionSchema: ValidationSchema = {
   params: Joi.object({
     id: Joi.string()
       .uuid()
@@ -0,0 +1,93 @@
+import Joi, { ObjectSchema } from 'joi';
+import { GRANTABLE_PERMISSIONS } from '../../../../auth/services/permissions.service.js';
+
+/**
+ * مخططات التحقق من صحة البيانات لإدارة الأدوار المخصصة
+ * Validation schemas for custom roles management data
+ */
+
+interface ValidationSchema {
+  params?: ObjectSchema;
+  body?: ObjectSchema;
+  query?: ObjectSchema;
+}
+
+const idParam = Joi.string()
+  .uuid()
+  .required()
+  .messages({
+    'string.base': 'معرف الدور يجب أن يكون نصاً',
+    'string.guid': 'معرف الدور يجب أن يكون UUID صالح',
+    'any.required': 'معرف الدور مطلوب'
+  });
+
+const nameField = Joi.string()
+  .trim()
+  .min(1)
+  .max(50)
+  .messages({
+    'string.base': 'اسم الدور يجب أن يكون نصاً',
+    'string.min': 'اسم الدور مطلوب',
+    'string.max': 'اسم الدور يجب أن لا يزيد عن 50 حرف'
+  });
+
+const descriptionField = Joi.string()
+  .trim()
+  .max(500)
+  .allow('', null)
+  .messages({
+    'string.max': 'الوصف يجب أن لا يزيد عن 500 حرف'
+  });
+
+const permissionsField = Joi.array()
+  .items(Joi.string().trim().valid(...GRANTABLE_PERMISSIONS))
+  .messages({
+    'array.base': 'الصلاحيات يجب أن تكون مصفوفة',
+    'string.base': 'كل صلاحية يجب أن تكون نصاً',
+    'any.only': `صلاحية غير معروفة، القيم المتاحة: ${GRANTABLE_PERMISSIONS.join(', ')}`
+  });
+
+/**
+ * مخطط التحقق من معرف الدور
+ * Role ID validation schema
+ */
+export const roleIdSchema: ValidationSchema = {
+  params: Joi.object({
+    id: idParam
+  })
+};
+
+/**
+ * مخطط التحقق من إنشاء دور
+ * Create role validation schema
+ */
+export const createRoleSchema: ValidationSchema = {
+  body: Joi.object({
+    name: nameField.required().messages({
+      'any.required': 'اسم الدور مطلوب'
+    }),
+
+    description: descriptionField,
+
+    permissions: permissionsField.default([])
+  })
+};
+
+/**
+ * مخطط التحقق من تحديث دور
+ * Update role validation schema
+ */
+export const updateRoleSchema: ValidationSchema = {
+  params: Joi.object({
+    id: idParam
+  }),
+  body: Joi.object({
+    name: nameField,
+
+    description: descriptionField,
+
+    permissions: permissionsField
+  }).min(1).messages({
+    'object.min': 'يجب توفير بيانات للتحديث'
+  })
+};
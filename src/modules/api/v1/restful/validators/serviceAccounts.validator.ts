@@ -0,0 +1,151 @@
+import Joi, { ObjectSchema } from 'joi';
+import { GRANTABLE_PERMISSIONS } from '../../../../auth/services/permissions.service.js';
+
+/**
+ * مخططات التحقق من صحة البيانات لإدارة حسابات الخدمة
+ * Validation schemas for service accounts management data
+ */
+
+interface ValidationSchema {
+  params?: ObjectSchema;
+  body?: ObjectSchema;
+  query?: ObjectSchema;
+}
+
+const idParam = Joi.string()
+  .uuid()
+  .required()
+  .messages({
+    'string.base': 'معرف حساب الخدمة يجب أن يكون نصاً',
+    'string.guid': 'معرف حساب الخدمة يجب أن يكون UUID صالح',
+    'any.required': 'معرف حساب الخدمة مطلوب'
+  });
+
+const permissionsField = Joi.array()
+  .items(Joi.string().trim().valid(...GRANTABLE_PERMISSIONS))
+  .messages({
+    'array.base': 'الصلاحيات يجب أن تكون مصفوفة',
+    'string.base': 'كل صلاحية يجب أن تكون نصاً',
+    'any.only': `صلاحية غير معروفة، القيم المتاحة: ${GRANTABLE_PERMISSIONS.join(', ')}`
+  });
+
+const allowedIpsField = Joi.array()
+  .items(Joi.string().ip({ cidr: 'optional' }))
+  .messages({
+    'array.base': 'قائمة عناوين IP يجب أن تكون مصفوفة',
+    'string.ip': 'كل عنصر يجب أن يكون عنوان IP أو نطاق CIDR صالح',
+    'string.ipVersion': 'كل عنصر يجب أن يكون عنوان IP أو نطاق CIDR صالح'
+  });
+
+/**
+ * مخطط التحقق من معرف حساب الخدمة
+ * Service account ID validation schema
+ */
+export const serviceAccountIdSchema: ValidationSchema = {
+  params: Joi.object({
+    id: idParam
+  })
+};
+
+/**
+ * مخطط التحقق من إنشاء حساب خدمة جديد
+ * Create service account validation schema
+ */
+export const createServiceAccountSchema: ValidationSchema = {
+  body: Joi.object({
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'string.base': 'اسم حساب الخدمة يجب أن يكون نصاً',
+        'string.min': 'اسم حساب الخدمة مطلوب',
+        'string.max': 'اسم حساب الخدمة يجب أن لا يزيد عن 100 حرف',
+        'any.required': 'اسم حساب الخدمة مطلوب'
+      }),
+
+    description: Joi.string()
+      .trim()
+      .max(500)
+      .allow('', null)
+      .messages({
+        'string.max': 'الوصف يجب أن لا يزيد عن 500 حرف'
+      }),
+
+    permissions: permissionsField.default([]),
+
+    allowed_ips: allowedIpsField.default([])
+  })
+};
+
+/**
+ * مخطط التحقق من تحديث حساب الخدمة
+ * Update service account validation schema
+ */
+export const updateServiceAccountSchema: ValidationSchema = {
+  params: Joi.object({
+    id: idParam
+  }),
+  body: Joi.object({
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .messages({
+        'string.base': 'اسم حساب الخدمة يجب أن يكون نصاً',
+        'string.min': 'اسم حساب الخدمة لا يمكن أن يكون فارغاً',
+        'string.max': 'اسم حساب الخدمة يجب أن لا يزيد عن 100 حرف'
+      }),
+
+    description: Joi.string()
+      .trim()
+      .max(500)
+      .allow('', null)
+      .messages({
+        'string.max': 'الوصف يجب أن لا يزيد عن 500 حرف'
+      }),
+
+    permissions: permissionsField,
+
+    allowed_ips: allowedIpsField
+  }).min(1).messages({
+    'object.min': 'يجب توفير بيانات للتحديث'
+  })
+};
+
+/**
+ * مخطط التحقق من تدوير السر
+ * Rotate secret validation schema
+ */
+export const rotateSecretSchema: ValidationSchema = {
+  params: Joi.object({
+    id: idParam
+  }),
+  body: Joi.object({
+    grace_period: Joi.string()
+      .pattern(/^(0|\d+(ms|s|m|h|d))$/)
+      .messages({
+        'string.base': 'فترة السماح يجب أن تكون نصاً',
+        'string.pattern.base': 'فترة السماح يجب أن تكون مثل 0 أو 30m أو 24h'
+      })
+  })
+};
+
+/**
+ * مخطط التحقق من إلغاء سر
+ * Revoke secret validation schema
+ */
+export const revokeSecretSchema: ValidationSchema = {
+  params: Joi.object({
+    id: idParam,
+    secretId: Joi.string()
+      .uuid()
+      .required()
+      .messages({
+        'string.base': 'معرف السر يجب أن يكون نصاً',
+        'string.guid': 'معرف السر يجب أن يكون UUID صالح',
+        'any.required': 'معرف السر مطلوب'
+      })
+  })
+};
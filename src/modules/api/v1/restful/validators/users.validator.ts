@@ -1,4 +1,5 @@
 import Joi, { ObjectSchema } from 'joi';
+import { SecurityEventType } from '../../../../database/postgreSQL/services/index.js';
 
 /**
  * مخططات التحقق من صحة البيانات لإدارة المستخدمين
@@ -116,3 +117,89 @@ export const deleteUserSchema: ValidationSchema = {
       })
   })
 };
+
+/**
+ * مخطط التحقق من فك قفل تسجيل الدخول
+ * Unlock user login validation schema
+ */
+export const unlockUserSchema: ValidationSchema = {
+  params: Joi.object({
+    id: Joi.string()
+      .uuid()
+      .required()
+      .messages({
+        'string.base': 'معرف المستخدم يجب أن يكون نصاً',
+        'string.guid': 'معرف المستخدم يجب أن يكون UUID صالح',
+        'any.required': 'معرف المستخدم مطلوب'
+      })
+  })
+};
+
+/**
+ * مخطط التحقق من سجل الأحداث الأمنية للمستخدم
+ * User security events validation schema
+ */
+export const getUserSecurityEventsSchema: ValidationSchema = {
+  params: Joi.object({
+    id: Joi.string()
+      .uuid()
+      .required()
+      .messages({
+        'string.base': 'معرف المستخدم يجب أن يكون نصاً',
+        'string.guid': 'معرف المستخدم يجب أن يكون UUID صالح',
+        'any.required': 'معرف المستخدم مطلوب'
+      })
+  }),
+  query: Joi.object({
+    type: Joi.string()
+      .pattern(new RegExp(`^(${Object.values(SecurityEventType).join('|')})(,(${Object.values(SecurityEventType).join('|')}))*$`))
+      .messages({
+        'string.base': 'نوع الحدث يجب أن يكون نصاً',
+        'string.pattern.base': `نوع الحدث يجب أن يكون من: ${Object.values(SecurityEventType).join(', ')}`
+      }),
+    success: Joi.boolean()
+      .messages({
+        'boolean.base': 'قيمة النجاح يجب أن تكون true أو false'
+      }),
+    provider: Joi.string()
+      .max(50)
+      .messages({
+        'string.base': 'طريقة المصادقة يجب أن تكون نصاً',
+        'string.max': 'طريقة المصادقة يجب أن لا تزيد عن 50 حرف'
+      }),
+    ip_address: Joi.string()
+      .ip()
+      .messages({
+        'string.base': 'عنوان IP يجب أن يكون نصاً',
+        'string.ip': 'عنوان IP غير صالح'
+      }),
+    from: Joi.date()
+      .iso()
+      .messages({
+        'date.base': 'تاريخ البداية غير صالح',
+        'date.format': 'تاريخ البداية يجب أن يكون بصيغة ISO'
+      }),
+    to: Joi.date()
+      .iso()
+      .messages({
+        'date.base': 'تاريخ النهاية غير صالح',
+        'date.format': 'تاريخ النهاية يجب أن يكون بصيغة ISO'
+      }),
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(200)
+      .messages({
+        'number.base': 'الحد يجب أن يكون رقماً',
+        'number.min': 'الحد يجب أن يكون 1 على الأقل',
+        'number.max': 'الحد يجب أن لا يزيد عن 200'
+      }),
+    offset: Joi.number()
+      .integer()
+      .min(0)
+      .messages({
+        'number.base': 'الإزاحة يجب أن تكون رقماً',
+        'number.min': 'الإزاحة يجب أن تكون 0 أو أكثر'
+      })
+  })
+};
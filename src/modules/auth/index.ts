@@ -1,50 +1,166 @@
 import passport from 'passport';
 import { Strategy as CustomStrategy } from 'passport-custom';
 import { Request } from 'express';
-import { validateToken } from './services/auth.service.js';
-import { TokensService, ProjectAdminsService, UsersService } from '../database/postgreSQL/services/index.js';
-import { API_BOT_AUTHORIZATION } from '../../config/security.config.js';
+import { validateToken, extractBearerToken } from './services/auth.service.js';
+import { getAccessTokenCookie, getRefreshTokenCookie, refreshAuthCookies } from './services/authCookies.service.js';
+import { isTwoFactorRequiredForAdmins } from './services/twoFactor.service.js';
+import { isApiKey, authenticateApiKey, applyApiKeyScope } from './services/apiKeys.service.js';
+import { isServiceAccountSecret, authenticateServiceAccount, toServiceAccountUser } from './services/serviceAccounts.service.js';
+import { TokensService, ProjectAdminsService, UsersService, TwoFactorService } from '../database/postgreSQL/services/index.js';
 import { ownerIDs } from '../../config/owners.config.js';
+import { AUTH_IDENTITY_CACHE_TTL } from '../../config/security.config.js';
+import { IdentityCacheService } from '../cache/redis/index.js';
 
 export const baseAPI_URL = '/api/v1';
 
+// أقل فترة بين تحديثين لوقت آخر استخدام التوكن (5 دقائق)
+const LAST_USED_UPDATE_INTERVAL = 5 * 60 * 1000;
+
 export interface AuthenticatedUser {
     userID: string;
     email?: string;
     username?: string;
+    emailVerified?: boolean;
+    twoFactorSetupRequired?: boolean; // مشرف يجب عليه تفعيل المصادقة الثنائية قبل استخدام صلاحياته
     isSystemClient: boolean;
+    credentialType?: 'access_token' | 'api_key' | 'service_account'; // نوع بيانات الاعتماد المستخدمة في الطلب
+    apiKeyId?: string; // معرف مفتاح API (عند المصادقة بمفتاح)
+    impersonatedBy?: string; // معرف المالك الذي يتصفح بحساب هذا المستخدم (انتحال الهوية)
     role: 'owner' | 'admin' | 'user' | 'guest';
     permissions: Record<string, boolean> | string[];
 }
 
+/**
+ * تحديد دور وصلاحيات المستخدم (owner, admin, user)
+ * @param userID - معرف المستخدم
+ */
+async function resolveAuthenticatedUser(userID: string): Promise<AuthenticatedUser> {
+    // جلب بيانات المستخدم من قاعدة البيانات
+    let userEmail: string | undefined;
+    let userName: string | undefined;
+    let emailVerified = false;
+    
+    try {
+        const [userData, userError] = await UsersService.getById(userID);
+        if (!userError && userData) {
+            userEmail = (userData as any).email;
+            userName = (userData as any).display_name || (userData as any).username;
+            emailVerified = Boolean((userData as any).email_verified);
+        }
+    } catch (e) {
+        console.log('⚠️ Could not fetch user data:', e);
+    }
+    
+    // التحقق إذا كان owner
+    if (ownerIDs.includes(userID)) {
+        return {
+            userID: userID,
+            email: userEmail,
+            username: userName,
+            emailVerified,
+            isSystemClient: false,
+            role: 'owner',
+            permissions: {}
+        } as AuthenticatedUser;
+    }
+
+    // التحقق إذا كان admin
+    const [adminData, adminError] = await ProjectAdminsService.getByUserId(userID);
+    if (adminError) {
+        console.log('❌ Error fetching admin:', adminError);
+    }
+
+    if (adminData) {
+        const [adminPermissions, permissionsError] = await ProjectAdminsService.getEffectivePermissions(adminData);
+        if (permissionsError) {
+            console.log('❌ Error fetching admin role permissions:', permissionsError);
+        }
+
+        // المالك يفرض المصادقة الثنائية على المشرفين: بدونها يُعامل كمستخدم عادي حتى يفعّلها
+        if (await isTwoFactorRequiredForAdmins()) {
+            const [twoFactorEnabled] = await TwoFactorService.isEnabled(userID);
+            if (!twoFactorEnabled) {
+                console.log('⚠️ Admin without two-factor authentication, admin permissions suspended');
+                return {
+                    userID: userID,
+                    email: userEmail,
+                    username: userName,
+                    emailVerified,
+                    twoFactorSetupRequired: true,
+                    isSystemClient: false,
+                    role: 'user',
+                    permissions: {}
+                } as AuthenticatedUser;
+            }
+        }
+
+        return {
+            userID: userID,
+            email: userEmail,
+            username: userName,
+            emailVerified,
+            isSystemClient: false,
+            role: 'admin',
+            permissions: adminPermissions || adminData.permissions || []
+        } as AuthenticatedUser;
+    }
+
+    // إرجاع بيانات المستخدم العادي
+    return {
+        userID: userID,
+        email: userEmail,
+        username: userName,
+        emailVerified,
+        isSystemClient: false,
+        role: 'user',
+        permissions: {}
+    } as AuthenticatedUser;
+}
+
 // استراتيجية المصادقة المخصصة
 passport.use('request_auth', new CustomStrategy(async (req: Request, done) => {
     try {
         console.log('🔍 Auth Strategy called');
         console.log('🔍🔍🔍🔍🔍 Owner IDs:', ownerIDs);
         
-        // استخراج التوكن من الهيدر
-        const authHeader = req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            console.log('❌ No valid Authorization header found');
+        // استخراج التوكن من الهيدر، أو من كوكي الـ access في وضع الكوكيز
+        const bearerToken = extractBearerToken(req);
+        let token = bearerToken || getAccessTokenCookie(req);
+
+        // وضع الكوكيز: تجديد صامت من كوكي الـ refresh إذا انتهى توكن الـ access أو غاب
+        if (!bearerToken && (!token || !validateToken(token)) && getRefreshTokenCookie(req)) {
+            token = await refreshAuthCookies(req, req.res!);
+        }
+
+        if (!token) {
+            console.log('❌ No valid Authorization header or auth cookie found');
             return done(null, false);
         }
 
-        const token = authHeader.replace('Bearer ', '');
         console.log('🔑 Token received:', token.substring(0, 20) + '...');
         
-        // التحقق من توكن الـ API الداخلي
-        if (token === API_BOT_AUTHORIZATION) {
-            return done(null, {
-                userID: 'system',
-                isSystemClient: true,
-                role: 'owner',
-                permissions: {
-                    administrator: true,
-                }
-            } as AuthenticatedUser);
+        // التحقق من حسابات الخدمة (البوت والخدمات الداخلية) بصلاحياتها الممنوحة فقط
+        if (bearerToken && isServiceAccountSecret(token)) {
+            const [account, accountError] = await authenticateServiceAccount(token, req.ip);
+            if (accountError || !account) {
+                console.log('❌ Invalid service account secret:', accountError?.message);
+                return done(null, false);
+            }
+
+            return done(null, toServiceAccountUser(account));
         }
-        
+
+        // التحقق من مفتاح API الشخصي (بصلاحيات لا تتجاوز صلاحيات صاحبه)
+        if (bearerToken && isApiKey(token)) {
+            const [apiKey, apiKeyError] = await authenticateApiKey(token, req.ip);
+            if (apiKeyError || !apiKey) {
+                console.log('❌ Invalid API key');
+                return done(null, false);
+            }
+
+            return done(null, applyApiKeyScope(await resolveAuthenticatedUser(apiKey.user_id), apiKey));
+        }
+
         // التحقق من التوكن
         const decoded = validateToken(token);
         if (!decoded) {
@@ -52,6 +168,25 @@ passport.use('request_auth', new CustomStrategy(async (req: Request, done) => {
             return done(null, false);
         }
 
+        // الهوية المخزنة مؤقتاً لهذا التوكن: بدون استعلامات قاعدة البيانات
+        // (تُحذف عند إلغاء التوكن وتُبطل عند تغيير صلاحيات المستخدم أو حذفه)
+        const identityCacheEnabled = AUTH_IDENTITY_CACHE_TTL > 0;
+        if (identityCacheEnabled) {
+            const cached = await IdentityCacheService.get<AuthenticatedUser>(token).catch(() => null);
+            if (cached && cached.userId === decoded.userID) {
+                if (Date.now() - cached.lastUsedAt > LAST_USED_UPDATE_INTERVAL) {
+                    TokensService.touch(cached.tokenId);
+                    IdentityCacheService.touch(token, cached, AUTH_IDENTITY_CACHE_TTL);
+                }
+                return done(null, cached.identity);
+            }
+        }
+
+        // الجيل يُقرأ قبل الاستعلامات حتى لا تُخزن هوية قديمة إذا أُبطلت أثناء الطلب
+        const generation = identityCacheEnabled
+            ? await IdentityCacheService.getGeneration(decoded.userID).catch(() => null)
+            : null;
+
         // التحقق من وجود التوكن في قاعدة البيانات
         const [tokenResult, tokenError] = await TokensService.getByToken(token);
         if (tokenError) {
@@ -59,7 +194,7 @@ passport.use('request_auth', new CustomStrategy(async (req: Request, done) => {
             return done(null, false);
         }
         if (!tokenResult || (tokenResult as any)?.type !== 'access' || !tokenResult) {
-            console.log('❌ Token not found or not an access token');
+            console.log('❌ Token not found, revoked or not an access token');
             return done(null, false);
         }
 
@@ -71,59 +206,32 @@ passport.use('request_auth', new CustomStrategy(async (req: Request, done) => {
             return done(null, false);
         }
 
-        // جلب بيانات المستخدم من قاعدة البيانات
-        let userEmail: string | undefined;
-        let userName: string | undefined;
-        
-        try {
-            const [userData, userError] = await UsersService.getById(userID);
-            if (!userError && userData) {
-                userEmail = (userData as any).email;
-                userName = (userData as any).display_name || (userData as any).username;
-            }
-        } catch (e) {
-            console.log('⚠️ Could not fetch user data:', e);
-        }
-        
-        // التحقق إذا كان owner
-        if (ownerIDs.includes(userID)) {
-            return done(null, {
-                userID: userID,
-                email: userEmail,
-                username: userName,
-                isSystemClient: false,
-                role: 'owner',
-                permissions: {}
-            } as AuthenticatedUser);
+        // التحقق من أن التوكن يخص نفس المستخدم
+        if (tokenResult.user_id && tokenResult.user_id !== userID) {
+            console.log('❌ Token does not belong to the user in its payload');
+            return done(null, false);
         }
 
-        // التحقق إذا كان admin
-        const [adminData, adminError] = await ProjectAdminsService.getByUserId(userID);
-        if (adminError) {
-            console.log('❌ Error fetching admin:', adminError);
+        // تحديث وقت آخر استخدام للجلسة (بدون انتظار، ومرة واحدة كل فترة لتقليل الكتابة)
+        let lastUsedAt = tokenResult.last_used_at ? new Date(tokenResult.last_used_at).getTime() : 0;
+        if (Date.now() - lastUsedAt > LAST_USED_UPDATE_INTERVAL) {
+            TokensService.touch(tokenResult.id!);
+            lastUsedAt = Date.now();
         }
 
-        if (adminData) {
-            return done(null, {
-                userID: userID,
-                email: userEmail,
-                username: userName,
-                isSystemClient: false,
-                role: 'admin',
-                permissions: (adminData as any).permissions || []
-            } as AuthenticatedUser);
+        // توكن انتحال الهوية: صلاحيات المستخدم المستهدف نفسها مع معرف المالك للتدقيق ومنع العمليات الحساسة
+        const identity = {
+            ...await resolveAuthenticatedUser(userID),
+            credentialType: 'access_token',
+            ...(decoded.impersonatedBy && { impersonatedBy: decoded.impersonatedBy })
+        } as AuthenticatedUser;
+
+        if (identityCacheEnabled) {
+            IdentityCacheService.set(token, { identity, userId: userID, tokenId: tokenResult.id!, lastUsedAt, generation }, AUTH_IDENTITY_CACHE_TTL)
+                .catch(error => console.error('⚠️ Failed to cache token identity:', (error as Error).message));
         }
 
-        // إرجاع بيانات المستخدم العادي
-        return done(null, {
-            userID: userID,
-            email: userEmail,
-            username: userName,
-            isSystemClient: false,
-            role: 'user',
-            permissions: {}
-        } as AuthenticatedUser);
-        
+        return done(null, identity);
     } catch (error) {
         console.error('🚫 Auth Strategy error:', (error as Error).message);
         return done(error as Error, false);
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import passport from '../index.js';
+import { hasAuthCookies } from '../services/authCookies.service.js';
 import { AuthenticatedUser, AuthenticatedRequest } from './role.middleware.js';
 
 // Middleware للتحقق من المصادقة وإضافة المستخدم للـ req
@@ -10,9 +11,9 @@ export const authenticateUser = (
 ): void => {
     console.log('🔐 optional authenticate middleware called for:', req.method, req.originalUrl);
     
-    // إذا لم يوجد Authorization header، يعتبر المستخدم guest ويستمر
-    if (!req.headers.authorization) {
-        console.log('👤 No Authorization header - treating as guest');
+    // إذا لم يوجد Authorization header أو كوكيز مصادقة، يعتبر المستخدم guest ويستمر
+    if (!req.headers.authorization && !hasAuthCookies(req)) {
+        console.log('👤 No Authorization header or auth cookie - treating as guest');
         req.user = {
             userID: 'guest',
             isSystemClient: false,
@@ -0,0 +1,90 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { AuthenticatedRequest } from './role.middleware.js';
+import SubscriptionsService from '../../database/postgreSQL/services/subscriptions.service.js';
+import { evaluatePolicy, getPolicy } from '../services/policies.service.js';
+import type { PolicyAction, PolicyResource } from '../services/policies.service.js';
+import { registerGuardedPermissions } from '../services/permissions.service.js';
+import type { Permission } from '../services/permissions.service.js';
+
+/**
+ * تحميل المورد من الطلب لفحص ملكيته
+ * Loads the requested resource (its owner) from the request
+ */
+export type ResourceLoader = (req: AuthenticatedRequest) => Promise<PolicyResource | null> | PolicyResource | null;
+
+const DENIED_RESPONSES = {
+    NOT_AUTHENTICATED: { code: status.UNAUTHORIZED, message: 'Authentication required' },
+    ACCESS_DENIED: { code: status.FORBIDDEN, message: 'Access denied. You can only access your own resources' },
+    SUBSCRIPTION_REQUIRED: { code: status.FORBIDDEN, message: 'Active subscription required' }
+} as const;
+
+/**
+ * Middleware to authorize an action with its policy: role and permissions first, then resource ownership, then subscription
+ *
+ * @example
+ * // admins with users:read reach any user, a user reaches only their own profile
+ * router.get('/:id', authorize('users:read', ownerFromParam('id')), controller);
+ *
+ * @param action - Policy action (POLICIES in policies.service.ts)
+ * @param resourceLoader - Loads the resource owner, only called when ownership decides the access
+ * @returns Express RequestHandler
+ */
+export const authorize = (action: PolicyAction, resourceLoader?: ResourceLoader): RequestHandler => {
+    const policy = getPolicy(action);
+
+    const handler = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const decision = await evaluatePolicy(
+                req.user,
+                policy,
+                resourceLoader && (async () => resourceLoader(req))
+            );
+
+            if ('reason' in decision) {
+                const denied = DENIED_RESPONSES[decision.reason];
+                res.status(denied.code).json({
+                    success: false,
+                    message: denied.message,
+                    error: decision.reason
+                });
+                return;
+            }
+
+            next();
+        } catch (error) {
+            console.error('Policy middleware error:', error);
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                success: false,
+                message: 'Error verifying access',
+                error: 'AUTHORIZATION_CHECK_FAILED'
+            });
+        }
+    };
+
+    // لعرض المسارات المحمية في كتالوج الصلاحيات
+    registerGuardedPermissions(handler, (policy.permissions || []) as Permission[]);
+    return handler;
+};
+
+/**
+ * المورد يخص المستخدم الذي معرفه في معامل المسار (/users/:id)
+ * @param param - اسم المعامل
+ */
+export const ownerFromParam = (param: string): ResourceLoader => {
+    return (req) => ({ ownerId: (req.params[param] as string) || null });
+};
+
+/**
+ * صاحب الاشتراك الذي معرفه في معامل المسار (/subscriptions/:id)
+ * @param param - اسم المعامل
+ */
+export const subscriptionOwnerFromParam = (param: string): ResourceLoader => {
+    return async (req) => {
+        const [subscription, error] = await SubscriptionsService.getById(req.params[param] as string);
+        if (error) {
+            throw error;
+        }
+        return subscription ? { ownerId: subscription.user_id } : null;
+    };
+};
@@ -1,11 +1,18 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import status from '../../../config/status.config.js';
+import { hasAllPermissions, normalizePermission, registerGuardedPermissions } from '../services/permissions.service.js';
+import type { Permission, LegacyPermission } from '../services/permissions.service.js';
 
 export interface AuthenticatedUser {
     userID: string;
     email?: string;
     username?: string;
+    emailVerified?: boolean;
+    twoFactorSetupRequired?: boolean; // مشرف يجب عليه تفعيل المصادقة الثنائية قبل استخدام صلاحياته
     isSystemClient: boolean;
+    credentialType?: 'access_token' | 'api_key' | 'service_account'; // نوع بيانات الاعتماد المستخدمة في الطلب
+    apiKeyId?: string; // معرف مفتاح API (عند المصادقة بمفتاح)
+    impersonatedBy?: string; // معرف المالك الذي يتصفح بحساب هذا المستخدم (انتحال الهوية)
     role: 'owner' | 'admin' | 'user' | 'guest';
     permissions: string[] | Record<string, boolean>;
 }
@@ -14,28 +21,38 @@ export interface AuthenticatedRequest extends Request {
     user?: AuthenticatedUser;
 }
 
-type UserRole = 'owner' | 'admin' | 'user' | 'guest';
+export type UserRole = 'owner' | 'admin' | 'user' | 'guest';
+
+/**
+ * Check a role against a list of allowed roles (Hierarchy support: Owner > Admin > User > Guest)
+ * @param userRole - Role of the current user
+ * @param roles - Allowed roles
+ * @returns true if the role or a higher one is allowed
+ */
+export const isRoleAllowed = (userRole: UserRole, roles: UserRole[]): boolean => {
+    return roles.includes(userRole) || 
+        (userRole === 'owner' && (roles.includes('admin') || roles.includes('user') || roles.includes('guest'))) ||
+        (userRole === 'admin' && (roles.includes('user') || roles.includes('guest'))) ||
+        (userRole === 'user' && roles.includes('guest'));
+};
 
 /**
  * Middleware to check user roles and permissions
  * @param roles - Array of allowed roles ['owner', 'admin', 'user']
- * @param adminPermissions - Array of required admin permissions
+ * @param adminPermissions - Array of required admin permissions (from the permission catalog; legacy flat names are aliased)
  * @returns Express RequestHandler
  */
 export const checkRole = (
     roles: UserRole[] = [], 
-    adminPermissions: string[] = []
+    adminPermissions: (Permission | LegacyPermission)[] = []
 ): RequestHandler => {
-    return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const requiredPermissions = adminPermissions.map(normalizePermission) as Permission[];
+
+    const handler = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
         const userRole = req.user?.role || 'guest';
 
         // Check if user has required role (Hierarchy support: Owner > Admin > User > Guest)
-        const isAuthorized = roles.includes(userRole) || 
-                            (userRole === 'owner' && (roles.includes('admin') || roles.includes('user') || roles.includes('guest'))) ||
-                            (userRole === 'admin' && (roles.includes('user') || roles.includes('guest'))) ||
-                            (userRole === 'user' && roles.includes('guest'));
-
-        if (!isAuthorized) {
+        if (!isRoleAllowed(userRole, roles)) {
             res.status(status.FORBIDDEN).json({
                 success: false,
                 message: `Access denied. Required role: ${roles.join(', ')}`,
@@ -54,8 +71,8 @@ export const checkRole = (
         if (roles.includes('admin') && userRole === 'admin' && adminPermissions.length > 0) {
             const permissions = Array.isArray(req.user?.permissions) ? req.user.permissions : [];
             
-            const hasAllPermissions = adminPermissions.every(perm => permissions.includes(perm));
-            if (!hasAllPermissions) {
+            // wildcards (*, cars:*) and implied actions (cars:write => cars:read) are honoured
+            if (!hasAllPermissions(permissions, requiredPermissions)) {
                 res.status(status.FORBIDDEN).json({
                     success: false,
                     message: `Access denied. Missing permissions: ${adminPermissions.join(', ')}`,
@@ -66,4 +83,80 @@ export const checkRole = (
         }
         next();
     };
+
+    // لعرض المسارات المحمية في كتالوج الصلاحيات
+    registerGuardedPermissions(handler, requiredPermissions);
+    return handler;
+};
+
+/**
+ * Middleware to block routes until the user's email address is verified
+ * Owners and system clients are always exempt
+ * @param applyToRoles - Roles that must have a verified email (default: ['user', 'admin'])
+ * @returns Express RequestHandler
+ */
+export const requireVerifiedEmail = (
+    applyToRoles: UserRole[] = ['user', 'admin']
+): RequestHandler => {
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+        const user = req.user;
+        const userRole = user?.role || 'guest';
+
+        if (userRole === 'owner' || user?.isSystemClient || !applyToRoles.includes(userRole)) {
+            next();
+            return;
+        }
+
+        if (!user?.emailVerified) {
+            res.status(status.FORBIDDEN).json({
+                success: false,
+                message: 'Access denied. Please verify your email address first',
+                error: 'EMAIL_NOT_VERIFIED'
+            });
+            return;
+        }
+
+        next();
+    };
+};
+
+/**
+ * Middleware to require a signed-in user session for credential and session management
+ * (passkeys, 2FA, sessions, linked identities, password, API keys): API keys and system clients
+ * cannot add credentials or revoke sessions, otherwise a leaked key could take over the account
+ * @returns Express RequestHandler
+ */
+export const requireInteractiveSession = (): RequestHandler => {
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+        if (req.user?.isSystemClient || req.user?.credentialType === 'api_key') {
+            res.status(status.FORBIDDEN).json({
+                success: false,
+                message: 'Access denied. This action requires signing in to your account',
+                error: 'INTERACTIVE_SESSION_REQUIRED'
+            });
+            return;
+        }
+
+        next();
+    };
+};
+
+/**
+ * Middleware to block sensitive actions while an owner is impersonating the user
+ * (credentials, sessions, billing...) so support can look but not change the account
+ * @returns Express RequestHandler
+ */
+export const denyWhileImpersonating = (): RequestHandler => {
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+        if (req.user?.impersonatedBy) {
+            res.status(status.FORBIDDEN).json({
+                success: false,
+                message: 'Access denied. This action is not allowed while impersonating a user',
+                error: 'IMPERSONATION_NOT_ALLOWED'
+            });
+            return;
+        }
+
+        next();
+    };
 };
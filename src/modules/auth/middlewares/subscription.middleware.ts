@@ -116,7 +116,7 @@ export const checkSubscription = (applyToRoles: UserRole[] = ['user'], plans: st
 /**
  * التحقق من الاشتراك من قاعدة البيانات المحلية
  */
-async function verifySubscriptionFromDatabase(userId: string, allowedPlans: string[]): Promise<boolean> {
+export async function verifySubscriptionFromDatabase(userId: string, allowedPlans: string[]): Promise<boolean> {
     try {
         const [subscriptions, error] = await SubscriptionsService.getByUserId(userId);
 
@@ -0,0 +1,83 @@
+import { DISCORD_AUTH_ENABLED, DISCORD_CLIENT_ID, DISCORD_CLIENT_SECRET, DISCORD_REDIRECT_URI } from '../../../config/integratedAuth.config.js';
+import { AuthProvider } from '../../database/postgreSQL/services/index.js';
+import type { IdentityRegistrationData } from '../../database/postgreSQL/services/index.js';
+import { OAuthProvider, OAuthCredentials } from './oauthProvider.js';
+
+interface DiscordProfile {
+    id: string;
+    username: string;
+    global_name?: string | null;
+    avatar?: string | null;
+    email?: string | null;
+    verified?: boolean;
+}
+
+const DISCORD_API_URL = 'https://discord.com/api/v10';
+
+/**
+ * مزود Discord - يستبدل authorization code بتوكن ثم يجلب بيانات المستخدم
+ * الصلاحيات المطلوبة: identify email
+ */
+class DiscordProvider extends OAuthProvider<DiscordProfile> {
+    readonly name = AuthProvider.DISCORD;
+    readonly displayName = 'Discord';
+    readonly flow = 'code' as const;
+
+    isEnabled(): boolean {
+        return Boolean(DISCORD_AUTH_ENABLED && DISCORD_CLIENT_ID && DISCORD_CLIENT_SECRET);
+    }
+
+    getAuthorizationUrl(state: string): string {
+        const params = new URLSearchParams({
+            client_id: DISCORD_CLIENT_ID,
+            redirect_uri: DISCORD_REDIRECT_URI,
+            response_type: 'code',
+            scope: 'identify email',
+            state
+        });
+        return `https://discord.com/oauth2/authorize?${params.toString()}`;
+    }
+
+    protected async fetchProfile({ code }: OAuthCredentials): Promise<DiscordProfile> {
+        if (!code) {
+            throw new Error('authorization code مطلوب');
+        }
+
+        const tokenResponse = await fetch(`${DISCORD_API_URL}/oauth2/token`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                client_id: DISCORD_CLIENT_ID,
+                client_secret: DISCORD_CLIENT_SECRET,
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: DISCORD_REDIRECT_URI
+            })
+        });
+        const tokenData = await tokenResponse.json() as { access_token?: string; error_description?: string };
+        if (!tokenResponse.ok || !tokenData.access_token) {
+            throw new Error(tokenData.error_description || 'الكود غير صالح أو منتهي الصلاحية');
+        }
+
+        const userResponse = await fetch(`${DISCORD_API_URL}/users/@me`, {
+            headers: { 'Authorization': `Bearer ${tokenData.access_token}` }
+        });
+        if (!userResponse.ok) {
+            throw new Error('فشل في جلب بيانات المستخدم');
+        }
+
+        return await userResponse.json() as DiscordProfile;
+    }
+
+    protected mapProfile(profile: DiscordProfile): IdentityRegistrationData {
+        return {
+            provider_user_id: profile.id,
+            email: profile.email || '',
+            email_verified: profile.verified === true,
+            display_name: profile.global_name || profile.username,
+            avatar_url: profile.avatar ? `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.png` : undefined
+        };
+    }
+}
+
+export default new DiscordProvider();
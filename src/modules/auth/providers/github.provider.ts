@@ -0,0 +1,95 @@
+import { GITHUB_AUTH_ENABLED, GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, GITHUB_REDIRECT_URI } from '../../../config/integratedAuth.config.js';
+import { AuthProvider } from '../../database/postgreSQL/services/index.js';
+import type { IdentityRegistrationData } from '../../database/postgreSQL/services/index.js';
+import { OAuthProvider, OAuthCredentials } from './oauthProvider.js';
+
+interface GitHubProfile {
+    id: number;
+    login: string;
+    name?: string | null;
+    avatar_url?: string;
+    email?: string | null;
+    emails: { email: string; primary: boolean; verified: boolean }[];
+}
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * مزود GitHub - يستبدل authorization code بتوكن ثم يجلب الملف الشخصي والبريد المؤكد
+ * الصلاحيات المطلوبة: read:user user:email
+ */
+class GitHubProvider extends OAuthProvider<GitHubProfile> {
+    readonly name = AuthProvider.GITHUB;
+    readonly displayName = 'GitHub';
+    readonly flow = 'code' as const;
+
+    isEnabled(): boolean {
+        return Boolean(GITHUB_AUTH_ENABLED && GITHUB_CLIENT_ID && GITHUB_CLIENT_SECRET);
+    }
+
+    getAuthorizationUrl(state: string): string {
+        const params = new URLSearchParams({
+            client_id: GITHUB_CLIENT_ID,
+            redirect_uri: GITHUB_REDIRECT_URI,
+            scope: 'read:user user:email',
+            state
+        });
+        return `https://github.com/login/oauth/authorize?${params.toString()}`;
+    }
+
+    protected async fetchProfile({ code }: OAuthCredentials): Promise<GitHubProfile> {
+        if (!code) {
+            throw new Error('authorization code مطلوب');
+        }
+
+        const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+            method: 'POST',
+            headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                client_id: GITHUB_CLIENT_ID,
+                client_secret: GITHUB_CLIENT_SECRET,
+                code,
+                redirect_uri: GITHUB_REDIRECT_URI
+            })
+        });
+        const tokenData = await tokenResponse.json() as { access_token?: string; error_description?: string };
+        if (!tokenResponse.ok || !tokenData.access_token) {
+            throw new Error(tokenData.error_description || 'الكود غير صالح أو منتهي الصلاحية');
+        }
+
+        const headers = {
+            'Accept': 'application/vnd.github+json',
+            'Authorization': `Bearer ${tokenData.access_token}`,
+            'User-Agent': 'global-hound-backend'
+        };
+        const [userResponse, emailsResponse] = await Promise.all([
+            fetch(`${GITHUB_API_URL}/user`, { headers }),
+            fetch(`${GITHUB_API_URL}/user/emails`, { headers })
+        ]);
+        if (!userResponse.ok) {
+            throw new Error('فشل في جلب بيانات المستخدم');
+        }
+
+        const user = await userResponse.json() as Omit<GitHubProfile, 'emails'>;
+        const emails = emailsResponse.ok ? await emailsResponse.json() as GitHubProfile['emails'] : [];
+        return { ...user, emails };
+    }
+
+    protected mapProfile(profile: GitHubProfile): IdentityRegistrationData {
+        // البريد الأساسي المؤكد أولاً، ثم أي بريد مؤكد
+        const primary = profile.emails.find(e => e.primary && e.verified) || profile.emails.find(e => e.verified);
+        const [first_name, ...rest] = (profile.name || '').split(' ');
+
+        return {
+            provider_user_id: String(profile.id),
+            email: primary?.email || profile.email || '',
+            email_verified: Boolean(primary),
+            first_name: first_name || undefined,
+            last_name: rest.join(' ') || undefined,
+            display_name: profile.name || profile.login,
+            avatar_url: profile.avatar_url
+        };
+    }
+}
+
+export default new GitHubProvider();
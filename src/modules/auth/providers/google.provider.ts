@@ -0,0 +1,56 @@
+import { OAuth2Client, TokenPayload as GoogleTokenPayload } from 'google-auth-library';
+import { GOOGLE_AUTH_ENABLED, GOOGLE_CLIENT_ID } from '../../../config/integratedAuth.config.js';
+import { AuthProvider } from '../../database/postgreSQL/services/index.js';
+import type { IdentityRegistrationData } from '../../database/postgreSQL/services/index.js';
+import { OAuthProvider, OAuthCredentials } from './oauthProvider.js';
+
+/**
+ * مزود Google - يتحقق من id_token الصادر من Google Identity Services
+ */
+class GoogleProvider extends OAuthProvider<GoogleTokenPayload> {
+    readonly name = AuthProvider.GOOGLE;
+    readonly displayName = 'Google';
+    readonly flow = 'id_token' as const;
+
+    private client = new OAuth2Client(GOOGLE_CLIENT_ID);
+
+    isEnabled(): boolean {
+        return Boolean(GOOGLE_AUTH_ENABLED && GOOGLE_CLIENT_ID);
+    }
+
+    protected async fetchProfile({ credential }: OAuthCredentials): Promise<GoogleTokenPayload> {
+        if (!credential) {
+            throw new Error('التوكن من Google مطلوب');
+        }
+
+        let payload: GoogleTokenPayload | undefined;
+        try {
+            const ticket = await this.client.verifyIdToken({
+                idToken: credential,
+                audience: GOOGLE_CLIENT_ID
+            });
+            payload = ticket.getPayload();
+        } catch (verifyError) {
+            throw new Error('توكن Google غير صالح أو منتهي الصلاحية');
+        }
+
+        if (!payload) {
+            throw new Error('فشل في استخراج بيانات المستخدم من التوكن');
+        }
+        return payload;
+    }
+
+    protected mapProfile(payload: GoogleTokenPayload): IdentityRegistrationData {
+        return {
+            provider_user_id: payload.sub,
+            email: payload.email!,
+            email_verified: payload.email_verified === true,
+            first_name: payload.given_name,
+            last_name: payload.family_name,
+            display_name: payload.name,
+            avatar_url: payload.picture
+        };
+    }
+}
+
+export default new GoogleProvider();
@@ -0,0 +1,30 @@
+import googleProvider from './google.provider.js';
+import githubProvider from './github.provider.js';
+import discordProvider from './discord.provider.js';
+import { OAuthProvider } from './oauthProvider.js';
+
+/**
+ * سجل مزودي تسجيل الدخول الخارجي
+ * لإضافة مزود جديد: أنشئ صنفاً يرث OAuthProvider وأضفه هنا
+ */
+const providers: OAuthProvider[] = [googleProvider, githubProvider, discordProvider];
+
+/**
+ * الحصول على مزود مفعل بالاسم
+ * @param name - اسم المزود (google, github, discord)
+ * @returns المزود أو null إذا لم يكن موجوداً أو مفعلاً
+ */
+export function getOAuthProvider(name: string): OAuthProvider | null {
+    const provider = providers.find(p => p.name === name);
+    return provider && provider.isEnabled() ? provider : null;
+}
+
+/**
+ * قائمة المزودين المفعلين
+ */
+export function getEnabledOAuthProviders(): OAuthProvider[] {
+    return providers.filter(p => p.isEnabled());
+}
+
+export { OAuthProvider };
+export type { OAuthCredentials, OAuthFlow } from './oauthProvider.js';
@@ -0,0 +1,88 @@
+import { UsersService, AuthProvider } from '../../database/postgreSQL/services/index.js';
+import type { UserData, IdentityRegistrationData } from '../../database/postgreSQL/services/index.js';
+
+/**
+ * الواجهة الأساسية لمزودي تسجيل الدخول الخارجي (OAuth / OpenID Connect)
+ * كل مزود مسؤول عن: التحقق من التوكن/الكود، تحويل بيانات المستخدم، وإنشاء/ربط الحساب
+ */
+
+export interface OAuthCredentials {
+    credential?: string; // id_token (Google)
+    code?: string;       // authorization code (GitHub, Discord)
+}
+
+export type OAuthFlow = 'id_token' | 'code';
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+export abstract class OAuthProvider<TRawProfile = unknown> {
+    abstract readonly name: AuthProvider;
+    abstract readonly displayName: string;
+    abstract readonly flow: OAuthFlow;
+
+    /**
+     * هل المزود مفعل في الإعدادات؟
+     */
+    abstract isEnabled(): boolean;
+
+    /**
+     * التحقق من التوكن أو الكود لدى المزود وجلب بيانات المستخدم الخام
+     * @param credentials - id_token أو authorization code
+     */
+    protected abstract fetchProfile(credentials: OAuthCredentials): Promise<TRawProfile>;
+
+    /**
+     * تحويل بيانات المزود إلى بيانات التسجيل الموحدة
+     * @param raw - بيانات المستخدم من المزود
+     */
+    protected abstract mapProfile(raw: TRawProfile): IdentityRegistrationData;
+
+    /**
+     * رابط صفحة الموافقة لدى المزود (لمزودي authorization code فقط)
+     * @param state - قيمة عشوائية من الواجهة الأمامية للحماية من CSRF
+     */
+    getAuthorizationUrl(state: string): string | null {
+        return null;
+    }
+
+    /**
+     * التحقق من بيانات الدخول وإرجاع الهوية الموحدة
+     * @param credentials - id_token أو authorization code
+     * @returns [profile, error]
+     */
+    async verify(credentials: OAuthCredentials): ServiceResult<IdentityRegistrationData> {
+        try {
+            const raw = await this.fetchProfile(credentials || {});
+            const profile = this.mapProfile(raw);
+            if (!profile.provider_user_id || !profile.email) {
+                return [null, new Error(`بيانات المستخدم من ${this.displayName} غير مكتملة (البريد الإلكتروني مطلوب)`)];
+            }
+            return [profile, null];
+        } catch (error) {
+            return [null, new Error(`فشل التحقق عبر ${this.displayName}: ${(error as Error).message}`)];
+        }
+    }
+
+    /**
+     * هل يوجد حساب لهذه الهوية أو لنفس البريد؟ (إن لم يوجد فتسجيل الدخول سينشئ حساباً جديداً)
+     * @param profile - الهوية الموحدة
+     */
+    async hasAccount(profile: IdentityRegistrationData): Promise<boolean> {
+        const [identityUser] = await UsersService.getByIdentity(this.name, profile.provider_user_id);
+        if (identityUser) {
+            return true;
+        }
+
+        const [emailUser] = await UsersService.getByEmail(profile.email);
+        return Boolean(emailUser);
+    }
+
+    /**
+     * إنشاء الحساب أو تسجيل الدخول أو الربط التلقائي بحساب بنفس البريد المؤكد
+     * @param profile - الهوية الموحدة
+     * @returns [{ user, isNewUser }, error]
+     */
+    async upsertAccount(profile: IdentityRegistrationData): ServiceResult<{ user: UserData; isNewUser: boolean }> {
+        return UsersService.registerOrLoginIdentity(this.name, profile);
+    }
+}
@@ -0,0 +1,147 @@
+import express, { Response, Router } from 'express';
+import status from '../../../config/status.config.js';
+import { ApiKeysService } from '../../database/postgreSQL/services/index.js';
+import { createApiKey, toPublicApiKey } from '../services/apiKeys.service.js';
+import { getUncoveredPermissions, getUnknownPermissions } from '../services/permissions.service.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireVerifiedEmail, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface CreateApiKeyRequestBody {
+    name: string;
+    permissions?: string[];
+    expiresAt?: string; // ISO 8601 (اختياري)
+}
+
+const router: Router = express.Router();
+
+// ===================== عرض المفاتيح =====================
+
+router.get('/api-keys', authenticateJwt, checkRole(['user']), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const [keys, error] = await ApiKeysService.getByUserId(req.user!.userID);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم جلب مفاتيح API بنجاح',
+            apiKeys: (keys || []).map(toPublicApiKey)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إنشاء مفتاح =====================
+
+router.post('/api-keys', authenticateJwt, checkRole(['user']), requireVerifiedEmail(), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { name, permissions = [], expiresAt } = req.body as CreateApiKeyRequestBody;
+        const user = req.user!;
+
+        if (!name || typeof name !== 'string' || name.trim().length > 100) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'اسم المفتاح مطلوب (100 حرف كحد أقصى)'
+            });
+            return;
+        }
+
+        if (!Array.isArray(permissions) || permissions.some(p => typeof p !== 'string' || !p)) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'الصلاحيات يجب أن تكون قائمة نصوص'
+            });
+            return;
+        }
+
+        const unknownPermissions = getUnknownPermissions(permissions);
+        if (unknownPermissions.length > 0) {
+            res.status(status.BAD_REQUEST).json({
+                error: `صلاحيات غير معروفة: ${unknownPermissions.join(', ')}`
+            });
+            return;
+        }
+
+        // لا يمكن منح المفتاح صلاحيات لا يملكها صاحبه
+        if (user.role !== 'owner') {
+            const ownPermissions = user.role === 'admin' && Array.isArray(user.permissions) ? user.permissions : [];
+            const notGranted = getUncoveredPermissions(ownPermissions, permissions);
+            if (notGranted.length > 0) {
+                res.status(status.FORBIDDEN).json({
+                    error: `لا تملك هذه الصلاحيات: ${notGranted.join(', ')}`
+                });
+                return;
+            }
+        }
+
+        let expiresAtDate: Date | null = null;
+        if (expiresAt) {
+            expiresAtDate = new Date(expiresAt);
+            if (isNaN(expiresAtDate.getTime()) || expiresAtDate <= new Date()) {
+                res.status(status.BAD_REQUEST).json({
+                    error: 'تاريخ انتهاء الصلاحية يجب أن يكون تاريخاً صالحاً في المستقبل'
+                });
+                return;
+            }
+        }
+
+        const [created, createError] = await createApiKey(user.userID, {
+            name: name.trim(),
+            permissions,
+            expiresAt: expiresAtDate
+        });
+        if (createError || !created) {
+            res.status(status.BAD_REQUEST).json({
+                error: createError?.message || 'فشل في إنشاء مفتاح API'
+            });
+            return;
+        }
+
+        res.status(status.CREATED).json({
+            message: 'تم إنشاء مفتاح API بنجاح، احفظه الآن لأنه لن يظهر مرة أخرى',
+            key: created.key,
+            apiKey: toPublicApiKey(created.apiKey)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إلغاء مفتاح =====================
+
+router.delete('/api-keys/:id', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const [deleted, error] = await ApiKeysService.delete(req.params.id as string, req.user!.userID);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        if (!deleted) {
+            res.status(status.NOT_FOUND).json({
+                error: 'مفتاح API غير موجود'
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إلغاء مفتاح API بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
@@ -1,19 +1,32 @@
 import express, { Request, Response, NextFunction, Router } from 'express';
-import { authRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { authRateLimiter, loginRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
 import status from '../../../config/status.config.js';
-import { generateToken, validateToken, TokenPayload } from '../services/auth.service.js';
-import { TokensService, TokenType, UsersService, AuthProvider, ProjectAdminsService, SubscriptionsService, SubscriptionStatus } from '../../database/postgreSQL/services/index.js';
+import { validateToken, issueTokens, getRequestMetadata, revokeTokenFamily, rotateRefreshToken, TokenPayload, IssuedTokens } from '../services/auth.service.js';
+import { deliverTokens, extractAccessToken, getRefreshTokenCookie, clearAuthCookies } from '../services/authCookies.service.js';
+import { TokensService, TokenType, UsersService, ProjectAdminsService, SubscriptionsService, SubscriptionStatus, SecurityEventType } from '../../database/postgreSQL/services/index.js';
 import { stripeCustomerService, stripeSubscriptionsService } from '../../stripe/index.js';
-import { JWT_EXPIRES_IN, JWT_REFRESH_EXPIRES_IN } from '../../../config/security.config.js';
-import { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET } from '../../../config/integratedAuth.config.js';
 import { hashPassword, comparePassword } from '../../../utils/hash.util.js';
-import { OAuth2Client, LoginTicket } from 'google-auth-library';
 import { ownerIDs } from '../../../config/owners.config.js';
-import ms from 'ms';
-
-// ===================== Google OAuth2 Client =====================
-
-const googleClient = new OAuth2Client(GOOGLE_CLIENT_ID);
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+import passwordRoutes from './password.route.js';
+import magicLinkRoutes from './magicLink.route.js';
+import emailVerificationRoutes from './emailVerification.route.js';
+import sessionsRoutes from './sessions.route.js';
+import twoFactorRoutes from './twoFactor.route.js';
+import webauthnRoutes from './webauthn.route.js';
+import identitiesRoutes from './identities.route.js';
+import oauthRoutes from './oauth.route.js';
+import apiKeysRoutes from './apiKeys.route.js';
+import impersonationRoutes from './impersonation.route.js';
+import securityEventsRoutes from './securityEvents.route.js';
+import { startEmailVerification, sendAccountLockedEmail } from '../services/authEmail.service.js';
+import { checkLoginAllowed, recordLoginFailure, clearLoginFailures, getLockoutStatus } from '../services/loginThrottle.service.js';
+import { startLogin } from '../services/twoFactor.service.js';
+import { endImpersonation } from '../services/impersonation.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import { checkRegistrationAllowed, acceptInvitation, isRegistrationPending } from '../services/registration.service.js';
+import { validatePassword, getPasswordPolicyLanguage, toPasswordPolicyError } from '../services/passwordPolicy.service.js';
 
 // ===================== Interfaces =====================
 
@@ -23,6 +36,7 @@ interface RegisterRequestBody {
     first_name?: string;
     last_name?: string;
     display_name?: string;
+    inviteToken?: string;
 }
 
 interface LoginWithEmailRequestBody {
@@ -30,10 +44,6 @@ interface LoginWithEmailRequestBody {
     password: string;
 }
 
-interface GoogleAuthRequestBody {
-    credential: string; // id_token من Google
-}
-
 interface RefreshTokenRequestBody {
     refreshToken: string;
 }
@@ -48,7 +58,7 @@ const router: Router = express.Router();
 
 router.post('/register', /* authRateLimiter, */ async (req: Request<{}, {}, RegisterRequestBody>, res: Response): Promise<void> => {
     try {
-        const { email, password, first_name, last_name, display_name } = req.body;
+        const { email, password, first_name, last_name, display_name, inviteToken } = req.body;
 
         // التحقق من البيانات المطلوبة
         if (!email || !password) {
@@ -58,13 +68,22 @@ router.post('/register', /* authRateLimiter, */ async (req: Request<{}, {}, Regi
             return;
         }
 
-        // التحقق من طول كلمة المرور
-        if (password.length < 6) {
-            res.status(status.BAD_REQUEST).json({
-                error: 'كلمة المرور يجب أن تكون 6 أحرف على الأقل'
+        // التحقق من سياسة كلمات المرور
+        const policy = validatePassword(password, { email, first_name, last_name, display_name }, getPasswordPolicyLanguage(req));
+        if (!policy.valid) {
+            res.status(status.BAD_REQUEST).json(toPasswordPolicyError(policy));
+            return;
+        }
+
+        // وضع التسجيل (مفتوح / بدعوة فقط / نطاقات محددة)
+        const [registration, registrationError] = await checkRegistrationAllowed(email, { inviteToken, allowPendingVerification: true });
+        if (registrationError || !registration) {
+            res.status(status.FORBIDDEN).json({
+                error: registrationError?.message || 'التسجيل غير متاح'
             });
             return;
         }
+        const { invitation } = registration;
 
         // تشفير كلمة المرور
         const password_hash = await hashPassword(password);
@@ -85,31 +104,56 @@ router.post('/register', /* authRateLimiter, */ async (req: Request<{}, {}, Regi
             return;
         }
 
-        // توليد التوكنات
-        const token = generateToken({ userID: user!.id! }, false);
-        const refreshToken = generateToken({ userID: user!.id! }, true);
+        // قبول الدعوة: منح صلاحياتها، والبريد مؤكد لأن التوكن وصل إليه
+        if (invitation) {
+            const [accepted, acceptError] = await acceptInvitation(invitation, user!.id!);
+            if (acceptError) {
+                console.error('❌ Failed to accept invitation:', acceptError.message);
+            }
+            if (accepted) {
+                await UsersService.verifyEmail(user!.id!);
+                user!.email_verified = true;
+            }
+        }
 
-        // حفظ التوكنات في قاعدة البيانات
-        await TokensService.create({
-            token,
-            type: TokenType.ACCESS,
-            refresh_token: refreshToken,
-            expires_at: new Date(Date.now() + ms(JWT_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
+        // حساب معلق (نطاق مسموح بدون إثبات ملكية البريد): لا توكنات قبل الضغط على رابط التأكيد
+        if (registration.verificationRequired) {
+            const [verificationSent, verificationError] = await startEmailVerification(user!.id!, user!.email);
+            if (verificationError) {
+                console.error('❌ Failed to send verification email:', verificationError.message);
+            }
 
-        await TokensService.create({
-            token: refreshToken,
-            type: TokenType.REFRESH,
-            expires_at: new Date(Date.now() + ms(JWT_REFRESH_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
+            res.status(status.CREATED).json({
+                message: 'تم إنشاء الحساب، يرجى تأكيد بريدك الإلكتروني لتفعيله',
+                verificationRequired: true,
+                verificationEmailSent: verificationSent,
+                user
+            });
+            return;
+        }
+
+        // توليد التوكنات وحفظها في قاعدة البيانات
+        const [tokens, tokensError] = await issueTokens(user!.id!, getRequestMetadata(req));
+        if (tokensError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: tokensError.message
+            });
+            return;
+        }
+
+        // إرسال رابط تفعيل البريد الإلكتروني (فشل الإرسال لا يمنع التسجيل)
+        const [verificationSent, verificationError] = user!.email_verified
+            ? [false, null]
+            : await startEmailVerification(user!.id!, user!.email);
+        if (verificationError) {
+            console.error('❌ Failed to send verification email:', verificationError.message);
+        }
 
         res.status(status.CREATED).json({
             message: 'تم التسجيل بنجاح',
+            verificationEmailSent: verificationSent,
             user,
-            token,
-            refreshToken
+            ...deliverTokens(req, res, tokens!)
         });
     } catch (error) {
         res.status(status.INTERNAL_SERVER_ERROR).json({
@@ -120,7 +164,7 @@ router.post('/register', /* authRateLimiter, */ async (req: Request<{}, {}, Regi
 
 // ===================== تسجيل الدخول (إيميل + كلمة مرور) =====================
 
-router.post('/login/email', /* authRateLimiter, */ async (req: Request<{}, {}, LoginWithEmailRequestBody>, res: Response): Promise<void> => {
+router.post('/login/email', loginRateLimiter, async (req: Request<{}, {}, LoginWithEmailRequestBody>, res: Response): Promise<void> => {
     try {
         const { email, password } = req.body;
 
@@ -131,20 +175,58 @@ router.post('/login/email', /* authRateLimiter, */ async (req: Request<{}, {}, L
             return;
         }
 
+        // التأخير المتزايد أو القفل المؤقت بعد المحاولات الفاشلة
+        const throttle = await checkLoginAllowed(email, req.ip);
+        if (!throttle.allowed) {
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                success: false,
+                provider: 'password',
+                email,
+                details: { reason: throttle.locked ? 'account_locked' : 'throttled' },
+                ...getRequestMetadata(req)
+            });
+            res.set('Retry-After', String(throttle.retryAfter));
+            res.status(status.TOO_MANY_REQUESTS).json({
+                error: throttle.locked
+                    ? 'تم قفل تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة، يرجى المحاولة لاحقاً'
+                    : 'محاولات فاشلة متكررة، يرجى الانتظار قبل المحاولة مرة أخرى',
+                retryAfter: throttle.retryAfter
+            });
+            return;
+        }
+
         // البحث عن المستخدم
         const [user, error] = await UsersService.getByEmail(email, true);
 
         if (error || !user) {
+            // نسجل المحاولة حتى للبريد غير الموجود حتى لا يختلف السلوك (منع كشف الحسابات)
+            await recordLoginFailure(email, req.ip);
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                success: false,
+                provider: 'password',
+                email,
+                details: { reason: 'unknown_account' },
+                ...getRequestMetadata(req)
+            });
             res.status(status.UNAUTHORIZED).json({
                 error: 'البريد الإلكتروني أو كلمة المرور غير صحيحة'
             });
             return;
         }
 
-        // التحقق من أن المستخدم مسجل محلياً
-        if (user.auth_provider !== AuthProvider.LOCAL) {
+        // حساب بدون كلمة مرور (مرتبط بمزود خارجي فقط): نفس رد كلمة المرور الخاطئة ويُحتسب في الحماية من التخمين
+        if (!user.password_hash) {
+            await recordLoginFailure(email, req.ip);
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                userID: user.id,
+                success: false,
+                provider: 'password',
+                email,
+                details: { reason: 'no_password' },
+                ...getRequestMetadata(req)
+            });
             res.status(status.UNAUTHORIZED).json({
-                error: 'هذا الحساب مسجل عبر Google، يرجى استخدام تسجيل الدخول عبر Google'
+                error: 'البريد الإلكتروني أو كلمة المرور غير صحيحة'
             });
             return;
         }
@@ -153,150 +235,72 @@ router.post('/login/email', /* authRateLimiter, */ async (req: Request<{}, {}, L
         const isPasswordValid = await comparePassword(password, user.password_hash!);
 
         if (!isPasswordValid) {
-            res.status(status.UNAUTHORIZED).json({
-                error: 'البريد الإلكتروني أو كلمة المرور غير صحيحة'
+            const failure = await recordLoginFailure(email, req.ip);
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                userID: user.id,
+                success: false,
+                provider: 'password',
+                email,
+                details: { reason: 'invalid_password', failures: failure.failures, locked: failure.justLocked },
+                ...getRequestMetadata(req)
             });
-            return;
-        }
-
-        // توليد التوكنات
-        const token = generateToken({ userID: user.id! }, false);
-        const refreshToken = generateToken({ userID: user.id! }, true);
-
-        // حفظ التوكنات
-        await TokensService.create({
-            token,
-            type: TokenType.ACCESS,
-            refresh_token: refreshToken,
-            expires_at: new Date(Date.now() + ms(JWT_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
-
-        await TokensService.create({
-            token: refreshToken,
-            type: TokenType.REFRESH,
-            expires_at: new Date(Date.now() + ms(JWT_REFRESH_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
-
-        // إزالة كلمة المرور من الرد
-        const { password_hash, ...userWithoutPassword } = user;
-
-        res.json({
-            message: 'تم تسجيل الدخول بنجاح',
-            user: userWithoutPassword,
-            token,
-            refreshToken
-        });
-    } catch (error) {
-        res.status(status.INTERNAL_SERVER_ERROR).json({
-            error: (error as Error).message
-        });
-    }
-});
-
-// ===================== تسجيل الدخول عبر Google OAuth2 =====================
-
-router.post('/google', /* authRateLimiter, */ async (req: Request<{}, {}, GoogleAuthRequestBody>, res: Response): Promise<void> => {
-    try {
-        const { credential } = req.body;
+            if (failure.justLocked) {
+                // تنبيه صاحب الحساب مرة واحدة عند القفل (بدون انتظار)
+                const { lockedUntil } = await getLockoutStatus(email);
+                sendAccountLockedEmail(user.email, failure.failures, lockedUntil, req.ip).catch((emailError: Error) => {
+                    console.error('❌ Failed to send account locked email:', emailError.message);
+                });
+            }
 
-        if (!credential) {
-            res.status(status.BAD_REQUEST).json({
-                error: 'التوكن من Google مطلوب'
+            res.status(status.UNAUTHORIZED).json({
+                error: 'البريد الإلكتروني أو كلمة المرور غير صحيحة'
             });
             return;
         }
 
-        // التحقق من GOOGLE_CLIENT_ID
-        if (!GOOGLE_CLIENT_ID) {
-            res.status(status.INTERNAL_SERVER_ERROR).json({
-                error: 'خطأ في إعدادات الخادم: GOOGLE_CLIENT_ID غير موجود'
-            });
-            return;
-        }
+        await clearLoginFailures(email);
 
-        // التحقق من صحة التوكن مع Google
-        let ticket: LoginTicket;
-        try {
-            ticket = await googleClient.verifyIdToken({
-                idToken: credential,
-                audience: GOOGLE_CLIENT_ID
-            });
-        } catch (verifyError) {
-            res.status(status.UNAUTHORIZED).json({
-                error: 'توكن Google غير صالح أو منتهي الصلاحية'
+        // حساب معلق حتى تأكيد البريد (domain_restricted): إعادة إرسال رابط التأكيد بدون انتظار
+        if (isRegistrationPending(user)) {
+            startEmailVerification(user.id!, user.email).then(([, verificationError]) => {
+                if (verificationError) {
+                    console.error('❌ Failed to send verification email:', verificationError.message);
+                }
             });
-            return;
-        }
-
-        const payload = ticket.getPayload();
-        if (!payload) {
-            res.status(status.UNAUTHORIZED).json({
-                error: 'فشل في استخراج بيانات المستخدم من التوكن'
+            res.status(status.FORBIDDEN).json({
+                error: 'يرجى تأكيد بريدك الإلكتروني أولاً، تم إرسال رابط التأكيد',
+                verificationRequired: true
             });
             return;
         }
 
-        // استخراج بيانات المستخدم من التوكن المُتحقق منه
-        const { email, sub: google_id, given_name: first_name, family_name: last_name, name: display_name, picture: avatar_url } = payload;
-
-        if (!email || !google_id) {
-            res.status(status.UNAUTHORIZED).json({
-                error: 'بيانات المستخدم غير مكتملة في التوكن'
+        // توليد التوكنات، أو توكن تحدٍ إذا كانت المصادقة الثنائية مفعلة
+        const [login, loginError] = await startLogin(user.id!, req, 'password');
+        if (loginError || !login) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: loginError?.message || 'فشل في تسجيل الدخول'
             });
             return;
         }
 
-        // تسجيل أو تسجيل الدخول عبر Google
-        const [result, error] = await UsersService.registerOrLoginGoogle({
-            email,
-            google_id,
-            first_name,
-            last_name,
-            display_name,
-            avatar_url
-        });
-
-        if (error || !result) {
-            res.status(status.BAD_REQUEST).json({
-                error: error?.message || 'فشل في التسجيل عبر Google'
+        if (login.twoFactorRequired) {
+            res.json({
+                message: 'يرجى إدخال رمز المصادقة الثنائية',
+                twoFactorRequired: true,
+                challengeToken: login.challengeToken,
+                expiresIn: login.expiresIn
             });
             return;
         }
 
-        const { user, isNewUser } = result;
-        console.log('Google auth - User object:', user);
-        console.log('Google auth - User ID:', user.id);
-        console.log('Google auth - Is new user:', isNewUser);
-
-        // توليد التوكنات
-        const token = generateToken({ userID: user.id! }, false);
-        const refreshToken = generateToken({ userID: user.id! }, true);
-        console.log('Generated token for userID:', user.id);
-
-        // حفظ التوكنات
-        await TokensService.create({
-            token,
-            type: TokenType.ACCESS,
-            refresh_token: refreshToken,
-            expires_at: new Date(Date.now() + ms(JWT_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
-
-        await TokensService.create({
-            token: refreshToken,
-            type: TokenType.REFRESH,
-            expires_at: new Date(Date.now() + ms(JWT_REFRESH_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
+        // إزالة كلمة المرور من الرد
+        const { password_hash, ...userWithoutPassword } = user;
 
-        res.status(isNewUser ? status.CREATED : status.OK).json({
-            message: isNewUser ? 'تم التسجيل بنجاح عبر Google' : 'تم تسجيل الدخول بنجاح عبر Google',
-            user,
-            token,
-            refreshToken,
-            isNewUser
+        res.json({
+            message: 'تم تسجيل الدخول بنجاح',
+            user: userWithoutPassword,
+            twoFactorRequired: false,
+            ...deliverTokens(req, res, login as IssuedTokens)
         });
     } catch (error) {
         res.status(status.INTERNAL_SERVER_ERROR).json({
@@ -309,7 +313,8 @@ router.post('/google', /* authRateLimiter, */ async (req: Request<{}, {}, Google
 
 router.post('/refresh-token', /* authRateLimiter, */ async (req: Request<{}, {}, RefreshTokenRequestBody>, res: Response, next: NextFunction): Promise<void> => {
     try {
-        const { refreshToken } = req.body;
+        // في وضع الكوكيز يُقرأ الـ refresh token من الكوكي
+        const refreshToken = req.body?.refreshToken || getRefreshTokenCookie(req);
 
         if (!refreshToken) {
             res.status(status.BAD_REQUEST).json({
@@ -318,48 +323,18 @@ router.post('/refresh-token', /* authRateLimiter, */ async (req: Request<{}, {},
             return;
         }
 
-        const [tokenResult, tokenError] = await TokensService.getByToken(refreshToken);
-        if (tokenError) {
-            res.status(status.INTERNAL_SERVER_ERROR).json({
-                error: (tokenError as Error).message
-            });
-            return;
-        }
-        if (!tokenResult || tokenResult.type !== TokenType.REFRESH) {
-            res.status(status.UNAUTHORIZED).json({
-                error: 'Invalid refresh token'
-            });
-            return;
-        }
-
-        const decoded = validateToken(refreshToken);
-        if (!decoded) {
+        const [tokens, rotateError] = await rotateRefreshToken(refreshToken, getRequestMetadata(req));
+        if (rotateError || !tokens) {
+            clearAuthCookies(res);
             res.status(status.UNAUTHORIZED).json({
-                error: 'Invalid refresh token'
-            });
-            return;
-        }
-
-        const newToken = generateToken({ userID: decoded.userID }, false);
-
-        const [newTokenResult, newTokenError] = await TokensService.create({
-            token: newToken,
-            type: TokenType.ACCESS,
-            refresh_token: refreshToken,
-            expires_at: new Date(Date.now() + ms(JWT_EXPIRES_IN as ms.StringValue)),
-            used: false
-        });
-        
-        if (newTokenError) {
-            res.status(status.INTERNAL_SERVER_ERROR).json({
-                error: (newTokenError as Error).message
+                error: rotateError?.message || 'Invalid refresh token'
             });
             return;
         }
 
         res.json({
             message: 'Refresh token successful',
-            token: newToken
+            ...deliverTokens(req, res, tokens)
         });
 
     } catch (error) {
@@ -390,6 +365,15 @@ router.get('/validate', /* authRateLimiter, */ async (req: Request<{}, {}, {}, V
             return;
         }
 
+        // التحقق من أن التوكن لم يتم إلغاؤه (تسجيل الخروج)
+        const [tokenResult] = await TokensService.getByToken(token);
+        if (!tokenResult || tokenResult.type !== TokenType.ACCESS) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'Token has been revoked'
+            });
+            return;
+        }
+
         // تحديد الدور والصلاحيات
         let role: 'owner' | 'admin' | 'user' = 'user';
         let permissions: string[] = [];
@@ -402,7 +386,9 @@ router.get('/validate', /* authRateLimiter, */ async (req: Request<{}, {}, {}, V
             const [adminData] = await ProjectAdminsService.getByUserId(decoded.userID);
             if (adminData) {
                 role = 'admin';
-                permissions = (adminData as any).permissions || [];
+                // صلاحيات الدور المخصص + الصلاحيات المباشرة
+                const [adminPermissions] = await ProjectAdminsService.getEffectivePermissions(adminData);
+                permissions = adminPermissions || [];
             }
         }
 
@@ -562,17 +548,15 @@ router.get('/validate', /* authRateLimiter, */ async (req: Request<{}, {}, {}, V
 
 router.get('/me', /* authRateLimiter, */ async (req: Request, res: Response): Promise<void> => {
     try {
-        const authHeader = req.headers.authorization;
-        console.log('Auth Header:', authHeader);
-        
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        const token = extractAccessToken(req);
+
+        if (!token) {
             res.status(status.UNAUTHORIZED).json({
                 error: 'التوكن مطلوب'
             });
             return;
         }
 
-        const token = authHeader.split(' ')[1];
         const decoded = validateToken(token);
         console.log('Decoded token:', decoded);
 
@@ -583,6 +567,15 @@ router.get('/me', /* authRateLimiter, */ async (req: Request, res: Response): Pr
             return;
         }
 
+        // التحقق من أن التوكن لم يتم إلغاؤه (تسجيل الخروج)
+        const [tokenResult] = await TokensService.getByToken(token);
+        if (!tokenResult || tokenResult.type !== TokenType.ACCESS) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'توكن غير صالح'
+            });
+            return;
+        }
+
         console.log('Fetching user with ID:', decoded.userID);
         const [user, error] = await UsersService.getById(decoded.userID);
         console.log('User result:', user);
@@ -606,4 +599,126 @@ router.get('/me', /* authRateLimiter, */ async (req: Request, res: Response): Pr
     }
 });
 
+// ===================== تسجيل الخروج =====================
+
+router.post('/logout', authenticateJwt, checkRole(['user']), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const token = extractAccessToken(req);
+        if (!token || req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا توجد جلسة لتسجيل الخروج منها'
+            });
+            return;
+        }
+
+        const [tokenResult, tokenError] = await TokensService.getByToken(token);
+        if (tokenError || !tokenResult || tokenResult.type !== TokenType.ACCESS) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'توكن غير صالح'
+            });
+            return;
+        }
+
+        // تسجيل الخروج من جلسة انتحال الهوية ينهيها في سجل التدقيق أيضاً
+        // إلغاء الجلسة الحالية: توكن الـ refresh وجميع توكنات الـ access التابعة لنفس العائلة
+        const [, deleteError] = req.user!.impersonatedBy && tokenResult.family_id
+            ? await endImpersonation(tokenResult.family_id)
+            : await revokeTokenFamily(tokenResult);
+
+        if (deleteError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: deleteError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.TOKENS_REVOKED, {
+            userID: req.user!.userID,
+            details: { reason: 'logout', sessionId: tokenResult.family_id || null, ...(req.user!.impersonatedBy && { impersonatedBy: req.user!.impersonatedBy }) },
+            ...getRequestMetadata(req)
+        });
+
+        clearAuthCookies(res);
+        res.json({
+            message: 'تم تسجيل الخروج بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تسجيل الخروج من جميع الأجهزة =====================
+
+router.post('/logout-all', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا توجد جلسة لتسجيل الخروج منها'
+            });
+            return;
+        }
+
+        const [revokedCount, deleteError] = await TokensService.deleteByUserId(req.user!.userID);
+        if (deleteError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: deleteError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.TOKENS_REVOKED, {
+            userID: req.user!.userID,
+            details: { reason: 'logout_all', revokedTokens: revokedCount || 0 },
+            ...getRequestMetadata(req)
+        });
+
+        clearAuthCookies(res);
+        res.json({
+            message: 'تم تسجيل الخروج من جميع الأجهزة بنجاح',
+            revokedTokens: revokedCount
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== المسارات الفرعية =====================
+
+// إعادة تعيين كلمة المرور
+router.use(passwordRoutes);
+
+// تسجيل الدخول برابط عبر البريد (بدون كلمة مرور)
+router.use(magicLinkRoutes);
+
+// تفعيل البريد الإلكتروني
+router.use(emailVerificationRoutes);
+
+// جلسات المستخدم (الأجهزة)
+router.use(sessionsRoutes);
+
+// المصادقة الثنائية (TOTP)
+router.use(twoFactorRoutes);
+
+// مفاتيح المرور (WebAuthn / Passkeys)
+router.use(webauthnRoutes);
+
+// تسجيل الدخول عبر مزودين خارجيين (Google, GitHub, Discord)
+router.use(oauthRoutes);
+
+// ربط وإلغاء ربط طرق تسجيل الدخول (المزودون الخارجيون + كلمة المرور)
+router.use(identitiesRoutes);
+
+// مفاتيح API الشخصية
+router.use(apiKeysRoutes);
+
+// دخول المالك بحساب مستخدم (انتحال الهوية) وسجل التدقيق
+router.use(impersonationRoutes);
+
+// سجل الأحداث الأمنية (تسجيلات الدخول وتغييرات الأمان)
+router.use(securityEventsRoutes);
+
 export default router;
@@ -0,0 +1,111 @@
+import express, { Request, Response, Router, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { createRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { consumeOneTimeToken } from '../services/auth.service.js';
+import { startEmailVerification } from '../services/authEmail.service.js';
+import { TokenType, UsersService } from '../../database/postgreSQL/services/index.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface VerifyEmailRequestBody {
+    token: string;
+}
+
+// ===================== Rate Limiters =====================
+
+// 3 رسائل تفعيل كحد أقصى لكل مستخدم كل ساعة
+const resendVerificationLimiter: RequestHandler = createRateLimiter({
+    windowMs: 60 * 60 * 1000, // ساعة
+    max: 3,
+    message: 'Too many verification emails requested, please try again later.',
+    keyGenerator: (req: Request): string => `verify_email:${(req as AuthenticatedRequest).user?.userID || req.ip || 'unknown'}`
+});
+
+const router: Router = express.Router();
+
+// ===================== تأكيد البريد الإلكتروني =====================
+
+router.post('/email/verify', async (req: Request<{}, {}, VerifyEmailRequestBody>, res: Response): Promise<void> => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'التوكن مطلوب'
+            });
+            return;
+        }
+
+        const [verifyToken, tokenError] = await consumeOneTimeToken(token, TokenType.VERIFY_EMAIL);
+        if (tokenError || !verifyToken) {
+            res.status(status.BAD_REQUEST).json({
+                error: tokenError?.message || 'الرابط غير صالح أو منتهي الصلاحية'
+            });
+            return;
+        }
+
+        const [, verifyError] = await UsersService.verifyEmail(verifyToken.user_id!);
+        if (verifyError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: verifyError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم تفعيل البريد الإلكتروني بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إعادة إرسال رابط التفعيل =====================
+
+router.post('/email/resend', authenticateJwt, checkRole(['user']), resendVerificationLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا يوجد بريد إلكتروني للتفعيل'
+            });
+            return;
+        }
+
+        const [user, userError] = await UsersService.getById(req.user!.userID);
+        if (userError || !user) {
+            res.status(status.NOT_FOUND).json({
+                error: 'المستخدم غير موجود'
+            });
+            return;
+        }
+
+        if (user.email_verified) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'البريد الإلكتروني مُفعّل بالفعل'
+            });
+            return;
+        }
+
+        const [, sendError] = await startEmailVerification(user.id!, user.email);
+        if (sendError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: sendError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إرسال رابط التفعيل إلى بريدك الإلكتروني'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
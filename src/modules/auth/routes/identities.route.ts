@@ -0,0 +1,291 @@
+import express, { Request, Response, Router, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { createRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { UsersService, AuthProvider, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import { hashPassword } from '../../../utils/hash.util.js';
+import { getOAuthProvider } from '../providers/index.js';
+import { validatePassword, getPasswordPolicyLanguage, toPasswordPolicyError } from '../services/passwordPolicy.service.js';
+import { getRequestMetadata } from '../services/auth.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import {
+    getLoginMethods,
+    countPrimaryLoginMethods,
+    verifyReauthentication,
+    ReauthenticationData,
+    REAUTHENTICATION_FAILED_MESSAGE
+} from '../services/identities.service.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface LinkProviderRequestBody extends ReauthenticationData {
+    credential?: string; // id_token للحساب المراد ربطه (Google)
+    code?: string;       // authorization code للحساب المراد ربطه (GitHub, Discord)
+}
+
+interface SetPasswordRequestBody extends ReauthenticationData {
+    newPassword: string;
+}
+
+// ===================== Rate Limiters =====================
+
+// إعادة التحقق تقبل كلمة المرور الحالية، لذلك نحد من المحاولات
+const identitiesLimiter: RequestHandler = createRateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 دقيقة
+    max: 10,
+    message: 'Too many attempts, please try again later.',
+    keyGenerator: (req: Request): string => `identities:${(req as AuthenticatedRequest).user?.userID || req.ip || 'unknown'}`
+});
+
+const router: Router = express.Router();
+
+// ===================== عرض طرق تسجيل الدخول =====================
+
+router.get('/identities', authenticateJwt, checkRole(['user']), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا توجد هويات لهذا العميل'
+            });
+            return;
+        }
+
+        const [methods, error] = await getLoginMethods(req.user!.userID);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم جلب طرق تسجيل الدخول بنجاح',
+            ...methods
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إضافة كلمة مرور (للحسابات المرتبطة بمزود خارجي فقط) =====================
+
+router.post('/identities/password', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), identitiesLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { newPassword, ...reauth } = req.body as SetPasswordRequestBody;
+        const userID = req.user!.userID;
+
+        if (!newPassword) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'كلمة المرور الجديدة مطلوبة'
+            });
+            return;
+        }
+
+        // التحقق من سياسة كلمات المرور
+        const [user] = await UsersService.getById(userID);
+        const policy = validatePassword(newPassword, user || {}, getPasswordPolicyLanguage(req));
+        if (!policy.valid) {
+            res.status(status.BAD_REQUEST).json(toPasswordPolicyError(policy));
+            return;
+        }
+
+        const [methods, methodsError] = await getLoginMethods(userID);
+        if (methodsError || !methods) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: methodsError?.message || 'فشل في جلب طرق تسجيل الدخول'
+            });
+            return;
+        }
+
+        if (methods.password) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لهذا الحساب كلمة مرور بالفعل'
+            });
+            return;
+        }
+
+        const [verified, reauthError] = await verifyReauthentication(userID, reauth);
+        if (reauthError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: reauthError.message
+            });
+            return;
+        }
+
+        if (!verified) {
+            res.status(status.UNAUTHORIZED).json({
+                error: REAUTHENTICATION_FAILED_MESSAGE
+            });
+            return;
+        }
+
+        const [, updateError] = await UsersService.updatePassword(userID, await hashPassword(newPassword));
+        if (updateError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: updateError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.PASSWORD_CHANGED, {
+            userID,
+            provider: 'password',
+            details: { passwordAdded: true },
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تمت إضافة كلمة المرور بنجاح، يمكنك الآن تسجيل الدخول بالبريد الإلكتروني'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== ربط حساب خارجي (Google, GitHub, Discord) =====================
+
+// يُعرّف بعد /identities/password حتى لا يطابق :provider كلمة 'password'
+
+router.post('/identities/:provider', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), identitiesLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { credential, code, ...reauth } = req.body as LinkProviderRequestBody;
+        const userID = req.user!.userID;
+
+        const provider = getOAuthProvider(req.params.provider as string);
+        if (!provider) {
+            res.status(status.NOT_FOUND).json({
+                error: 'مزود تسجيل الدخول غير متاح'
+            });
+            return;
+        }
+
+        if (!credential && !code) {
+            res.status(status.BAD_REQUEST).json({
+                error: provider.flow === 'id_token' ? `التوكن من ${provider.displayName} مطلوب` : 'authorization code مطلوب'
+            });
+            return;
+        }
+
+        const [verified, reauthError] = await verifyReauthentication(userID, reauth);
+        if (reauthError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: reauthError.message
+            });
+            return;
+        }
+
+        if (!verified) {
+            res.status(status.UNAUTHORIZED).json({
+                error: REAUTHENTICATION_FAILED_MESSAGE
+            });
+            return;
+        }
+
+        const [profile, verifyError] = await provider.verify({ credential, code });
+        if (verifyError || !profile) {
+            res.status(status.UNAUTHORIZED).json({
+                error: verifyError?.message || `فشل التحقق عبر ${provider.displayName}`
+            });
+            return;
+        }
+
+        const [, linkError] = await UsersService.linkIdentity(userID, provider.name, profile.provider_user_id, profile.email);
+        if (linkError) {
+            res.status(status.CONFLICT).json({
+                error: linkError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: `تم ربط حساب ${provider.displayName} بنجاح`
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إلغاء ربط طريقة تسجيل دخول =====================
+
+router.delete('/identities/:provider', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), identitiesLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const provider = req.params.provider as string;
+        const userID = req.user!.userID;
+
+        const isOAuthProvider = (Object.values(AuthProvider) as string[]).includes(provider) && provider !== AuthProvider.LOCAL;
+        if (provider !== 'password' && !isOAuthProvider) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'طريقة تسجيل الدخول غير معروفة'
+            });
+            return;
+        }
+
+        const [methods, methodsError] = await getLoginMethods(userID);
+        if (methodsError || !methods) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: methodsError?.message || 'فشل في جلب طرق تسجيل الدخول'
+            });
+            return;
+        }
+
+        const isLinked = provider === 'password'
+            ? methods.password
+            : methods.identities.some(i => i.provider === provider);
+        if (!isLinked) {
+            res.status(status.NOT_FOUND).json({
+                error: 'طريقة تسجيل الدخول غير مرتبطة بهذا الحساب'
+            });
+            return;
+        }
+
+        // منع حذف آخر طريقة تسجيل دخول
+        if (countPrimaryLoginMethods(methods) <= 1) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا يمكن إلغاء آخر طريقة لتسجيل الدخول، أضف طريقة أخرى أولاً'
+            });
+            return;
+        }
+
+        const [verified, reauthError] = await verifyReauthentication(userID, req.body as ReauthenticationData);
+        if (reauthError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: reauthError.message
+            });
+            return;
+        }
+
+        if (!verified) {
+            res.status(status.UNAUTHORIZED).json({
+                error: REAUTHENTICATION_FAILED_MESSAGE
+            });
+            return;
+        }
+
+        const [, unlinkError] = provider === 'password'
+            ? await UsersService.removePassword(userID)
+            : await UsersService.unlinkIdentity(userID, provider as AuthProvider);
+        if (unlinkError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: unlinkError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إلغاء ربط طريقة تسجيل الدخول بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import express, { Response, Router } from 'express';
+import status from '../../../config/status.config.js';
+import { getRequestMetadata } from '../services/auth.service.js';
+import { extractAccessToken } from '../services/authCookies.service.js';
+import { startImpersonation, endImpersonation, toPublicImpersonationSession } from '../services/impersonation.service.js';
+import { ImpersonationSessionsService, TokensService } from '../../database/postgreSQL/services/index.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface ImpersonateRequestBody {
+    userId: string;
+    reason?: string;
+}
+
+const router: Router = express.Router();
+
+// ===================== بدء انتحال الهوية (المالك فقط) =====================
+
+router.post('/impersonate', authenticateJwt, checkRole(['owner']), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { userId, reason } = req.body as ImpersonateRequestBody;
+
+        if (!userId) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'معرف المستخدم مطلوب'
+            });
+            return;
+        }
+
+        const [impersonation, error] = await startImpersonation(req.user!.userID, userId, reason?.trim() || null, getRequestMetadata(req));
+        if (error || !impersonation) {
+            res.status(status.BAD_REQUEST).json({
+                error: error?.message || 'فشل في بدء جلسة انتحال الهوية'
+            });
+            return;
+        }
+
+        // التوكن يُعاد في جسم الرد دائماً (بدون كوكيز) حتى لا يستبدل جلسة المالك في المتصفح
+        res.status(status.CREATED).json({
+            message: 'تم بدء جلسة انتحال الهوية',
+            token: impersonation.token,
+            expiresIn: impersonation.expiresIn,
+            session: impersonation.session
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إنهاء انتحال الهوية (بتوكن الانتحال نفسه) =====================
+
+router.post('/impersonate/end', authenticateJwt, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user?.impersonatedBy) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'هذه الجلسة ليست جلسة انتحال هوية'
+            });
+            return;
+        }
+
+        const token = extractAccessToken(req);
+        const [tokenData] = token ? await TokensService.getByToken(token) : [null];
+        if (!tokenData?.family_id) {
+            res.status(status.NOT_FOUND).json({
+                error: 'جلسة انتحال الهوية غير موجودة'
+            });
+            return;
+        }
+
+        const [session, error] = await endImpersonation(tokenData.family_id);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إنهاء جلسة انتحال الهوية',
+            session
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== سجل انتحال الهوية (المالك فقط) =====================
+
+router.get('/impersonations', authenticateJwt, checkRole(['owner']), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { userId, impersonatorId } = req.query;
+        const limit = Math.min(Number(req.query.limit) || 50, 200);
+        const offset = Number(req.query.offset) || 0;
+
+        const [sessions, error] = await ImpersonationSessionsService.getAll({
+            target_user_id: typeof userId === 'string' ? userId : undefined,
+            impersonator_id: typeof impersonatorId === 'string' ? impersonatorId : undefined,
+            limit,
+            offset
+        });
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم جلب سجل انتحال الهوية بنجاح',
+            sessions: (sessions || []).map(toPublicImpersonationSession)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,21 @@
+import express, { Request, Response, Router } from 'express';
+import status from '../../../config/status.config.js';
+import { getJwks } from '../services/jwtKeys.service.js';
+
+const router: Router = express.Router();
+
+// ===================== المفاتيح العامة (JWKS) =====================
+
+// عام بدون مصادقة: تستخدمه الخدمات الأخرى (مثل خادم Stripe) للتحقق من التوكنات
+router.get('/.well-known/jwks.json', (req: Request, res: Response): void => {
+    try {
+        res.set('Cache-Control', 'public, max-age=300');
+        res.json(getJwks());
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
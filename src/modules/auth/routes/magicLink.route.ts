@@ -0,0 +1,153 @@
+import express, { Request, Response, Router, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { createRateLimiter, loginRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { issueOneTimeToken, consumeOneTimeToken, IssuedTokens } from '../services/auth.service.js';
+import { deliverTokens } from '../services/authCookies.service.js';
+import { sendMagicLinkEmail } from '../services/authEmail.service.js';
+import { startLogin } from '../services/twoFactor.service.js';
+import { TokenType, UsersService } from '../../database/postgreSQL/services/index.js';
+import { MAGIC_LINK_EXPIRES_IN } from '../../../config/security.config.js';
+
+// ===================== Interfaces =====================
+
+interface MagicLinkRequestBody {
+    email: string;
+}
+
+interface MagicLinkVerifyRequestBody {
+    token: string;
+}
+
+// ===================== Rate Limiters =====================
+
+// 3 روابط كحد أقصى لكل بريد كل 15 دقيقة (بغض النظر عن وجود الحساب)
+const magicLinkEmailLimiter: RequestHandler = createRateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 دقيقة
+    max: 3,
+    message: 'Too many sign-in links requested, please try again later.',
+    keyGenerator: (req: Request): string => `magic_link:${String(req.body?.email || '').trim().toLowerCase() || req.ip || 'unknown'}`
+});
+
+const router: Router = express.Router();
+
+/**
+ * إصدار رابط تسجيل الدخول وإرساله إن كان الحساب موجوداً
+ * يُستدعى بعد الرد وبدون انتظار حتى لا يكشف زمن الرد وجود الحساب
+ * @param email - البريد الإلكتروني
+ */
+async function deliverMagicLink(email: string): Promise<void> {
+    const [user] = await UsersService.getByEmail(email);
+    if (!user) {
+        return;
+    }
+
+    const [loginToken, tokenError] = await issueOneTimeToken(user.id!, TokenType.MAGIC_LINK, MAGIC_LINK_EXPIRES_IN);
+    if (tokenError) {
+        console.error('❌ Failed to issue magic link token:', tokenError.message);
+        return;
+    }
+
+    await sendMagicLinkEmail(user.email, loginToken!, MAGIC_LINK_EXPIRES_IN);
+}
+
+// ===================== طلب رابط تسجيل الدخول =====================
+
+router.post('/magic-link', loginRateLimiter, magicLinkEmailLimiter, async (req: Request<{}, {}, MagicLinkRequestBody>, res: Response): Promise<void> => {
+    try {
+        const { email } = req.body;
+
+        if (!email) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'البريد الإلكتروني مطلوب'
+            });
+            return;
+        }
+
+        // نفس الرد دائماً حتى لا نكشف وجود الحساب من عدمه
+        const genericResponse = {
+            message: 'إذا كان البريد الإلكتروني مسجلاً لدينا، فستصلك رسالة تحتوي على رابط تسجيل الدخول'
+        };
+
+        res.json(genericResponse);
+
+        deliverMagicLink(email).catch((emailError: Error) => {
+            console.error('❌ Failed to send magic link email:', emailError.message);
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تأكيد رابط تسجيل الدخول =====================
+
+router.post('/magic-link/verify', loginRateLimiter, async (req: Request<{}, {}, MagicLinkVerifyRequestBody>, res: Response): Promise<void> => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'التوكن مطلوب'
+            });
+            return;
+        }
+
+        // التحقق من التوكن ووضع علامة الاستخدام عليه (لمرة واحدة فقط)
+        const [loginToken, tokenError] = await consumeOneTimeToken(token, TokenType.MAGIC_LINK);
+        if (tokenError || !loginToken) {
+            res.status(status.UNAUTHORIZED).json({
+                error: tokenError?.message || 'الرابط غير صالح أو منتهي الصلاحية'
+            });
+            return;
+        }
+
+        const [user, userError] = await UsersService.getById(loginToken.user_id!);
+        if (userError || !user) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'المستخدم غير موجود'
+            });
+            return;
+        }
+
+        // فتح الرابط يثبت ملكية البريد الإلكتروني
+        if (!user.email_verified) {
+            const [, verifyError] = await UsersService.verifyEmail(user.id!);
+            if (verifyError) {
+                console.error('❌ Failed to mark email as verified after magic link login:', verifyError.message);
+            }
+        }
+
+        // توليد التوكنات، أو توكن تحدٍ إذا كانت المصادقة الثنائية مفعلة
+        const [login, loginError] = await startLogin(user.id!, req, 'magic_link');
+        if (loginError || !login) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: loginError?.message || 'فشل في تسجيل الدخول'
+            });
+            return;
+        }
+
+        if (login.twoFactorRequired) {
+            res.json({
+                message: 'يرجى إدخال رمز المصادقة الثنائية',
+                twoFactorRequired: true,
+                challengeToken: login.challengeToken,
+                expiresIn: login.expiresIn
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم تسجيل الدخول بنجاح',
+            user: { ...user, email_verified: true },
+            twoFactorRequired: false,
+            ...deliverTokens(req, res, login as IssuedTokens)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
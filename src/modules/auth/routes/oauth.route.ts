@@ -0,0 +1,227 @@
+import express, { Request, Response, Router } from 'express';
+import status from '../../../config/status.config.js';
+import { loginRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { startLogin } from '../services/twoFactor.service.js';
+import { getRequestMetadata, IssuedTokens } from '../services/auth.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import { UsersService, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import type { InvitationData } from '../../database/postgreSQL/services/index.js';
+import { checkRegistrationAllowed, acceptInvitation } from '../services/registration.service.js';
+import { deliverTokens } from '../services/authCookies.service.js';
+import { getOAuthProvider, getEnabledOAuthProviders, OAuthProvider, OAuthCredentials } from '../providers/index.js';
+
+// ===================== Interfaces =====================
+
+interface GoogleAuthRequestBody {
+    credential: string; // id_token من Google
+    inviteToken?: string;
+}
+
+interface OAuthLoginRequestBody extends OAuthCredentials {
+    inviteToken?: string; // دعوة التسجيل (للحسابات الجديدة فقط)
+}
+
+interface AuthorizationUrlQuery {
+    state?: string;
+}
+
+const router: Router = express.Router();
+
+/**
+ * التحقق من بيانات المزود، إنشاء/تسجيل دخول الحساب، ثم إصدار التوكنات أو تحدي المصادقة الثنائية
+ * @param provider - مزود تسجيل الدخول
+ * @param credentials - id_token أو authorization code
+ * @param inviteToken - دعوة التسجيل (عند إنشاء حساب جديد)
+ */
+async function handleOAuthLogin(provider: OAuthProvider, credentials: OAuthCredentials, req: Request, res: Response, inviteToken?: string): Promise<void> {
+    if (!credentials?.credential && !credentials?.code) {
+        res.status(status.BAD_REQUEST).json({
+            error: provider.flow === 'id_token' ? `التوكن من ${provider.displayName} مطلوب` : 'authorization code مطلوب'
+        });
+        return;
+    }
+
+    // التحقق من صحة التوكن/الكود مع المزود
+    const [profile, verifyError] = await provider.verify(credentials);
+    if (verifyError || !profile) {
+        recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+            success: false,
+            provider: provider.name,
+            details: { reason: 'provider_verification_failed' },
+            ...getRequestMetadata(req)
+        });
+        res.status(status.UNAUTHORIZED).json({
+            error: verifyError?.message || `فشل التحقق عبر ${provider.displayName}`
+        });
+        return;
+    }
+
+    // وضع التسجيل يُطبق على الحسابات الجديدة فقط
+    let invitation: InvitationData | null = null;
+    if (!(await provider.hasAccount(profile))) {
+        const [decision, registrationError] = await checkRegistrationAllowed(profile.email, {
+            inviteToken,
+            emailVerified: profile.email_verified === true
+        });
+        if (registrationError || !decision) {
+            res.status(status.FORBIDDEN).json({
+                error: registrationError?.message || 'التسجيل غير متاح'
+            });
+            return;
+        }
+        invitation = decision.invitation;
+    }
+
+    // تسجيل أو تسجيل الدخول عبر المزود
+    const [result, error] = await provider.upsertAccount(profile);
+    if (error || !result) {
+        res.status(status.BAD_REQUEST).json({
+            error: error?.message || `فشل في التسجيل عبر ${provider.displayName}`
+        });
+        return;
+    }
+
+    const { user, isNewUser } = result;
+
+    if (isNewUser && invitation) {
+        const [accepted, acceptError] = await acceptInvitation(invitation, user.id!);
+        if (acceptError) {
+            console.error('❌ Failed to accept invitation:', acceptError.message);
+        }
+        // التوكن وصل إلى البريد: تأكيده إذا لم يؤكده المزود
+        if (accepted && !user.email_verified) {
+            await UsersService.verifyEmail(user.id!);
+            user.email_verified = true;
+        }
+    }
+
+    // توليد التوكنات، أو توكن تحدٍ إذا كانت المصادقة الثنائية مفعلة
+    const [login, loginError] = await startLogin(user.id!, req, provider.name);
+    if (loginError || !login) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: loginError?.message || 'فشل في تسجيل الدخول'
+        });
+        return;
+    }
+
+    if (login.twoFactorRequired) {
+        res.json({
+            message: 'يرجى إدخال رمز المصادقة الثنائية',
+            twoFactorRequired: true,
+            challengeToken: login.challengeToken,
+            expiresIn: login.expiresIn
+        });
+        return;
+    }
+
+    res.status(isNewUser ? status.CREATED : status.OK).json({
+        message: isNewUser ? `تم التسجيل بنجاح عبر ${provider.displayName}` : `تم تسجيل الدخول بنجاح عبر ${provider.displayName}`,
+        user,
+        twoFactorRequired: false,
+        ...deliverTokens(req, res, login as IssuedTokens),
+        isNewUser
+    });
+}
+
+// ===================== المزودون المتاحون =====================
+
+router.get('/oauth/providers', async (req: Request, res: Response): Promise<void> => {
+    try {
+        res.json({
+            message: 'تم جلب مزودي تسجيل الدخول بنجاح',
+            providers: getEnabledOAuthProviders().map(p => ({
+                name: p.name,
+                displayName: p.displayName,
+                flow: p.flow
+            }))
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== رابط صفحة الموافقة لدى المزود =====================
+
+router.get('/oauth/:provider/authorize', async (req: Request<{ provider: string }, {}, {}, AuthorizationUrlQuery>, res: Response): Promise<void> => {
+    try {
+        const provider = getOAuthProvider(req.params.provider);
+        if (!provider) {
+            res.status(status.NOT_FOUND).json({
+                error: 'مزود تسجيل الدخول غير متاح'
+            });
+            return;
+        }
+
+        // state تولده الواجهة الأمامية وتتحقق منه عند الرجوع (حماية من CSRF)
+        const { state } = req.query;
+        if (!state) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'قيمة state مطلوبة'
+            });
+            return;
+        }
+
+        const url = provider.getAuthorizationUrl(state);
+        if (!url) {
+            res.status(status.BAD_REQUEST).json({
+                error: `${provider.displayName} يستخدم id_token من الواجهة الأمامية مباشرة`
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إنشاء رابط تسجيل الدخول',
+            url
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تسجيل الدخول عبر Google OAuth2 =====================
+
+// مسار قديم يبقى للتوافق مع الواجهات الحالية، ويعادل POST /oauth/google
+router.post('/google', loginRateLimiter, async (req: Request<{}, {}, GoogleAuthRequestBody>, res: Response): Promise<void> => {
+    try {
+        const provider = getOAuthProvider('google');
+        if (!provider) {
+            res.status(status.NOT_FOUND).json({
+                error: 'تسجيل الدخول عبر Google غير مفعل'
+            });
+            return;
+        }
+
+        await handleOAuthLogin(provider, { credential: req.body.credential }, req, res, req.body.inviteToken);
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تسجيل الدخول عبر مزود خارجي =====================
+
+router.post('/oauth/:provider', loginRateLimiter, async (req: Request<{ provider: string }, {}, OAuthLoginRequestBody>, res: Response): Promise<void> => {
+    try {
+        const provider = getOAuthProvider(req.params.provider);
+        if (!provider) {
+            res.status(status.NOT_FOUND).json({
+                error: 'مزود تسجيل الدخول غير متاح'
+            });
+            return;
+        }
+
+        const { credential, code, inviteToken } = req.body;
+        await handleOAuthLogin(provider, { credential, code }, req, res, inviteToken);
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
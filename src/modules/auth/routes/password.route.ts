@@ -0,0 +1,270 @@
+import express, { Request, Response, Router, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { createRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { issueOneTimeToken, consumeOneTimeToken, getRequestMetadata } from '../services/auth.service.js';
+import { extractAccessToken } from '../services/authCookies.service.js';
+import { revokeOtherUserSessions } from '../services/sessions.service.js';
+import { validatePassword, getPasswordPolicyLanguage, toPasswordPolicyError, getPasswordPolicyRules } from '../services/passwordPolicy.service.js';
+import { sendPasswordResetEmail } from '../services/authEmail.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import { TokensService, TokenType, UsersService, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import { PASSWORD_RESET_EXPIRES_IN } from '../../../config/security.config.js';
+import { hashPassword, comparePassword } from '../../../utils/hash.util.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface ForgotPasswordRequestBody {
+    email: string;
+}
+
+interface ResetPasswordRequestBody {
+    token: string;
+    password: string;
+}
+
+interface ChangePasswordRequestBody {
+    currentPassword: string;
+    newPassword: string;
+}
+
+// ===================== Rate Limiters =====================
+
+// تغيير كلمة المرور يقبل كلمة المرور الحالية، لذلك نحد من المحاولات لكل مستخدم
+const changePasswordLimiter: RequestHandler = createRateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 دقيقة
+    max: 10,
+    message: 'Too many password change attempts, please try again later.',
+    keyGenerator: (req: Request): string => `change_password:${(req as AuthenticatedRequest).user?.userID || req.ip || 'unknown'}`
+});
+
+const router: Router = express.Router();
+
+/**
+ * إصدار رابط إعادة التعيين وإرساله إن كان للحساب كلمة مرور
+ * يُستدعى بعد الرد وبدون انتظار حتى لا يكشف زمن الرد وجود الحساب
+ * @param email - البريد الإلكتروني
+ */
+async function deliverPasswordResetLink(email: string): Promise<void> {
+    const [user] = await UsersService.getByEmail(email, true);
+
+    // فقط الحسابات التي لديها كلمة مرور يمكنها إعادة تعيينها
+    if (!user || !user.password_hash) {
+        return;
+    }
+
+    const [resetToken, tokenError] = await issueOneTimeToken(user.id!, TokenType.RESET_PASSWORD, PASSWORD_RESET_EXPIRES_IN);
+    if (tokenError) {
+        console.error('❌ Failed to issue password reset token:', tokenError.message);
+        return;
+    }
+
+    await sendPasswordResetEmail(user.email, resetToken!, PASSWORD_RESET_EXPIRES_IN);
+}
+
+// ===================== سياسة كلمات المرور =====================
+
+router.get('/password/policy', (req: Request, res: Response): void => {
+    res.json({
+        message: 'تم جلب سياسة كلمات المرور بنجاح',
+        policy: getPasswordPolicyRules()
+    });
+});
+
+// ===================== طلب إعادة تعيين كلمة المرور =====================
+
+router.post('/password/forgot', /* authRateLimiter, */ async (req: Request<{}, {}, ForgotPasswordRequestBody>, res: Response): Promise<void> => {
+    try {
+        const { email } = req.body;
+
+        if (!email) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'البريد الإلكتروني مطلوب'
+            });
+            return;
+        }
+
+        // نفس الرد دائماً حتى لا نكشف وجود الحساب من عدمه
+        const genericResponse = {
+            message: 'إذا كان البريد الإلكتروني مسجلاً لدينا، فستصلك رسالة تحتوي على رابط إعادة التعيين'
+        };
+
+        res.json(genericResponse);
+
+        deliverPasswordResetLink(email).catch((emailError: Error) => {
+            console.error('❌ Failed to send password reset email:', emailError.message);
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تأكيد إعادة تعيين كلمة المرور =====================
+
+router.post('/password/reset', /* authRateLimiter, */ async (req: Request<{}, {}, ResetPasswordRequestBody>, res: Response): Promise<void> => {
+    try {
+        const { token, password } = req.body;
+
+        if (!token || !password) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'التوكن وكلمة المرور الجديدة مطلوبان'
+            });
+            return;
+        }
+
+        // التحقق من التوكن بدون استهلاكه، حتى لا يضيع الرابط إذا رُفضت كلمة المرور
+        const [pendingToken] = await TokensService.validateToken(token);
+        if (!pendingToken || pendingToken.type !== TokenType.RESET_PASSWORD || !pendingToken.user_id) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'الرابط غير صالح أو منتهي الصلاحية'
+            });
+            return;
+        }
+
+        // التحقق من سياسة كلمات المرور
+        const [pendingUser] = await UsersService.getById(pendingToken.user_id);
+        const policy = validatePassword(password, pendingUser || {}, getPasswordPolicyLanguage(req));
+        if (!policy.valid) {
+            res.status(status.BAD_REQUEST).json(toPasswordPolicyError(policy));
+            return;
+        }
+
+        // التحقق من التوكن ووضع علامة الاستخدام عليه (لمرة واحدة فقط)
+        const [resetToken, tokenError] = await consumeOneTimeToken(token, TokenType.RESET_PASSWORD);
+        if (tokenError || !resetToken) {
+            res.status(status.BAD_REQUEST).json({
+                error: tokenError?.message || 'الرابط غير صالح أو منتهي الصلاحية'
+            });
+            return;
+        }
+
+        const userID = resetToken.user_id!;
+
+        // تحديث كلمة المرور
+        const password_hash = await hashPassword(password);
+        const [, updateError] = await UsersService.updatePassword(userID, password_hash);
+        if (updateError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: updateError.message
+            });
+            return;
+        }
+
+        // إلغاء جميع الجلسات الحالية للمستخدم
+        const [revokedTokens] = await TokensService.deleteByUserId(userID, [TokenType.ACCESS, TokenType.REFRESH]);
+
+        recordSecurityEvent(SecurityEventType.PASSWORD_RESET, {
+            userID,
+            provider: 'password',
+            details: { revokedTokens: revokedTokens || 0 },
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تم تغيير كلمة المرور بنجاح، يرجى تسجيل الدخول مجدداً'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تغيير كلمة المرور (للمستخدم المسجل) =====================
+
+router.post('/change-password', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), changePasswordLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { currentPassword, newPassword } = req.body as ChangePasswordRequestBody;
+        const userID = req.user!.userID;
+
+        const [user, userError] = await UsersService.getById(userID, true);
+        if (userError || !user) {
+            res.status(status.NOT_FOUND).json({
+                error: 'المستخدم غير موجود'
+            });
+            return;
+        }
+
+        // الحسابات المرتبطة بمزود خارجي فقط ليس لديها كلمة مرور لتغييرها
+        if (!user.password_hash) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا توجد كلمة مرور لهذا الحساب، يمكنك إضافة كلمة مرور بدلاً من ذلك',
+                passwordSet: false,
+                setPasswordPath: '/api/v1/auth/identities/password'
+            });
+            return;
+        }
+
+        if (!currentPassword || !newPassword) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'كلمة المرور الحالية والجديدة مطلوبتان'
+            });
+            return;
+        }
+
+        if (!(await comparePassword(currentPassword, user.password_hash))) {
+            recordSecurityEvent(SecurityEventType.PASSWORD_CHANGED, {
+                userID,
+                success: false,
+                provider: 'password',
+                details: { reason: 'invalid_current_password' },
+                ...getRequestMetadata(req)
+            });
+            res.status(status.UNAUTHORIZED).json({
+                error: 'كلمة المرور الحالية غير صحيحة'
+            });
+            return;
+        }
+
+        // التحقق من سياسة كلمات المرور
+        const policy = validatePassword(newPassword, user, getPasswordPolicyLanguage(req));
+        if (!policy.valid) {
+            res.status(status.BAD_REQUEST).json(toPasswordPolicyError(policy));
+            return;
+        }
+
+        if (await comparePassword(newPassword, user.password_hash)) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'كلمة المرور الجديدة يجب أن تختلف عن الحالية'
+            });
+            return;
+        }
+
+        const [, updateError] = await UsersService.updatePassword(userID, await hashPassword(newPassword));
+        if (updateError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: updateError.message
+            });
+            return;
+        }
+
+        // إلغاء جميع الجلسات الأخرى مع الإبقاء على الجلسة الحالية
+        const token = extractAccessToken(req);
+        const [currentToken] = token ? await TokensService.getByToken(token) : [null];
+        const [revokedSessions, revokeError] = await revokeOtherUserSessions(userID, currentToken);
+        if (revokeError) {
+            console.error('❌ Failed to revoke sessions after password change:', revokeError.message);
+        }
+
+        recordSecurityEvent(SecurityEventType.PASSWORD_CHANGED, {
+            userID,
+            provider: 'password',
+            details: { revokedSessions: revokedSessions || 0 },
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تم تغيير كلمة المرور بنجاح',
+            revokedSessions: revokedSessions || 0
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import express, { Response, Router } from 'express';
+import status from '../../../config/status.config.js';
+import { toPublicSecurityEvent } from '../services/securityEvents.service.js';
+import { SecurityEventsService, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+const router: Router = express.Router();
+
+const EVENT_TYPES = Object.values(SecurityEventType) as string[];
+
+// ===================== سجل الأحداث الأمنية للمستخدم الحالي =====================
+
+router.get('/security-events', authenticateJwt, checkRole(['user']), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا يوجد سجل أحداث لهذا العميل'
+            });
+            return;
+        }
+
+        const { type, success, from, to } = req.query;
+
+        // type=login_failed,password_changed
+        const types = typeof type === 'string' && type.trim()
+            ? type.split(',').map((value) => value.trim()).filter(Boolean)
+            : [];
+        const invalidType = types.find((value) => !EVENT_TYPES.includes(value));
+        if (invalidType) {
+            res.status(status.BAD_REQUEST).json({
+                error: `نوع الحدث غير معروف: ${invalidType}`
+            });
+            return;
+        }
+
+        const fromDate = typeof from === 'string' && from ? new Date(from) : undefined;
+        const toDate = typeof to === 'string' && to ? new Date(to) : undefined;
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'صيغة التاريخ غير صالحة'
+            });
+            return;
+        }
+
+        const limit = Math.min(Number(req.query.limit) || 50, 200);
+        const offset = Number(req.query.offset) || 0;
+
+        const [result, error] = await SecurityEventsService.getAll({
+            user_id: req.user!.userID,
+            types: types as SecurityEventType[],
+            success: success === 'true' ? true : success === 'false' ? false : undefined,
+            from: fromDate,
+            to: toDate,
+            limit,
+            offset
+        });
+        if (error || !result) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error?.message || 'فشل في جلب الأحداث الأمنية'
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم جلب سجل الأحداث الأمنية بنجاح',
+            events: result.events.map(toPublicSecurityEvent),
+            total: result.total
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import express, { Response, Router } from 'express';
+import status from '../../../config/status.config.js';
+import { extractAccessToken } from '../services/authCookies.service.js';
+import { listUserSessions, revokeUserSession } from '../services/sessions.service.js';
+import { getRequestMetadata } from '../services/auth.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import { TokensService, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+const router: Router = express.Router();
+
+// ===================== عرض الجلسات النشطة =====================
+
+router.get('/sessions', authenticateJwt, checkRole(['user']), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا توجد جلسات لهذا العميل'
+            });
+            return;
+        }
+
+        const token = extractAccessToken(req);
+        const [currentToken] = token ? await TokensService.getByToken(token) : [null];
+
+        const [sessions, error] = await listUserSessions(req.user!.userID, currentToken);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم جلب الجلسات بنجاح',
+            sessions
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إلغاء جلسة (جهاز) واحدة =====================
+
+router.delete('/sessions/:id', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'لا توجد جلسات لهذا العميل'
+            });
+            return;
+        }
+
+        const [revoked, error] = await revokeUserSession(req.user!.userID, req.params.id as string);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        if (!revoked) {
+            res.status(status.NOT_FOUND).json({
+                error: 'الجلسة غير موجودة'
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.TOKENS_REVOKED, {
+            userID: req.user!.userID,
+            details: { reason: 'session_revoked', sessionId: req.params.id },
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تم إلغاء الجلسة بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,497 @@
+import express, { Request, Response, NextFunction, Router, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { TWO_FACTOR_ISSUER } from '../../../config/security.config.js';
+import { createRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { consumeOneTimeToken, issueTokens, getRequestMetadata } from '../services/auth.service.js';
+import { deliverTokens } from '../services/authCookies.service.js';
+import { generateRecoveryCodes, verifyTotpCode, verifyTwoFactorCode, isTwoFactorRequiredForAdmins, recordChallengeFailure, getChallengeProvider, MAX_CHALLENGE_ATTEMPTS } from '../services/twoFactor.service.js';
+import { checkLoginAllowed, recordLoginFailure, clearLoginFailures, getLockoutStatus } from '../services/loginThrottle.service.js';
+import { sendAccountLockedEmail } from '../services/authEmail.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import { TokensService, TokenType, UsersService, TwoFactorService, SystemSettingsService, SystemSettingKey, SecurityEventType, ProjectAdminsService } from '../../database/postgreSQL/services/index.js';
+import type { TokenData } from '../../database/postgreSQL/services/index.js';
+import { generateTotpSecret, buildOtpAuthUri } from '../../../utils/totp.util.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface TwoFactorCodeRequestBody {
+    code: string;
+}
+
+interface TwoFactorVerifyRequestBody {
+    challengeToken: string;
+    code: string;
+}
+
+interface TwoFactorVerifyRequest extends Request<{}, {}, TwoFactorVerifyRequestBody> {
+    twoFactorChallenge?: TokenData;
+}
+
+interface TwoFactorPolicyRequestBody {
+    requireForAdmins: boolean;
+}
+
+// ===================== Rate Limiters =====================
+
+// 5 محاولات كحد أقصى لكل مستخدم (وليس لكل توكن تحدٍ: كل تسجيل دخول بكلمة المرور يصدر تحدياً جديداً)
+// يعمل بعد loadTwoFactorChallenge حتى يكون معرف المستخدم معروفاً
+const verifyTwoFactorLimiter: RequestHandler = createRateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 دقيقة
+    max: 5,
+    message: 'Too many two-factor attempts, please log in again later.',
+    keyGenerator: (req: Request): string => `2fa_verify:${(req as TwoFactorVerifyRequest).twoFactorChallenge?.user_id || req.ip || 'unknown'}`
+});
+
+// محاولات إدارة المصادقة الثنائية لكل مستخدم
+const manageTwoFactorLimiter: RequestHandler = createRateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 دقيقة
+    max: 10,
+    message: 'Too many two-factor attempts, please try again later.',
+    keyGenerator: (req: Request): string => `2fa_manage:${(req as AuthenticatedRequest).user?.userID || req.ip || 'unknown'}`
+});
+
+// ===================== Middlewares =====================
+
+/**
+ * التحقق من توكن التحدي (بدون استهلاكه) وإرفاقه بالطلب قبل حد المحاولات
+ */
+async function loadTwoFactorChallenge(req: TwoFactorVerifyRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+        const { challengeToken, code } = req.body;
+
+        if (!challengeToken || !code) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'توكن التحدي ورمز التحقق مطلوبان'
+            });
+            return;
+        }
+
+        // لا نستهلك التحدي هنا حتى يتمكن المستخدم من إعادة المحاولة عند الخطأ في الرمز
+        const [challenge, challengeError] = await TokensService.validateToken(challengeToken);
+        if (challengeError || !challenge || challenge.type !== TokenType.TWO_FACTOR_CHALLENGE || !challenge.user_id) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'انتهت صلاحية تسجيل الدخول، يرجى تسجيل الدخول مرة أخرى'
+            });
+            return;
+        }
+
+        req.twoFactorChallenge = challenge;
+        next();
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+}
+
+const router: Router = express.Router();
+
+// ===================== بدء إعداد المصادقة الثنائية =====================
+
+router.post('/2fa/setup', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'المصادقة الثنائية غير متاحة لهذا العميل'
+            });
+            return;
+        }
+
+        const [user, userError] = await UsersService.getById(req.user!.userID);
+        if (userError || !user) {
+            res.status(status.NOT_FOUND).json({
+                error: 'المستخدم غير موجود'
+            });
+            return;
+        }
+
+        const secret = generateTotpSecret();
+        const [, saveError] = await TwoFactorService.savePendingSecret(user.id!, secret);
+        if (saveError) {
+            res.status(status.BAD_REQUEST).json({
+                error: saveError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'امسح رمز QR بتطبيق المصادقة ثم أكد التفعيل بالرمز الظاهر',
+            secret,
+            otpauthUri: buildOtpAuthUri(secret, user.email, TWO_FACTOR_ISSUER)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تأكيد تفعيل المصادقة الثنائية =====================
+
+router.post('/2fa/enable', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), manageTwoFactorLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { code } = req.body as TwoFactorCodeRequestBody;
+
+        if (!code) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'رمز التحقق مطلوب'
+            });
+            return;
+        }
+
+        const [record, recordError] = await TwoFactorService.getByUserId(req.user!.userID);
+        if (recordError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: recordError.message
+            });
+            return;
+        }
+
+        if (!record) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'يرجى بدء إعداد المصادقة الثنائية أولاً'
+            });
+            return;
+        }
+
+        if (record.enabled) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'المصادقة الثنائية مفعّلة بالفعل'
+            });
+            return;
+        }
+
+        const [valid, verifyError] = await verifyTotpCode(record, code);
+        if (verifyError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: verifyError.message
+            });
+            return;
+        }
+
+        if (!valid) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'رمز التحقق غير صحيح'
+            });
+            return;
+        }
+
+        const { codes, hashedCodes } = generateRecoveryCodes();
+        const [, updateError] = await TwoFactorService.updateByUserId(record.user_id, {
+            enabled: true,
+            enabled_at: new Date(),
+            recovery_codes: hashedCodes
+        });
+        if (updateError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: updateError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.TWO_FACTOR_ENABLED, {
+            userID: req.user!.userID,
+            provider: 'two_factor',
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تم تفعيل المصادقة الثنائية بنجاح. احفظ رموز الاسترداد في مكان آمن، لن يتم عرضها مرة أخرى',
+            recoveryCodes: codes
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إلغاء المصادقة الثنائية =====================
+
+router.post('/2fa/disable', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), manageTwoFactorLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { code } = req.body as TwoFactorCodeRequestBody;
+
+        if (!code) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'رمز التحقق أو رمز الاسترداد مطلوب'
+            });
+            return;
+        }
+
+        const [valid, verifyError] = await verifyTwoFactorCode(req.user!.userID, code);
+        if (verifyError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: verifyError.message
+            });
+            return;
+        }
+
+        if (!valid) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'رمز التحقق غير صحيح'
+            });
+            return;
+        }
+
+        const [, deleteError] = await TwoFactorService.deleteByUserId(req.user!.userID);
+        if (deleteError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: deleteError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.TWO_FACTOR_DISABLED, {
+            userID: req.user!.userID,
+            provider: 'two_factor',
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تم إلغاء المصادقة الثنائية بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إعادة توليد رموز الاسترداد =====================
+
+router.post('/2fa/recovery-codes', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), manageTwoFactorLimiter, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { code } = req.body as TwoFactorCodeRequestBody;
+
+        if (!code) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'رمز التحقق مطلوب'
+            });
+            return;
+        }
+
+        const [valid, verifyError] = await verifyTwoFactorCode(req.user!.userID, code);
+        if (verifyError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: verifyError.message
+            });
+            return;
+        }
+
+        if (!valid) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'رمز التحقق غير صحيح'
+            });
+            return;
+        }
+
+        const { codes, hashedCodes } = generateRecoveryCodes();
+        const [, updateError] = await TwoFactorService.updateByUserId(req.user!.userID, { recovery_codes: hashedCodes });
+        if (updateError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: updateError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.RECOVERY_CODES_REGENERATED, {
+            userID: req.user!.userID,
+            provider: 'two_factor',
+            ...getRequestMetadata(req)
+        });
+
+        res.json({
+            message: 'تم توليد رموز استرداد جديدة، الرموز السابقة لم تعد صالحة',
+            recoveryCodes: codes
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== الخطوة الثانية لتسجيل الدخول =====================
+
+router.post('/2fa/verify', loadTwoFactorChallenge, verifyTwoFactorLimiter, async (req: TwoFactorVerifyRequest, res: Response): Promise<void> => {
+    try {
+        const { challengeToken, code } = req.body;
+        const challenge = req.twoFactorChallenge!;
+
+        const [challengeUser, challengeUserError] = await UsersService.getById(challenge.user_id!);
+        if (challengeUserError || !challengeUser) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'انتهت صلاحية تسجيل الدخول، يرجى تسجيل الدخول مرة أخرى'
+            });
+            return;
+        }
+
+        // الرموز الخاطئة تُحتسب في نفس حماية تسجيل الدخول (التأخير والقفل المؤقت)
+        const throttle = await checkLoginAllowed(challengeUser.email, req.ip);
+        if (!throttle.allowed) {
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                userID: challengeUser.id,
+                success: false,
+                provider: 'two_factor',
+                details: { reason: throttle.locked ? 'account_locked' : 'throttled' },
+                ...getRequestMetadata(req)
+            });
+            res.set('Retry-After', String(throttle.retryAfter));
+            res.status(status.TOO_MANY_REQUESTS).json({
+                error: throttle.locked
+                    ? 'تم قفل تسجيل الدخول مؤقتاً بسبب محاولات فاشلة متكررة، يرجى المحاولة لاحقاً'
+                    : 'محاولات فاشلة متكررة، يرجى الانتظار قبل المحاولة مرة أخرى',
+                retryAfter: throttle.retryAfter
+            });
+            return;
+        }
+
+        const [valid, verifyError] = await verifyTwoFactorCode(challenge.user_id!, code);
+        if (verifyError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: verifyError.message
+            });
+            return;
+        }
+
+        if (!valid) {
+            const failure = await recordLoginFailure(challengeUser.email, req.ip);
+            const challengeFailures = await recordChallengeFailure(challenge.id!);
+            const challengeExhausted = challengeFailures >= MAX_CHALLENGE_ATTEMPTS;
+
+            // إلغاء التحدي بعد عدد من الرموز الخاطئة (يجب إعادة إدخال كلمة المرور)
+            if (challengeExhausted) {
+                await consumeOneTimeToken(challengeToken, TokenType.TWO_FACTOR_CHALLENGE);
+            }
+
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                userID: challenge.user_id,
+                success: false,
+                provider: 'two_factor',
+                details: {
+                    reason: 'invalid_two_factor_code',
+                    failures: failure.failures,
+                    locked: failure.justLocked,
+                    challengeRevoked: challengeExhausted
+                },
+                ...getRequestMetadata(req)
+            });
+            if (failure.justLocked) {
+                // تنبيه صاحب الحساب مرة واحدة عند القفل (بدون انتظار)
+                const { lockedUntil } = await getLockoutStatus(challengeUser.email);
+                sendAccountLockedEmail(challengeUser.email, failure.failures, lockedUntil, req.ip).catch((emailError: Error) => {
+                    console.error('❌ Failed to send account locked email:', emailError.message);
+                });
+            }
+
+            res.status(status.UNAUTHORIZED).json({
+                error: challengeExhausted
+                    ? 'رمز التحقق غير صحيح، تم إلغاء تسجيل الدخول بعد محاولات متكررة، يرجى تسجيل الدخول مرة أخرى'
+                    : 'رمز التحقق غير صحيح'
+            });
+            return;
+        }
+
+        // استهلاك التحدي (يمنع استخدامه مرتين بطلبات متزامنة)
+        const [consumed, consumeError] = await consumeOneTimeToken(challengeToken, TokenType.TWO_FACTOR_CHALLENGE);
+        if (consumeError || !consumed) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'انتهت صلاحية تسجيل الدخول، يرجى تسجيل الدخول مرة أخرى'
+            });
+            return;
+        }
+
+        const metadata = getRequestMetadata(req);
+        const [tokens, tokensError] = await issueTokens(consumed.user_id!, metadata);
+        if (tokensError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: tokensError.message
+            });
+            return;
+        }
+
+        await clearLoginFailures(challengeUser.email);
+        // نسجل طريقة الدخول الأساسية (التحديات الأقدم من تخزينها تبقى two_factor)
+        const provider = (await getChallengeProvider(challengeToken)) || 'two_factor';
+        recordSecurityEvent(SecurityEventType.LOGIN_SUCCEEDED, {
+            userID: consumed.user_id,
+            provider,
+            details: { twoFactor: true },
+            ...metadata
+        });
+        const [user] = await UsersService.getById(consumed.user_id!);
+
+        res.json({
+            message: 'تم تسجيل الدخول بنجاح',
+            user,
+            ...deliverTokens(req, res, tokens!)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== سياسة المصادقة الثنائية للمشرفين (المالك فقط) =====================
+
+router.get('/2fa/policy', authenticateJwt, checkRole(['owner']), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        res.json({
+            message: 'تم جلب سياسة المصادقة الثنائية بنجاح',
+            requireForAdmins: await isTwoFactorRequiredForAdmins()
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+router.put('/2fa/policy', authenticateJwt, checkRole(['owner']), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { requireForAdmins } = req.body as TwoFactorPolicyRequestBody;
+
+        if (typeof requireForAdmins !== 'boolean') {
+            res.status(status.BAD_REQUEST).json({
+                error: 'requireForAdmins يجب أن تكون قيمة منطقية'
+            });
+            return;
+        }
+
+        const [, setError] = await SystemSettingsService.set(
+            SystemSettingKey.REQUIRE_ADMIN_TWO_FACTOR,
+            requireForAdmins,
+            req.user!.isSystemClient ? undefined : req.user!.userID
+        );
+        if (setError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: setError.message
+            });
+            return;
+        }
+
+        // الدور محدد في هوية المشرف المخزنة مؤقتاً: نبطلها حتى تُطبق السياسة فوراً
+        const [, invalidateError] = await ProjectAdminsService.invalidateAllIdentities();
+        if (invalidateError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: invalidateError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم تحديث سياسة المصادقة الثنائية بنجاح',
+            requireForAdmins
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
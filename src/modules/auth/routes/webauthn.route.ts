@@ -0,0 +1,291 @@
+import express, { Request, Response, Router, RequestHandler } from 'express';
+import status from '../../../config/status.config.js';
+import { createRateLimiter } from '../../../middlewares/security/rateLimiter.middleware.js';
+import { issueTokens, getRequestMetadata, IssuedTokens } from '../services/auth.service.js';
+import { deliverTokens } from '../services/authCookies.service.js';
+import { startLogin } from '../services/twoFactor.service.js';
+import { recordSecurityEvent } from '../services/securityEvents.service.js';
+import {
+    generateRegistrationOptions,
+    verifyRegistration,
+    generateAuthenticationOptions,
+    verifyAuthentication,
+    PublicKeyCredentialJSON
+} from '../services/webauthn.service.js';
+import { UsersService, WebAuthnCredentialsService, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import type { RegistrationResponse, AuthenticationResponse } from '../../../utils/webauthn.util.js';
+import { authenticateJwt } from '../middlewares/auth.middleware.js';
+import { checkRole, denyWhileImpersonating, requireInteractiveSession, AuthenticatedRequest } from '../middlewares/role.middleware.js';
+
+// ===================== Interfaces =====================
+
+interface RegisterVerifyRequestBody {
+    credential: PublicKeyCredentialJSON<RegistrationResponse>;
+    name?: string;
+}
+
+interface LoginVerifyRequestBody {
+    credential: PublicKeyCredentialJSON<AuthenticationResponse>;
+}
+
+// ===================== Rate Limiters =====================
+
+// كل طلب خيارات ينشئ تحدياً في قاعدة البيانات
+const passkeyLoginLimiter: RequestHandler = createRateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 دقيقة
+    max: 30,
+    message: 'Too many passkey login attempts, please try again later.',
+    keyGenerator: (req: Request): string => `webauthn_login:${req.ip || 'unknown'}`
+});
+
+const router: Router = express.Router();
+
+// ===================== تسجيل مفتاح مرور جديد =====================
+
+router.post('/webauthn/register/options', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (req.user!.isSystemClient) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'مفاتيح المرور غير متاحة لهذا العميل'
+            });
+            return;
+        }
+
+        const [user, userError] = await UsersService.getById(req.user!.userID);
+        if (userError || !user) {
+            res.status(status.NOT_FOUND).json({
+                error: 'المستخدم غير موجود'
+            });
+            return;
+        }
+
+        const [options, optionsError] = await generateRegistrationOptions({
+            id: user.id!,
+            email: user.email,
+            display_name: user.display_name
+        });
+        if (optionsError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: optionsError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إنشاء خيارات تسجيل مفتاح المرور',
+            options
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+router.post('/webauthn/register/verify', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { credential, name } = req.body as RegisterVerifyRequestBody;
+
+        if (!credential) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'بيانات مفتاح المرور مطلوبة'
+            });
+            return;
+        }
+
+        const [saved, saveError] = await verifyRegistration(req.user!.userID, credential, name);
+        if (saveError || !saved) {
+            res.status(status.BAD_REQUEST).json({
+                error: saveError?.message || 'فشل في تسجيل مفتاح المرور'
+            });
+            return;
+        }
+
+        res.status(status.CREATED).json({
+            message: 'تم تسجيل مفتاح المرور بنجاح',
+            credential: {
+                id: saved.id,
+                name: saved.name,
+                transports: saved.transports,
+                created_at: saved.created_at
+            }
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== تسجيل الدخول بمفتاح مرور =====================
+
+router.post('/webauthn/login/options', passkeyLoginLimiter, async (req: Request, res: Response): Promise<void> => {
+    try {
+        const [options, optionsError] = await generateAuthenticationOptions();
+        if (optionsError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: optionsError.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم إنشاء خيارات تسجيل الدخول بمفتاح المرور',
+            options
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+router.post('/webauthn/login/verify', passkeyLoginLimiter, async (req: Request<{}, {}, LoginVerifyRequestBody>, res: Response): Promise<void> => {
+    try {
+        const { credential } = req.body;
+
+        if (!credential) {
+            res.status(status.BAD_REQUEST).json({
+                error: 'بيانات مفتاح المرور مطلوبة'
+            });
+            return;
+        }
+
+        const [passkey, verifyError] = await verifyAuthentication(credential);
+        if (verifyError || !passkey) {
+            recordSecurityEvent(SecurityEventType.LOGIN_FAILED, {
+                success: false,
+                provider: 'passkey',
+                details: { reason: 'passkey_verification_failed' },
+                ...getRequestMetadata(req)
+            });
+            res.status(status.UNAUTHORIZED).json({
+                error: verifyError?.message || 'فشل التحقق من مفتاح المرور'
+            });
+            return;
+        }
+
+        const [user, userError] = await UsersService.getById(passkey.userID);
+        if (userError || !user) {
+            res.status(status.UNAUTHORIZED).json({
+                error: 'المستخدم غير موجود'
+            });
+            return;
+        }
+
+        // مفتاح المرور مع التحقق من المستخدم (بصمة/رمز الجهاز) يعتبر مصادقة متعددة العوامل بذاته،
+        // وبدونه يمر المستخدم بالمصادقة الثنائية إن كانت مفعلة
+        if (!passkey.userVerified) {
+            const [login, loginError] = await startLogin(user.id!, req, 'passkey');
+            if (loginError || !login) {
+                res.status(status.INTERNAL_SERVER_ERROR).json({
+                    error: loginError?.message || 'فشل في تسجيل الدخول'
+                });
+                return;
+            }
+
+            if (login.twoFactorRequired) {
+                res.json({
+                    message: 'يرجى إدخال رمز المصادقة الثنائية',
+                    twoFactorRequired: true,
+                    challengeToken: login.challengeToken,
+                    expiresIn: login.expiresIn
+                });
+                return;
+            }
+
+            res.json({
+                message: 'تم تسجيل الدخول بنجاح بمفتاح المرور',
+                user,
+                twoFactorRequired: false,
+                ...deliverTokens(req, res, login as IssuedTokens)
+            });
+            return;
+        }
+
+        const metadata = getRequestMetadata(req);
+        const [tokens, tokensError] = await issueTokens(user.id!, metadata);
+        if (tokensError) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: tokensError.message
+            });
+            return;
+        }
+
+        recordSecurityEvent(SecurityEventType.LOGIN_SUCCEEDED, {
+            userID: user.id,
+            provider: 'passkey',
+            details: { userVerified: true },
+            ...metadata
+        });
+
+        res.json({
+            message: 'تم تسجيل الدخول بنجاح بمفتاح المرور',
+            user,
+            twoFactorRequired: false,
+            ...deliverTokens(req, res, tokens!)
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+// ===================== إدارة مفاتيح المرور =====================
+
+router.get('/webauthn/credentials', authenticateJwt, checkRole(['user']), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const [credentials, error] = await WebAuthnCredentialsService.getByUserId(req.user!.userID);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم جلب مفاتيح المرور بنجاح',
+            credentials: (credentials || []).map(c => ({
+                id: c.id,
+                name: c.name,
+                transports: c.transports,
+                created_at: c.created_at,
+                last_used_at: c.last_used_at
+            }))
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+router.delete('/webauthn/credentials/:id', authenticateJwt, checkRole(['user']), denyWhileImpersonating(), requireInteractiveSession(), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const [deleted, error] = await WebAuthnCredentialsService.delete(req.params.id as string, req.user!.userID);
+        if (error) {
+            res.status(status.INTERNAL_SERVER_ERROR).json({
+                error: error.message
+            });
+            return;
+        }
+
+        if (!deleted) {
+            res.status(status.NOT_FOUND).json({
+                error: 'مفتاح المرور غير موجود'
+            });
+            return;
+        }
+
+        res.json({
+            message: 'تم حذف مفتاح المرور بنجاح'
+        });
+    } catch (error) {
+        res.status(status.INTERNAL_SERVER_ERROR).json({
+            error: (error as Error).message
+        });
+    }
+});
+
+export default router;
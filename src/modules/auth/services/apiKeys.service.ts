@@ -0,0 +1,147 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeysService } from '../../database/postgreSQL/services/index.js';
+import type { ApiKeyData } from '../../database/postgreSQL/services/index.js';
+import type { AuthenticatedUser } from '../middlewares/role.middleware.js';
+import { intersectPermissions } from './permissions.service.js';
+
+/**
+ * مفاتيح API الشخصية
+ * المفتاح يُعرض مرة واحدة عند إنشائه، ويُخزن كبصمة SHA-256 فقط (المفتاح عشوائي بالكامل فلا حاجة لـ bcrypt)
+ * صلاحيات المفتاح لا تتجاوز أبداً صلاحيات صاحبه
+ */
+
+export const API_KEY_PREFIX = 'ghk_';
+export const MAX_API_KEYS_PER_USER = 25;
+
+// أقل فترة بين تحديثين لوقت آخر استخدام المفتاح (5 دقائق)
+const LAST_USED_UPDATE_INTERVAL = 5 * 60 * 1000;
+
+export interface CreateApiKeyOptions {
+    name: string;
+    permissions?: string[];
+    expiresAt?: Date | null;
+}
+
+export interface CreatedApiKey {
+    key: string; // المفتاح الكامل - يُعرض مرة واحدة فقط
+    apiKey: ApiKeyData;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+const INVALID_API_KEY_MESSAGE = 'مفتاح API غير صالح أو منتهي الصلاحية';
+
+/**
+ * بصمة المفتاح المخزنة في قاعدة البيانات
+ * @param key - المفتاح الكامل
+ */
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * هل التوكن المرسل مفتاح API وليس JWT؟
+ * @param token - قيمة Bearer
+ */
+export function isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * عرض المفتاح بدون البصمة
+ * @param apiKey - بيانات المفتاح
+ */
+export function toPublicApiKey(apiKey: ApiKeyData) {
+    return {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        permissions: apiKey.permissions,
+        expires_at: apiKey.expires_at,
+        last_used_at: apiKey.last_used_at,
+        last_used_ip: apiKey.last_used_ip,
+        created_at: apiKey.created_at
+    };
+}
+
+/**
+ * إنشاء مفتاح API جديد
+ * @param userID - معرف صاحب المفتاح
+ * @param options - الاسم والصلاحيات وتاريخ الانتهاء
+ * @returns [{ key, apiKey }, error]
+ */
+export async function createApiKey(userID: string, options: CreateApiKeyOptions): ServiceResult<CreatedApiKey> {
+    const [existing, existingError] = await ApiKeysService.getByUserId(userID);
+    if (existingError) {
+        return [null, existingError];
+    }
+    if ((existing || []).length >= MAX_API_KEYS_PER_USER) {
+        return [null, new Error(`لا يمكن إنشاء أكثر من ${MAX_API_KEYS_PER_USER} مفتاح API`)];
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const [apiKey, createError] = await ApiKeysService.create({
+        user_id: userID,
+        name: options.name,
+        prefix: key.substring(0, API_KEY_PREFIX.length + 8),
+        key_hash: hashApiKey(key),
+        permissions: [...new Set(options.permissions || [])],
+        expires_at: options.expiresAt || null
+    });
+    if (createError || !apiKey) {
+        return [null, createError || new Error('فشل في إنشاء مفتاح API')];
+    }
+
+    return [{ key, apiKey }, null];
+}
+
+/**
+ * التحقق من مفتاح API وتسجيل آخر استخدام له
+ * @param key - المفتاح الكامل من هيدر Authorization
+ * @param ip - عنوان IP للطلب
+ * @returns [apiKey, error]
+ */
+export async function authenticateApiKey(key: string, ip?: string): ServiceResult<ApiKeyData> {
+    const [apiKey, error] = await ApiKeysService.getByHash(hashApiKey(key));
+    if (error) {
+        return [null, error];
+    }
+    if (!apiKey || (apiKey.expires_at && new Date() > new Date(apiKey.expires_at))) {
+        return [null, new Error(INVALID_API_KEY_MESSAGE)];
+    }
+
+    // تحديث وقت آخر استخدام (بدون انتظار، ومرة واحدة كل فترة لتقليل الكتابة)
+    const lastUsedAt = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0;
+    if (Date.now() - lastUsedAt > LAST_USED_UPDATE_INTERVAL || apiKey.last_used_ip !== ip) {
+        ApiKeysService.touch(apiKey.id!, ip);
+    }
+
+    return [apiKey, null];
+}
+
+/**
+ * تقييد هوية صاحب المفتاح بصلاحيات المفتاح
+ * - المالك: يُعامل كمشرف بصلاحيات المفتاح فقط (المفتاح لا يمنح صلاحيات المالك الكاملة)
+ * - المشرف: تقاطع صلاحياته الحالية مع صلاحيات المفتاح
+ * - المستخدم العادي: نفس صلاحياته
+ * @param owner - هوية صاحب المفتاح
+ * @param apiKey - بيانات المفتاح
+ */
+export function applyApiKeyScope(owner: AuthenticatedUser, apiKey: ApiKeyData): AuthenticatedUser {
+    const scoped: AuthenticatedUser = {
+        ...owner,
+        credentialType: 'api_key',
+        apiKeyId: apiKey.id
+    };
+
+    if (owner.role === 'owner') {
+        return { ...scoped, role: 'admin', permissions: apiKey.permissions || [] };
+    }
+
+    if (owner.role === 'admin') {
+        const ownerPermissions = Array.isArray(owner.permissions) ? owner.permissions : [];
+        return { ...scoped, permissions: intersectPermissions(apiKey.permissions || [], ownerPermissions) };
+    }
+
+    return scoped;
+}
@@ -1,24 +1,275 @@
 import jwt, { JwtPayload, SignOptions, Secret } from 'jsonwebtoken';
-import { JWT_SECRET, JWT_EXPIRES_IN, JWT_REFRESH_EXPIRES_IN } from '../../../config/security.config.js';
+import { Request } from 'express';
+import { randomUUID } from 'crypto';
+import ms from 'ms';
+import { JWT_SECRET, JWT_EXPIRES_IN, JWT_REFRESH_EXPIRES_IN, JWT_ACCEPT_HS256 } from '../../../config/security.config.js';
+import { TokensService, TokenType, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import type { TokenData } from '../../database/postgreSQL/services/index.js';
+import randomString from '../../../utils/randomString.util.js';
+import { getSigningKey, getVerificationKey } from './jwtKeys.service.js';
+import { recordSecurityEvent } from './securityEvents.service.js';
 
 export interface TokenPayload {
     userID: string;
+    impersonatedBy?: string; // معرف المالك في توكنات انتحال الهوية
+    sid?: string; // معرف الجلسة (عائلة التوكنات) - ثابت عبر عمليات التدوير
     iat?: number;
     exp?: number;
 }
 
-export function generateToken(data: Omit<TokenPayload, 'iat' | 'exp'>, refreshToken: boolean = false): string {
-    const expiresIn = refreshToken ? JWT_REFRESH_EXPIRES_IN : JWT_EXPIRES_IN;
+export interface IssuedTokens {
+    token: string;
+    refreshToken: string;
+}
+
+export interface RequestMetadata {
+    ip_address?: string;
+    user_agent?: string;
+}
+
+export interface IssueTokensOptions extends RequestMetadata {
+    familyId?: string; // يُمرر عند التدوير للحفاظ على نفس الجلسة، وإلا تبدأ عائلة جديدة
+}
+
+export function generateToken(data: Omit<TokenPayload, 'iat' | 'exp'>, refreshToken: boolean = false, customExpiresIn?: string): string {
+    const expiresIn = customExpiresIn || (refreshToken ? JWT_REFRESH_EXPIRES_IN : JWT_EXPIRES_IN);
+    const signingKey = getSigningKey();
     const options: SignOptions = {
         expiresIn: expiresIn as SignOptions['expiresIn'],
+        // معرف فريد حتى لا يتطابق توكنان صادران في نفس الثانية (مهم عند التدوير)
+        jwtid: randomUUID(),
+        algorithm: signingKey.alg,
+        keyid: signingKey.kid,
     };
-    return jwt.sign(data, JWT_SECRET as Secret, options);
+    return jwt.sign(data, signingKey.privateKey!, options);
 }
 
+/**
+ * التحقق من التوكن: بالمفتاح العام المطابق لـ kid، أو بـ JWT_SECRET للتوكنات القديمة (HS256) خلال فترة الانتقال
+ * الخوارزمية مقيدة بنوع المفتاح لمنع الخلط بين الخوارزميات
+ */
 export function validateToken(token: string): TokenPayload | null {
     try {
-        return jwt.verify(token, JWT_SECRET) as TokenPayload;
+        const decoded = jwt.decode(token, { complete: true });
+        if (!decoded) {
+            return null;
+        }
+
+        if (decoded.header.alg === 'HS256') {
+            if (!JWT_ACCEPT_HS256) {
+                return null;
+            }
+            return jwt.verify(token, JWT_SECRET as Secret, { algorithms: ['HS256'] }) as TokenPayload;
+        }
+
+        const key = getVerificationKey(decoded.header.kid);
+        if (!key) {
+            return null;
+        }
+        return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as TokenPayload;
     } catch (error) {
         return null;
     }
 }
+
+/**
+ * استخراج التوكن من هيدر Authorization
+ * @param req - الطلب
+ * @returns التوكن أو null إذا لم يوجد
+ */
+export function extractBearerToken(req: Request): string | null {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return null;
+    }
+    return authHeader.replace('Bearer ', '');
+}
+
+/**
+ * استخراج بيانات الجهاز من الطلب (IP و User-Agent) لتسجيلها مع التوكنات
+ * @param req - الطلب
+ */
+export function getRequestMetadata(req: Request): RequestMetadata {
+    return {
+        ip_address: req.ip,
+        user_agent: req.headers['user-agent']
+    };
+}
+
+/**
+ * توليد زوج توكنات (access + refresh) وحفظهما في قاعدة البيانات
+ * @param userID - معرف المستخدم
+ * @param options - معرف العائلة وبيانات الجهاز
+ * @returns [tokens, error]
+ */
+export async function issueTokens(userID: string, options: IssueTokensOptions = {}): Promise<[IssuedTokens | null, Error | null]> {
+    const { familyId = randomUUID(), ip_address, user_agent } = options;
+    const token = generateToken({ userID, sid: familyId }, false);
+    const refreshToken = generateToken({ userID, sid: familyId }, true);
+
+    const [, accessError] = await TokensService.create({
+        token,
+        type: TokenType.ACCESS,
+        user_id: userID,
+        family_id: familyId,
+        refresh_token: refreshToken,
+        expires_at: new Date(Date.now() + ms(JWT_EXPIRES_IN as ms.StringValue)),
+        used: false,
+        ip_address,
+        user_agent
+    });
+    if (accessError) {
+        return [null, accessError];
+    }
+
+    const [, refreshError] = await TokensService.create({
+        token: refreshToken,
+        type: TokenType.REFRESH,
+        user_id: userID,
+        family_id: familyId,
+        expires_at: new Date(Date.now() + ms(JWT_REFRESH_EXPIRES_IN as ms.StringValue)),
+        used: false,
+        ip_address,
+        user_agent
+    });
+    if (refreshError) {
+        return [null, refreshError];
+    }
+
+    return [{ token, refreshToken }, null];
+}
+
+/**
+ * إصدار توكن لمرة واحدة (إعادة تعيين كلمة المرور، تفعيل البريد...)
+ * يتم إلغاء أي توكنات سابقة من نفس النوع للمستخدم
+ * @param userID - معرف المستخدم
+ * @param type - نوع التوكن
+ * @param expiresIn - مدة الصلاحية (مثال: '1h')
+ * @returns [token, error]
+ */
+export async function issueOneTimeToken(userID: string, type: TokenType, expiresIn: string): Promise<[string | null, Error | null]> {
+    await TokensService.deleteByUserId(userID, [type]);
+
+    const token = randomString.generateRandomString(32);
+    const [, createError] = await TokensService.create({
+        token,
+        type,
+        user_id: userID,
+        expires_at: new Date(Date.now() + ms(expiresIn as ms.StringValue)),
+        used: false
+    });
+    if (createError) {
+        return [null, createError];
+    }
+
+    return [token, null];
+}
+
+/**
+ * استهلاك توكن لمرة واحدة: التحقق من النوع والصلاحية ثم وضع علامة الاستخدام
+ * @param token - قيمة التوكن
+ * @param type - النوع المتوقع
+ * @returns [tokenData, error]
+ */
+export async function consumeOneTimeToken(token: string, type: TokenType): Promise<[TokenData | null, Error | null]> {
+    const [tokenData, validateError] = await TokensService.validateToken(token);
+    if (validateError || !tokenData || tokenData.type !== type || !tokenData.user_id) {
+        return [null, new Error('الرابط غير صالح أو منتهي الصلاحية')];
+    }
+
+    const [markResult, markError] = await TokensService.markAsUsed(tokenData.id!);
+    if (markError) {
+        return [null, markError];
+    }
+    // تم استخدامه بطلب متزامن آخر
+    if (!markResult || markResult.changedRows === 0) {
+        return [null, new Error('الرابط غير صالح أو منتهي الصلاحية')];
+    }
+
+    return [tokenData, null];
+}
+
+/**
+ * إلغاء عائلة التوكنات بالكامل (كل توكنات access/refresh الناتجة عن نفس تسجيل الدخول)
+ * التوكنات القديمة بدون family_id يتم إلغاؤها عبر refresh token المرتبط بها
+ * @param tokenData - أي توكن من العائلة
+ * @returns [deletedCount, error]
+ */
+export async function revokeTokenFamily(tokenData: TokenData): Promise<[number | null, Error | null]> {
+    if (tokenData.family_id) {
+        return TokensService.deleteByFamilyId(tokenData.family_id);
+    }
+    const refreshToken = tokenData.type === TokenType.REFRESH ? tokenData.token : tokenData.refresh_token;
+    if (refreshToken) {
+        return TokensService.deleteByRefreshToken(refreshToken);
+    }
+    return [0, null];
+}
+
+/**
+ * تدوير refresh token: وضع علامة الاستخدام على القديم (ذرياً) ثم إصدار زوج جديد في نفس العائلة
+ * إعادة استخدام توكن تم تدويره مسبقاً = سرقة محتملة، فتُلغى العائلة بالكامل
+ * @param refreshToken - قيمة الـ refresh token
+ * @param metadata - بيانات الجهاز
+ * @returns [tokens, error]
+ */
+export async function rotateRefreshToken(refreshToken: string, metadata: RequestMetadata = {}): Promise<[IssuedTokens | null, Error | null]> {
+    const [tokenResult, tokenError] = await TokensService.getByToken(refreshToken);
+    if (tokenError) {
+        return [null, tokenError];
+    }
+    if (!tokenResult || tokenResult.type !== TokenType.REFRESH) {
+        return [null, new Error('Invalid refresh token')];
+    }
+
+    // نلغي العائلة بالكامل حتى يضطر المهاجم والمستخدم لتسجيل الدخول من جديد
+    if (tokenResult.used) {
+        console.warn(`🚨 Refresh token reuse detected for user ${tokenResult.user_id}, revoking token family ${tokenResult.family_id}`);
+        await revokeTokenFamily(tokenResult);
+        recordSecurityEvent(SecurityEventType.TOKENS_REVOKED, {
+            userID: tokenResult.user_id,
+            provider: 'refresh_token',
+            details: { reason: 'refresh_token_reuse', sessionId: tokenResult.family_id },
+            ...metadata
+        });
+        return [null, new Error('Refresh token reuse detected, please log in again')];
+    }
+
+    const decoded = validateToken(refreshToken);
+    if (!decoded || (tokenResult.user_id && tokenResult.user_id !== decoded.userID)) {
+        return [null, new Error('Invalid refresh token')];
+    }
+
+    const [markResult, markError] = await TokensService.markAsUsed(tokenResult.id!);
+    if (markError) {
+        return [null, markError];
+    }
+    if (!markResult || markResult.changedRows === 0) {
+        // طلب متزامن آخر استخدم نفس التوكن
+        console.warn(`🚨 Concurrent refresh token reuse detected for user ${tokenResult.user_id}, revoking token family ${tokenResult.family_id}`);
+        await revokeTokenFamily(tokenResult);
+        recordSecurityEvent(SecurityEventType.TOKENS_REVOKED, {
+            userID: tokenResult.user_id,
+            provider: 'refresh_token',
+            details: { reason: 'refresh_token_reuse', sessionId: tokenResult.family_id },
+            ...metadata
+        });
+        return [null, new Error('Refresh token reuse detected, please log in again')];
+    }
+
+    const [tokens, issueError] = await issueTokens(decoded.userID, {
+        familyId: tokenResult.family_id,
+        ...metadata
+    });
+    if (issueError) {
+        return [null, issueError];
+    }
+
+    recordSecurityEvent(SecurityEventType.TOKEN_REFRESHED, {
+        userID: decoded.userID,
+        provider: 'refresh_token',
+        details: { sessionId: tokenResult.family_id },
+        ...metadata
+    });
+    return [tokens, null];
+}
@@ -0,0 +1,246 @@
+import { Request, Response, CookieOptions } from 'express';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import ms from 'ms';
+import { BaseIDCache } from '../../cache/redis/index.js';
+import { JWT_EXPIRES_IN, JWT_REFRESH_EXPIRES_IN } from '../../../config/security.config.js';
+import {
+    COOKIE_SECRET,
+    AUTH_COOKIES_ENABLED,
+    AUTH_COOKIE_DOMAIN,
+    AUTH_COOKIE_SAME_SITE,
+    AUTH_COOKIE_SECURE
+} from '../../../config/sessionCookies.config.js';
+import { extractBearerToken, getRequestMetadata, rotateRefreshToken, validateToken, IssuedTokens } from './auth.service.js';
+
+/**
+ * وضع الكوكيز للمصادقة - Cookie session mode
+ * عند تفعيل AUTH_COOKIES_ENABLED وإرسال العميل للهيدر "X-Auth-Mode: cookie":
+ * - توكنات access و refresh في كوكيز httpOnly بدلاً من جسم الرد (حماية من XSS)
+ * - تجديد صامت لتوكن الـ access من كوكي الـ refresh
+ * - حماية CSRF بنمط double-submit: كوكي csrf_token مقروء + هيدر X-CSRF-Token بنفس القيمة
+ */
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+export const AUTH_MODE_HEADER = 'x-auth-mode';
+
+/**
+ * التوكنات كما تُضاف إلى جسم الرد
+ */
+export interface TokenDelivery {
+    token?: string;
+    refreshToken?: string;
+    csrfToken?: string;
+    cookieMode?: boolean;
+}
+
+// الطلبات المتزامنة من نفس المتصفح (نفس كوكي الـ refresh ونفس كوكي CSRF) تحصل على نفس توكن الـ access الجديد
+// بدلاً من اكتشاف إعادة استخدام خاطئ. لا يُخزن توكن الـ refresh الجديد: أي إعادة استخدام من جهاز آخر تُدوّر وتُكتشف
+const SILENT_REFRESH_REUSE_WINDOW = 30; // ثانية
+
+const recentRefreshCache = new BaseIDCache<string>('auth_cookie_refresh:');
+const pendingRefreshes = new Map<string, Promise<[IssuedTokens | null, Error | null]>>();
+
+const baseCookieOptions = (): CookieOptions => ({
+    secure: AUTH_COOKIE_SECURE,
+    sameSite: AUTH_COOKIE_SAME_SITE,
+    domain: AUTH_COOKIE_DOMAIN || undefined,
+    path: '/'
+});
+
+// التوقيع يشمل معرف الجلسة: توكن CSRF صادر لجلسة لا يُقبل مع كوكيز جلسة أخرى
+const signCsrfNonce = (nonce: string, sessionId: string): string =>
+    createHmac('sha256', COOKIE_SECRET).update(`${sessionId}.${nonce}`).digest('base64url');
+
+/**
+ * إنشاء توكن CSRF موقع (nonce.signature) حتى لا يُقبل كوكي مزروع بقيمة عشوائية
+ * @param sessionId - معرف الجلسة (عائلة توكن الـ refresh)
+ */
+const generateCsrfToken = (sessionId: string): string => {
+    const nonce = randomBytes(24).toString('base64url');
+    return `${nonce}.${signCsrfNonce(nonce, sessionId)}`;
+};
+
+const isSignedCsrfToken = (value: string | null | undefined, sessionId: string): boolean => {
+    if (!value) return false;
+    const [nonce, signature] = value.split('.');
+    if (!nonce || !signature) return false;
+    const expected = Buffer.from(signCsrfNonce(nonce, sessionId));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * معرف الجلسة من توكن (فارغ للتوكنات القديمة الصادرة قبل إضافته أو للتوكن غير الصالح)
+ */
+const getTokenSessionId = (token?: string | null): string => (token && validateToken(token)?.sid) || '';
+
+/**
+ * هل طلب العميل وضع الكوكيز؟
+ * @param req - الطلب
+ */
+export function isCookieModeRequest(req: Request): boolean {
+    return AUTH_COOKIES_ENABLED && String(req.headers[AUTH_MODE_HEADER] || '').toLowerCase() === 'cookie';
+}
+
+/**
+ * توكن الـ access من الكوكي (null إذا كان الوضع غير مفعل)
+ */
+export function getAccessTokenCookie(req: Request): string | null {
+    return AUTH_COOKIES_ENABLED ? req.cookies?.[ACCESS_TOKEN_COOKIE] || null : null;
+}
+
+/**
+ * توكن الـ refresh من الكوكي (null إذا كان الوضع غير مفعل)
+ */
+export function getRefreshTokenCookie(req: Request): string | null {
+    return AUTH_COOKIES_ENABLED ? req.cookies?.[REFRESH_TOKEN_COOKIE] || null : null;
+}
+
+/**
+ * هل يحمل الطلب كوكيز مصادقة؟
+ */
+export function hasAuthCookies(req: Request): boolean {
+    return Boolean(getAccessTokenCookie(req) || getRefreshTokenCookie(req));
+}
+
+/**
+ * توكن الـ access الحالي: من هيدر Authorization أولاً ثم من الكوكي
+ * @param req - الطلب
+ */
+export function extractAccessToken(req: Request): string | null {
+    return extractBearerToken(req) || getAccessTokenCookie(req);
+}
+
+/**
+ * التحقق من CSRF (double-submit): الهيدر يطابق الكوكي والكوكي موقع من الخادم لجلسة كوكي الـ refresh
+ * @param req - الطلب
+ */
+export function isValidCsrfRequest(req: Request): boolean {
+    const cookieValue = req.cookies?.[CSRF_COOKIE];
+    const headerValue = req.headers[CSRF_HEADER];
+    if (typeof headerValue !== 'string' || !cookieValue || headerValue !== cookieValue) {
+        return false;
+    }
+    return isSignedCsrfToken(cookieValue, getTokenSessionId(getRefreshTokenCookie(req) || getAccessTokenCookie(req)));
+}
+
+/**
+ * تعيين كوكي توكن الـ access فقط
+ */
+function setAccessTokenCookie(res: Response, token: string): void {
+    res.cookie(ACCESS_TOKEN_COOKIE, token, {
+        ...baseCookieOptions(),
+        httpOnly: true,
+        maxAge: ms(JWT_EXPIRES_IN as ms.StringValue)
+    });
+}
+
+/**
+ * تعيين كوكيز التوكنات وكوكي CSRF
+ * يُحتفظ بتوكن CSRF الحالي إن كان صالحاً لنفس الجلسة حتى لا تفشل الطلبات الجارية بعد التجديد
+ * (التدوير يحافظ على عائلة التوكنات، أما تسجيل الدخول الجديد فيحصل على توكن CSRF جديد)
+ * @returns توكن CSRF
+ */
+export function setAuthCookies(req: Request, res: Response, tokens: IssuedTokens): string {
+    const sessionId = getTokenSessionId(tokens.refreshToken);
+    const existingCsrf = req.cookies?.[CSRF_COOKIE];
+    const csrfToken = isSignedCsrfToken(existingCsrf, sessionId) ? existingCsrf : generateCsrfToken(sessionId);
+    const refreshMaxAge = ms(JWT_REFRESH_EXPIRES_IN as ms.StringValue);
+
+    setAccessTokenCookie(res, tokens.token);
+    res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+        ...baseCookieOptions(),
+        httpOnly: true,
+        maxAge: refreshMaxAge
+    });
+    // مقروء من JavaScript حتى ترسله الواجهة في هيدر X-CSRF-Token
+    res.cookie(CSRF_COOKIE, csrfToken, {
+        ...baseCookieOptions(),
+        httpOnly: false,
+        maxAge: refreshMaxAge
+    });
+
+    return csrfToken;
+}
+
+/**
+ * حذف كوكيز المصادقة (تسجيل الخروج أو refresh غير صالح)
+ */
+export function clearAuthCookies(res: Response): void {
+    if (!AUTH_COOKIES_ENABLED) return;
+    [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_COOKIE].forEach(name => res.clearCookie(name, baseCookieOptions()));
+}
+
+/**
+ * تسليم التوكنات للعميل: كوكيز في وضع الكوكيز، أو في جسم الرد
+ * @returns الحقول المضافة إلى جسم الرد
+ */
+export function deliverTokens(req: Request, res: Response, tokens: IssuedTokens): TokenDelivery {
+    if (!isCookieModeRequest(req)) {
+        return { token: tokens.token, refreshToken: tokens.refreshToken };
+    }
+
+    const csrfToken = setAuthCookies(req, res, tokens);
+    return { cookieMode: true, csrfToken };
+}
+
+/**
+ * تجديد صامت: تدوير كوكي الـ refresh وتعيين كوكيز جديدة عند انتهاء توكن الـ access
+ * الطلبات المتزامنة من نفس المتصفح خلال SILENT_REFRESH_REUSE_WINDOW تحصل على توكن الـ access الجديد فقط
+ * (كوكي الـ refresh الجديد وصل للمتصفح مع رد الطلب الأول)
+ * @param req - الطلب
+ * @param res - الرد (لتعيين الكوكيز الجديدة)
+ * @returns توكن الـ access الجديد أو null
+ */
+export async function refreshAuthCookies(req: Request, res: Response): Promise<string | null> {
+    const refreshToken = getRefreshTokenCookie(req);
+    if (!refreshToken) {
+        return null;
+    }
+
+    // نافذة السماح مرتبطة بالجهاز: بدون كوكي CSRF صالح يتم التدوير دائماً (واكتشاف إعادة الاستخدام)
+    const csrfToken = req.cookies?.[CSRF_COOKIE];
+    const deviceKey = isSignedCsrfToken(csrfToken, getTokenSessionId(refreshToken))
+        ? createHash('sha256').update(`${refreshToken}:${csrfToken}`).digest('hex')
+        : null;
+
+    const recentToken = deviceKey ? await recentRefreshCache.get(deviceKey) : null;
+    if (recentToken) {
+        setAccessTokenCookie(res, recentToken);
+        req.cookies[ACCESS_TOKEN_COOKIE] = recentToken;
+        return recentToken;
+    }
+
+    let pending = deviceKey ? pendingRefreshes.get(deviceKey) : undefined;
+    if (!pending) {
+        pending = rotateRefreshToken(refreshToken, getRequestMetadata(req));
+        if (deviceKey) {
+            pendingRefreshes.set(deviceKey, pending);
+        }
+    }
+
+    let tokens: IssuedTokens;
+    try {
+        const [rotated, rotateError] = await pending;
+        if (rotateError || !rotated) {
+            clearAuthCookies(res);
+            return null;
+        }
+        tokens = rotated;
+        if (deviceKey) {
+            await recentRefreshCache.setAsync(deviceKey, rotated.token, SILENT_REFRESH_REUSE_WINDOW);
+        }
+    } finally {
+        if (deviceKey) {
+            pendingRefreshes.delete(deviceKey);
+        }
+    }
+
+    setAuthCookies(req, res, tokens);
+    // بقية الطلب الحالي ترى التوكن الجديد (مثل تمييز الجلسة الحالية)
+    req.cookies[ACCESS_TOKEN_COOKIE] = tokens.token;
+    return tokens.token;
+}
@@ -0,0 +1,114 @@
+import emailHelper from '../../../utils/emailHelper.util.js';
+import { FRONTEND_URL } from '../../../config/server.config.js';
+import { EMAIL_VERIFICATION_EXPIRES_IN } from '../../../config/security.config.js';
+import { TokenType } from '../../database/postgreSQL/services/index.js';
+import { issueOneTimeToken } from './auth.service.js';
+
+/**
+ * رسائل البريد الإلكتروني الخاصة بالمصادقة
+ * Authentication related emails
+ */
+
+/**
+ * إرسال رابط إعادة تعيين كلمة المرور
+ * @param email - البريد الإلكتروني للمستخدم
+ * @param token - توكن إعادة التعيين
+ * @param expiresIn - مدة صلاحية الرابط (مثال: '1h')
+ */
+export const sendPasswordResetEmail = async (email: string, token: string, expiresIn: string): Promise<boolean> => {
+    const link = `${FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+    return emailHelper.sendEmail(
+        email,
+        'Reset your password',
+        `We received a request to reset your password.\n\n` +
+        `Open the link below to choose a new password (valid for ${expiresIn}):\n${link}\n\n` +
+        `If you did not request this, you can safely ignore this email.`
+    );
+};
+
+/**
+ * إرسال رابط تفعيل البريد الإلكتروني
+ * @param email - البريد الإلكتروني للمستخدم
+ * @param token - توكن التفعيل
+ * @param expiresIn - مدة صلاحية الرابط (مثال: '24h')
+ */
+export const sendVerificationEmail = async (email: string, token: string, expiresIn: string): Promise<boolean> => {
+    const link = `${FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+    return emailHelper.sendEmail(
+        email,
+        'Verify your email address',
+        `Welcome! Please confirm your email address by opening the link below (valid for ${expiresIn}):\n${link}\n\n` +
+        `If you did not create an account, you can safely ignore this email.`
+    );
+};
+
+/**
+ * إرسال رابط تسجيل الدخول بدون كلمة مرور
+ * @param email - البريد الإلكتروني للمستخدم
+ * @param token - توكن تسجيل الدخول
+ * @param expiresIn - مدة صلاحية الرابط (مثال: '15m')
+ */
+export const sendMagicLinkEmail = async (email: string, token: string, expiresIn: string): Promise<boolean> => {
+    const link = `${FRONTEND_URL}/magic-link?token=${encodeURIComponent(token)}`;
+    return emailHelper.sendEmail(
+        email,
+        'Your sign-in link',
+        `Open the link below to sign in to your account (valid for ${expiresIn}, single use):\n${link}\n\n` +
+        `If you did not request this, you can safely ignore this email.`
+    );
+};
+
+/**
+ * تنبيه صاحب الحساب بقفل حسابه مؤقتاً بعد محاولات دخول فاشلة متكررة
+ * @param email - البريد الإلكتروني للمستخدم
+ * @param failures - عدد المحاولات الفاشلة
+ * @param lockedUntil - موعد انتهاء القفل
+ * @param ip - عنوان IP لآخر محاولة
+ */
+export const sendAccountLockedEmail = async (email: string, failures: number, lockedUntil: Date | null, ip?: string): Promise<boolean> => {
+    const link = `${FRONTEND_URL}/forgot-password`;
+    return emailHelper.sendEmail(
+        email,
+        'Your account was temporarily locked',
+        `We detected ${failures} failed sign-in attempts on your account` + (ip ? ` (last one from IP ${ip})` : '') + `.\n\n` +
+        `To protect you, sign-in with a password is blocked` + (lockedUntil ? ` until ${lockedUntil.toISOString()}` : ' for a short time') + `.\n\n` +
+        `If this was not you, we recommend resetting your password:\n${link}`
+    );
+};
+
+/**
+ * إرسال دعوة لإنشاء حساب
+ * @param email - البريد الإلكتروني المدعو
+ * @param token - توكن الدعوة
+ * @param expiresIn - مدة صلاحية الدعوة (مثال: '7d')
+ */
+export const sendInvitationEmail = async (email: string, token: string, expiresIn: string): Promise<boolean> => {
+    const link = `${FRONTEND_URL}/register?invite=${encodeURIComponent(token)}`;
+    return emailHelper.sendEmail(
+        email,
+        'You have been invited',
+        `You have been invited to create an account.\n\n` +
+        `Open the link below to sign up with this email address (valid for ${expiresIn}, single use):\n${link}\n\n` +
+        `If you were not expecting this invitation, you can safely ignore this email.`
+    );
+};
+
+/**
+ * إصدار توكن تفعيل جديد وإرساله للمستخدم
+ * @param userID - معرف المستخدم
+ * @param email - البريد الإلكتروني للمستخدم
+ * @returns [sent, error]
+ */
+export const startEmailVerification = async (userID: string, email: string): Promise<[boolean, Error | null]> => {
+    try {
+        const [verifyToken, tokenError] = await issueOneTimeToken(userID, TokenType.VERIFY_EMAIL, EMAIL_VERIFICATION_EXPIRES_IN);
+        if (tokenError) {
+            return [false, tokenError];
+        }
+
+        await sendVerificationEmail(email, verifyToken!, EMAIL_VERIFICATION_EXPIRES_IN);
+        return [true, null];
+    } catch (error) {
+        return [false, error as Error];
+    }
+};
@@ -0,0 +1,102 @@
+import { UsersService, UserIdentitiesService, WebAuthnCredentialsService, AuthProvider } from '../../database/postgreSQL/services/index.js';
+import { comparePassword } from '../../../utils/hash.util.js';
+import { getOAuthProvider, OAuthCredentials } from '../providers/index.js';
+
+/**
+ * طرق تسجيل الدخول المرتبطة بالحساب (كلمة المرور + الهويات الخارجية)
+ * مفاتيح المرور لا تُحسب كطريقة أساسية لأنها لا تصلح لإعادة التحقق من الهوية
+ */
+
+export interface ReauthenticationData {
+    currentPassword?: string;
+    googleCredential?: string; // id_token جديد من Google (اختصار لـ oauth: { provider: 'google', credential })
+    oauth?: OAuthCredentials & { provider: string }; // تسجيل دخول جديد عبر أي مزود مرتبط
+}
+
+export interface LoginMethods {
+    password: boolean;
+    identities: { provider: string; email?: string; linked_at?: Date }[];
+    passkeys: number;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+export const REAUTHENTICATION_FAILED_MESSAGE = 'فشل التحقق من الهوية، يرجى إدخال كلمة المرور الحالية أو تسجيل الدخول عبر حساب مرتبط';
+
+/**
+ * الحصول على طرق تسجيل الدخول للمستخدم
+ * @param userID - معرف المستخدم
+ * @returns [methods, error]
+ */
+export async function getLoginMethods(userID: string): ServiceResult<LoginMethods> {
+    const [user, userError] = await UsersService.getById(userID, true);
+    if (userError || !user) {
+        return [null, userError || new Error('المستخدم غير موجود')];
+    }
+
+    // المستخدمون القدامى: ربط google_id بجدول الهويات قبل القراءة
+    if (user.google_id) {
+        await UsersService.getByIdentity(AuthProvider.GOOGLE, user.google_id);
+    }
+
+    const [identities, identitiesError] = await UserIdentitiesService.getByUserId(userID);
+    if (identitiesError) {
+        return [null, identitiesError];
+    }
+
+    const [passkeys] = await WebAuthnCredentialsService.getByUserId(userID);
+
+    return [{
+        password: Boolean(user.password_hash),
+        identities: (identities || []).map(i => ({ provider: i.provider, email: i.email, linked_at: i.created_at })),
+        passkeys: (passkeys || []).length
+    }, null];
+}
+
+/**
+ * عدد طرق تسجيل الدخول الأساسية (كلمة المرور + الهويات)
+ * @param methods - طرق تسجيل الدخول
+ */
+export function countPrimaryLoginMethods(methods: LoginMethods): number {
+    return (methods.password ? 1 : 0) + methods.identities.length;
+}
+
+/**
+ * إعادة التحقق من هوية المستخدم قبل العمليات الحساسة (ربط أو إلغاء ربط طريقة تسجيل دخول)
+ * @param userID - معرف المستخدم
+ * @param data - كلمة المرور الحالية أو بيانات تسجيل دخول جديدة من مزود مرتبط
+ * @returns [verified, error]
+ */
+export async function verifyReauthentication(userID: string, data: ReauthenticationData): ServiceResult<boolean> {
+    const { currentPassword, googleCredential } = data || {};
+    const oauth = googleCredential ? { provider: AuthProvider.GOOGLE as string, credential: googleCredential } : data?.oauth;
+
+    if (currentPassword) {
+        const [user, userError] = await UsersService.getById(userID, true);
+        if (userError) {
+            return [null, userError];
+        }
+        if (!user?.password_hash) {
+            return [false, null];
+        }
+        return [await comparePassword(currentPassword, user.password_hash), null];
+    }
+
+    if (oauth?.provider) {
+        const provider = getOAuthProvider(oauth.provider);
+        if (!provider) {
+            return [false, null];
+        }
+        const [profile, verifyError] = await provider.verify({ credential: oauth.credential, code: oauth.code });
+        if (verifyError || !profile) {
+            return [false, null];
+        }
+        const [owner, ownerError] = await UsersService.getByIdentity(provider.name, profile.provider_user_id);
+        if (ownerError) {
+            return [null, ownerError];
+        }
+        return [owner?.id === userID, null];
+    }
+
+    return [false, null];
+}
@@ -0,0 +1,150 @@
+import ms from 'ms';
+import { IMPERSONATION_EXPIRES_IN } from '../../../config/security.config.js';
+import { ownerIDs } from '../../../config/owners.config.js';
+import { ImpersonationSessionsService, TokensService, TokenType, UsersService } from '../../database/postgreSQL/services/index.js';
+import type { ImpersonationSessionData } from '../../database/postgreSQL/services/index.js';
+import { generateToken, RequestMetadata } from './auth.service.js';
+
+/**
+ * انتحال الهوية - Owner impersonation ("log in as user")
+ * المالك يحصل على توكن access قصير العمر باسم المستخدم (بدون refresh) يحمل impersonatedBy،
+ * وكل جلسة تُسجل في impersonation_sessions مع وقت البدء والانتهاء
+ */
+
+export type ImpersonationStatus = 'active' | 'ended' | 'expired';
+
+export interface PublicImpersonationSession {
+    id: string;
+    impersonatorId: string;
+    targetUserId: string;
+    reason: string | null;
+    startedAt: Date;
+    expiresAt: Date;
+    endedAt: Date | null;
+    status: ImpersonationStatus;
+    ipAddress: string | null;
+    userAgent: string | null;
+}
+
+export interface StartedImpersonation {
+    token: string;
+    expiresIn: string;
+    session: PublicImpersonationSession;
+}
+
+/**
+ * حالة الجلسة: منتهية يدوياً، منتهية الصلاحية، أو نشطة
+ */
+const getImpersonationStatus = (session: ImpersonationSessionData): ImpersonationStatus => {
+    if (session.ended_at) return 'ended';
+    if (new Date(session.expires_at).getTime() <= Date.now()) return 'expired';
+    return 'active';
+};
+
+/**
+ * تحويل سجل الجلسة إلى الشكل المعروض في الـ API
+ */
+export function toPublicImpersonationSession(session: ImpersonationSessionData): PublicImpersonationSession {
+    return {
+        id: session.id!,
+        impersonatorId: session.impersonator_id,
+        targetUserId: session.target_user_id,
+        reason: session.reason || null,
+        startedAt: session.started_at,
+        expiresAt: session.expires_at,
+        endedAt: session.ended_at || null,
+        status: getImpersonationStatus(session),
+        ipAddress: session.ip_address || null,
+        userAgent: session.user_agent || null
+    };
+}
+
+/**
+ * بدء جلسة انتحال هوية
+ * @param impersonatorID - معرف المالك
+ * @param targetUserID - معرف المستخدم المستهدف
+ * @param reason - سبب الدخول (للتدقيق)
+ * @param metadata - بيانات الجهاز
+ * @returns [impersonation, error]
+ */
+export async function startImpersonation(
+    impersonatorID: string,
+    targetUserID: string,
+    reason: string | null,
+    metadata: RequestMetadata = {}
+): Promise<[StartedImpersonation | null, Error | null]> {
+    if (impersonatorID === targetUserID) {
+        return [null, new Error('لا يمكنك انتحال هوية حسابك')];
+    }
+
+    // لا يمكن الدخول بحساب مالك آخر (صلاحياته لا تُمنح عبر الانتحال)
+    if (ownerIDs.includes(targetUserID)) {
+        return [null, new Error('لا يمكن انتحال هوية مالك')];
+    }
+
+    const [user, userError] = await UsersService.getById(targetUserID);
+    if (userError || !user) {
+        return [null, new Error('المستخدم غير موجود')];
+    }
+
+    const startedAt = new Date();
+    const expiresAt = new Date(startedAt.getTime() + ms(IMPERSONATION_EXPIRES_IN as ms.StringValue));
+
+    const [session, sessionError] = await ImpersonationSessionsService.create({
+        impersonator_id: impersonatorID,
+        target_user_id: targetUserID,
+        reason,
+        started_at: startedAt,
+        expires_at: expiresAt,
+        ip_address: metadata.ip_address,
+        user_agent: metadata.user_agent
+    });
+    if (sessionError || !session) {
+        return [null, sessionError || new Error('فشل في بدء جلسة انتحال الهوية')];
+    }
+
+    // معرف الجلسة هو family_id للتوكن، فإنهاء الجلسة يلغي التوكن مباشرة
+    const token = generateToken({ userID: targetUserID, impersonatedBy: impersonatorID }, false, IMPERSONATION_EXPIRES_IN);
+    const [, tokenError] = await TokensService.create({
+        token,
+        type: TokenType.ACCESS,
+        user_id: targetUserID,
+        family_id: session.id,
+        expires_at: expiresAt,
+        used: false,
+        ip_address: metadata.ip_address,
+        user_agent: metadata.user_agent
+    });
+    if (tokenError) {
+        await ImpersonationSessionsService.end(session.id!);
+        return [null, tokenError];
+    }
+
+    console.warn(`🕵️ Owner ${impersonatorID} started impersonating user ${targetUserID} (session ${session.id})`);
+
+    return [{ token, expiresIn: IMPERSONATION_EXPIRES_IN, session: toPublicImpersonationSession(session) }, null];
+}
+
+/**
+ * إنهاء جلسة انتحال الهوية وإلغاء توكنها
+ * @param sessionID - معرف الجلسة (family_id للتوكن)
+ * @returns [session, error]
+ */
+export async function endImpersonation(sessionID: string): Promise<[PublicImpersonationSession | null, Error | null]> {
+    const [, revokeError] = await TokensService.deleteByFamilyId(sessionID);
+    if (revokeError) {
+        return [null, revokeError];
+    }
+
+    const [, endError] = await ImpersonationSessionsService.end(sessionID);
+    if (endError) {
+        return [null, endError];
+    }
+
+    const [session, sessionError] = await ImpersonationSessionsService.getById(sessionID);
+    if (sessionError || !session) {
+        return [null, sessionError || new Error('جلسة انتحال الهوية غير موجودة')];
+    }
+
+    return [toPublicImpersonationSession(session), null];
+}
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+import { createPrivateKey, createPublicKey, generateKeyPairSync, randomBytes, KeyObject, JsonWebKey } from 'crypto';
+import { JWT_KEYS_DIR, JWT_ACTIVE_KEY_ID } from '../../../config/security.config.js';
+import { NODE_ENV } from '../../../config/server.config.js';
+
+/**
+ * مفاتيح توقيع JWT غير المتماثلة - Asymmetric JWT signing keys
+ * كل ملف <kid>.pem في JWT_KEYS_DIR مفتاح: الخاص يوقّع ويتحقق، والعام للتحقق فقط (مفتاح متقاعد)
+ * Each <kid>.pem in JWT_KEYS_DIR is a key: private keys sign and verify, public keys only verify (retired keys)
+ */
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtKey {
+    kid: string;
+    alg: JwtAlgorithm;
+    publicKey: KeyObject;
+    privateKey?: KeyObject;
+}
+
+export interface Jwk extends JsonWebKey {
+    kid: string;
+    alg: JwtAlgorithm;
+    use: 'sig';
+}
+
+/**
+ * تحديد الخوارزمية من نوع المفتاح
+ * jsonwebtoken لا يدعم EdDSA، لذلك المفاتيح المدعومة هي RSA و EC P-256
+ */
+const getAlgorithm = (key: KeyObject, kid: string): JwtAlgorithm => {
+    if (key.asymmetricKeyType === 'rsa') return 'RS256';
+    if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') return 'ES256';
+    throw new Error(`JWT key "${kid}": unsupported key type (use RSA for RS256 or EC P-256 for ES256)`);
+};
+
+/**
+ * قراءة ملف مفتاح: نحاول كمفتاح خاص أولاً ثم كمفتاح عام
+ */
+const loadKeyFile = (filePath: string, kid: string): JwtKey => {
+    const pem = fs.readFileSync(filePath, 'utf8');
+
+    if (pem.includes('PRIVATE KEY')) {
+        const privateKey = createPrivateKey(pem);
+        const publicKey = createPublicKey(privateKey);
+        return { kid, alg: getAlgorithm(publicKey, kid), publicKey, privateKey };
+    }
+
+    const publicKey = createPublicKey(pem);
+    return { kid, alg: getAlgorithm(publicKey, kid), publicKey };
+};
+
+/**
+ * إنشاء مفتاح RSA جديد في بيئة التطوير فقط عند عدم وجود مفاتيح
+ */
+const generateDevelopmentKey = (dir: string): void => {
+    const kid = `${new Date().toISOString().slice(0, 10)}-${randomBytes(3).toString('hex')}`;
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+        path.join(dir, `${kid}.pem`),
+        privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+        { mode: 0o600 }
+    );
+    console.warn(`⚠️ No JWT signing keys found, generated development key "${kid}" in ${dir}`);
+};
+
+/**
+ * تحميل جميع المفاتيح من المجلد
+ */
+const loadKeys = (): Map<string, JwtKey> => {
+    const dir = path.resolve(JWT_KEYS_DIR);
+    const listPemFiles = (): string[] => (fs.existsSync(dir) ? fs.readdirSync(dir).filter(f => f.endsWith('.pem')).sort() : []);
+
+    let files = listPemFiles();
+    if (files.length === 0) {
+        if (NODE_ENV === 'production') {
+            throw new Error(`JWT configuration error: no signing keys found in ${dir}`);
+        }
+        generateDevelopmentKey(dir);
+        files = listPemFiles();
+    }
+
+    const keys = new Map<string, JwtKey>();
+    for (const file of files) {
+        const kid = path.basename(file, '.pem');
+        keys.set(kid, loadKeyFile(path.join(dir, file), kid));
+    }
+    return keys;
+};
+
+const keys = loadKeys();
+
+/**
+ * المفتاح النشط للتوقيع: JWT_ACTIVE_KEY_ID أو أحدث مفتاح خاص حسب ترتيب الأسماء
+ */
+const activeKey: JwtKey = (() => {
+    if (JWT_ACTIVE_KEY_ID) {
+        const key = keys.get(JWT_ACTIVE_KEY_ID);
+        if (!key?.privateKey) {
+            throw new Error(`JWT configuration error: active key "${JWT_ACTIVE_KEY_ID}" not found or has no private key`);
+        }
+        return key;
+    }
+
+    const signingKeys = [...keys.values()].filter(k => k.privateKey);
+    if (signingKeys.length === 0) {
+        throw new Error(`JWT configuration error: no private key available for signing in ${path.resolve(JWT_KEYS_DIR)}`);
+    }
+    return signingKeys[signingKeys.length - 1];
+})();
+
+/**
+ * الحصول على مفتاح التوقيع النشط
+ */
+export function getSigningKey(): JwtKey {
+    return activeKey;
+}
+
+/**
+ * الحصول على مفتاح التحقق حسب kid
+ * @param kid - معرف المفتاح من هيدر التوكن
+ */
+export function getVerificationKey(kid?: string): JwtKey | null {
+    if (!kid) return null;
+    return keys.get(kid) || null;
+}
+
+/**
+ * المفاتيح العامة بصيغة JWKS (لتتحقق الخدمات الأخرى من التوكنات بدون السر)
+ */
+export function getJwks(): { keys: Jwk[] } {
+    return {
+        keys: [...keys.values()].map(key => ({
+            ...(key.publicKey.export({ format: 'jwk' }) as JsonWebKey),
+            kid: key.kid,
+            alg: key.alg,
+            use: 'sig'
+        }))
+    };
+}
@@ -0,0 +1,225 @@
+import ms from 'ms';
+import { redisClient, isRedisAvailable } from '../../cache/redis/index.js';
+import {
+    LOGIN_FAILURE_WINDOW,
+    LOGIN_DELAY_AFTER_FAILURES,
+    LOGIN_LOCKOUT_THRESHOLD,
+    LOGIN_LOCKOUT_DURATION,
+    LOGIN_IP_LOCKOUT_THRESHOLD
+} from '../../../config/security.config.js';
+
+/**
+ * حماية تسجيل الدخول من التخمين (brute force)
+ * تتبع المحاولات الفاشلة لكل بريد ولكل عنوان IP في Redis:
+ * - بعد LOGIN_DELAY_AFTER_FAILURES محاولة: تأخير متزايد بين المحاولات (1s, 2s, 4s... حتى دقيقة)
+ * - بعد LOGIN_LOCKOUT_THRESHOLD محاولة: قفل الحساب مؤقتاً لمدة LOGIN_LOCKOUT_DURATION
+ * - بعد LOGIN_IP_LOCKOUT_THRESHOLD محاولة من نفس العنوان: قفل العنوان مؤقتاً
+ */
+
+interface LoginFailureState {
+    count: number;
+    lastFailureAt: number;
+    lockedUntil?: number;
+}
+
+export interface LoginThrottleResult {
+    allowed: boolean;
+    retryAfter?: number; // بالثواني
+    locked?: boolean;    // قفل مؤقت (وليس مجرد تأخير)
+}
+
+export interface LoginFailureResult {
+    justLocked: boolean; // تم قفل الحساب بسبب هذه المحاولة (لإرسال التنبيه مرة واحدة)
+    failures: number;
+}
+
+const MAX_DELAY = 60 * 1000; // أقصى تأخير بين محاولتين (دقيقة)
+
+// عداد المحاولات يُحدث ذرياً في Redis (hash واحد لكل بريد أو IP) حتى لا تضيع محاولات الطلبات المتزامنة
+const EMAIL_KEY_PREFIX = 'login_attempts:email:';
+const IP_KEY_PREFIX = 'login_attempts:ip:';
+
+// زيادة العداد وتسجيل وقت المحاولة والقفل عند بلوغ الحد في عملية واحدة
+// KEYS[1]: المفتاح - ARGV: now, windowMs, lockoutMs, threshold
+// القفل المنتهي يبدأ العد من جديد
+const INCREMENT_FAILURES_SCRIPT = `
+local now = tonumber(ARGV[1])
+local lockedUntil = tonumber(redis.call('HGET', KEYS[1], 'lockedUntil') or '0')
+if lockedUntil > 0 and lockedUntil <= now then
+    redis.call('DEL', KEYS[1])
+    lockedUntil = 0
+end
+local count = redis.call('HINCRBY', KEYS[1], 'count', 1)
+redis.call('HSET', KEYS[1], 'lastFailureAt', now)
+local justLocked = 0
+if count >= tonumber(ARGV[4]) and lockedUntil == 0 then
+    lockedUntil = now + tonumber(ARGV[3])
+    redis.call('HSET', KEYS[1], 'lockedUntil', lockedUntil)
+    justLocked = 1
+end
+redis.call('PEXPIRE', KEYS[1], math.max(tonumber(ARGV[2]), lockedUntil - now))
+return { count, justLocked }
+`;
+
+// بديل في الذاكرة عند عدم توفر Redis (نفس المنطق، والتحديث متزامن داخل العملية)
+const memoryFailures = new Map<string, LoginFailureState & { expiresAt: number }>();
+
+const windowMs = ms(LOGIN_FAILURE_WINDOW as ms.StringValue);
+const lockoutMs = ms(LOGIN_LOCKOUT_DURATION as ms.StringValue);
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * الوقت المتبقي قبل السماح بمحاولة جديدة
+ * @param state - حالة المحاولات الفاشلة
+ * @param now - الوقت الحالي
+ */
+function getBlockedFor(state: LoginFailureState | null, now: number): LoginThrottleResult {
+    if (!state) {
+        return { allowed: true };
+    }
+
+    if (state.lockedUntil && state.lockedUntil > now) {
+        return { allowed: false, locked: true, retryAfter: Math.ceil((state.lockedUntil - now) / 1000) };
+    }
+
+    if (state.count >= LOGIN_DELAY_AFTER_FAILURES && !state.lockedUntil) {
+        const delay = Math.min(1000 * 2 ** (state.count - LOGIN_DELAY_AFTER_FAILURES), MAX_DELAY);
+        const nextAttemptAt = state.lastFailureAt + delay;
+        if (nextAttemptAt > now) {
+            return { allowed: false, retryAfter: Math.ceil((nextAttemptAt - now) / 1000) };
+        }
+    }
+
+    return { allowed: true };
+}
+
+/**
+ * حالة المحاولات الفاشلة من الذاكرة (بدون Redis)
+ * @param key - مفتاح البريد أو IP
+ */
+function readMemoryFailures(key: string): LoginFailureState | null {
+    const entry = memoryFailures.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+        memoryFailures.delete(key);
+        return null;
+    }
+    return entry;
+}
+
+/**
+ * قراءة حالة المحاولات الفاشلة
+ * @param key - مفتاح البريد أو IP
+ */
+async function readFailures(key: string): Promise<LoginFailureState | null> {
+    if (!isRedisAvailable || !redisClient) {
+        return readMemoryFailures(key);
+    }
+
+    const hash = await redisClient.hgetall(key);
+    if (!hash.count) {
+        return null;
+    }
+    return {
+        count: Number(hash.count),
+        lastFailureAt: Number(hash.lastFailureAt) || 0,
+        lockedUntil: Number(hash.lockedUntil) || undefined
+    };
+}
+
+/**
+ * تسجيل محاولة فاشلة (ذرياً)
+ * @param key - مفتاح البريد أو IP
+ * @param threshold - عدد المحاولات قبل القفل
+ * @returns عدد المحاولات وهل تم القفل الآن
+ */
+async function incrementFailures(key: string, threshold: number): Promise<{ count: number; justLocked: boolean }> {
+    const now = Date.now();
+
+    if (!isRedisAvailable || !redisClient) {
+        // بدون await بين القراءة والكتابة حتى يبقى التحديث ذرياً داخل العملية
+        const previous = readMemoryFailures(key);
+        const expiredLock = previous?.lockedUntil && previous.lockedUntil <= now;
+        const state: LoginFailureState = {
+            count: (previous && !expiredLock ? previous.count : 0) + 1,
+            lastFailureAt: now,
+            lockedUntil: previous && !expiredLock ? previous.lockedUntil : undefined
+        };
+        const justLocked = state.count >= threshold && !state.lockedUntil;
+        if (justLocked) {
+            state.lockedUntil = now + lockoutMs;
+        }
+        memoryFailures.set(key, { ...state, expiresAt: now + Math.max(windowMs, (state.lockedUntil || now) - now) });
+        return { count: state.count, justLocked };
+    }
+
+    const [count, justLocked] = await redisClient.eval(
+        INCREMENT_FAILURES_SCRIPT, 1, key, now, windowMs, lockoutMs, threshold
+    ) as [number, number];
+    return { count: Number(count), justLocked: justLocked === 1 };
+}
+
+/**
+ * التحقق من إمكانية محاولة تسجيل الدخول الآن
+ * @param email - البريد الإلكتروني
+ * @param ip - عنوان IP للطلب
+ */
+export async function checkLoginAllowed(email: string, ip?: string): Promise<LoginThrottleResult> {
+    const now = Date.now();
+    const [emailState, ipState] = await Promise.all([
+        readFailures(EMAIL_KEY_PREFIX + normalizeEmail(email)),
+        ip ? readFailures(IP_KEY_PREFIX + ip) : Promise.resolve(null)
+    ]);
+
+    const emailResult = getBlockedFor(emailState, now);
+    if (!emailResult.allowed) {
+        return emailResult;
+    }
+
+    // لعنوان IP نطبق القفل فقط (التأخير لكل حساب على حدة)
+    if (ipState?.lockedUntil && ipState.lockedUntil > now) {
+        return { allowed: false, locked: true, retryAfter: Math.ceil((ipState.lockedUntil - now) / 1000) };
+    }
+
+    return { allowed: true };
+}
+
+/**
+ * تسجيل محاولة دخول فاشلة للبريد وعنوان IP
+ * @param email - البريد الإلكتروني
+ * @param ip - عنوان IP للطلب
+ */
+export async function recordLoginFailure(email: string, ip?: string): Promise<LoginFailureResult> {
+    const [emailResult] = await Promise.all([
+        incrementFailures(EMAIL_KEY_PREFIX + normalizeEmail(email), LOGIN_LOCKOUT_THRESHOLD),
+        ip ? incrementFailures(IP_KEY_PREFIX + ip, LOGIN_IP_LOCKOUT_THRESHOLD) : Promise.resolve(null)
+    ]);
+
+    return { justLocked: emailResult.justLocked, failures: emailResult.count };
+}
+
+/**
+ * مسح المحاولات الفاشلة للبريد (بعد تسجيل دخول ناجح أو فك القفل من المالك)
+ * @param email - البريد الإلكتروني
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+    const key = EMAIL_KEY_PREFIX + normalizeEmail(email);
+    if (!isRedisAvailable || !redisClient) {
+        memoryFailures.delete(key);
+        return;
+    }
+    await redisClient.del(key);
+}
+
+/**
+ * حالة القفل الحالية للبريد
+ * @param email - البريد الإلكتروني
+ */
+export async function getLockoutStatus(email: string): Promise<{ failures: number; lockedUntil: Date | null }> {
+    const state = await readFailures(EMAIL_KEY_PREFIX + normalizeEmail(email));
+    const locked = state?.lockedUntil && state.lockedUntil > Date.now();
+    return {
+        failures: state?.count || 0,
+        lockedUntil: locked ? new Date(state!.lockedUntil!) : null
+    };
+}
@@ -0,0 +1,197 @@
+import { Request } from 'express';
+import {
+    PASSWORD_MIN_LENGTH,
+    PASSWORD_MAX_LENGTH,
+    PASSWORD_REQUIRE_LOWERCASE,
+    PASSWORD_REQUIRE_UPPERCASE,
+    PASSWORD_REQUIRE_DIGIT,
+    PASSWORD_REQUIRE_SYMBOL,
+    PASSWORD_DISALLOW_PERSONAL_INFO,
+    PASSWORD_DISALLOW_COMMON
+} from '../../../config/security.config.js';
+import { COMMON_PASSWORDS } from '../data/commonPasswords.js';
+
+/**
+ * سياسة كلمات المرور - Password Policy
+ * تُطبق على التسجيل، إعادة التعيين، تغيير كلمة المرور وإضافتها لحساب خارجي
+ * Applied on register, password reset, change-password and set-password
+ */
+
+export type PasswordPolicyViolationCode =
+    | 'too_short'
+    | 'too_long'
+    | 'missing_lowercase'
+    | 'missing_uppercase'
+    | 'missing_digit'
+    | 'missing_symbol'
+    | 'contains_personal_info'
+    | 'common_password';
+
+export type PasswordPolicyLanguage = 'ar' | 'en';
+
+export interface PasswordPolicyViolation {
+    code: PasswordPolicyViolationCode;
+    message: string;
+    params?: Record<string, string | number>;
+}
+
+export interface PasswordPolicyResult {
+    valid: boolean;
+    violations: PasswordPolicyViolation[];
+}
+
+/**
+ * بيانات المستخدم المستخدمة لمنع كلمات المرور التي تحتوي على البريد أو الاسم
+ */
+export interface PasswordPolicyContext {
+    email?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+    display_name?: string | null;
+}
+
+export interface PasswordPolicyRules {
+    minLength: number;
+    maxLength: number;
+    requireLowercase: boolean;
+    requireUppercase: boolean;
+    requireDigit: boolean;
+    requireSymbol: boolean;
+    disallowPersonalInfo: boolean;
+    disallowCommon: boolean;
+}
+
+const messages: Record<PasswordPolicyLanguage, Record<PasswordPolicyViolationCode, (params: Record<string, string | number>) => string>> = {
+    ar: {
+        too_short: ({ min }) => `كلمة المرور يجب أن تكون ${min} أحرف على الأقل`,
+        too_long: ({ max }) => `كلمة المرور يجب ألا تتجاوز ${max} حرفاً`,
+        missing_lowercase: () => 'كلمة المرور يجب أن تحتوي على حرف صغير واحد على الأقل',
+        missing_uppercase: () => 'كلمة المرور يجب أن تحتوي على حرف كبير واحد على الأقل',
+        missing_digit: () => 'كلمة المرور يجب أن تحتوي على رقم واحد على الأقل',
+        missing_symbol: () => 'كلمة المرور يجب أن تحتوي على رمز خاص واحد على الأقل',
+        contains_personal_info: ({ field }) => field === 'email'
+            ? 'كلمة المرور يجب ألا تحتوي على بريدك الإلكتروني'
+            : 'كلمة المرور يجب ألا تحتوي على اسمك',
+        common_password: () => 'كلمة المرور شائعة جداً أو ظهرت في تسريبات سابقة، يرجى اختيار كلمة أخرى'
+    },
+    en: {
+        too_short: ({ min }) => `Password must be at least ${min} characters long`,
+        too_long: ({ max }) => `Password must be at most ${max} characters long`,
+        missing_lowercase: () => 'Password must contain at least one lowercase letter',
+        missing_uppercase: () => 'Password must contain at least one uppercase letter',
+        missing_digit: () => 'Password must contain at least one digit',
+        missing_symbol: () => 'Password must contain at least one special character',
+        contains_personal_info: ({ field }) => field === 'email'
+            ? 'Password must not contain your email address'
+            : 'Password must not contain your name',
+        common_password: () => 'This password is too common or has appeared in a data breach, please choose another one'
+    }
+};
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+// أجزاء البريد أو الاسم الأقصر من هذا لا تُعتبر (مثل "al" أو "jo")
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+/**
+ * القواعد الحالية (للعرض في الواجهة الأمامية)
+ */
+export function getPasswordPolicyRules(): PasswordPolicyRules {
+    return {
+        minLength: PASSWORD_MIN_LENGTH,
+        maxLength: PASSWORD_MAX_LENGTH,
+        requireLowercase: PASSWORD_REQUIRE_LOWERCASE,
+        requireUppercase: PASSWORD_REQUIRE_UPPERCASE,
+        requireDigit: PASSWORD_REQUIRE_DIGIT,
+        requireSymbol: PASSWORD_REQUIRE_SYMBOL,
+        disallowPersonalInfo: PASSWORD_DISALLOW_PERSONAL_INFO,
+        disallowCommon: PASSWORD_DISALLOW_COMMON
+    };
+}
+
+/**
+ * لغة رسائل الأخطاء من هيدر Accept-Language (العربية افتراضياً)
+ * @param req - الطلب
+ */
+export function getPasswordPolicyLanguage(req: Request): PasswordPolicyLanguage {
+    const language = req.acceptsLanguages('ar', 'en');
+    return language === 'en' ? 'en' : 'ar';
+}
+
+/**
+ * أجزاء البريد والاسم التي يجب ألا تظهر في كلمة المرور
+ */
+const getPersonalTokens = (context: PasswordPolicyContext): { field: 'email' | 'name'; token: string }[] => {
+    const tokens: { field: 'email' | 'name'; token: string }[] = [];
+
+    if (context.email) {
+        const localPart = context.email.toLowerCase().split('@')[0];
+        tokens.push({ field: 'email', token: localPart });
+        localPart.split(/[^a-z0-9]+/).forEach(part => tokens.push({ field: 'email', token: part }));
+    }
+
+    [context.first_name, context.last_name, context.display_name]
+        .filter((name): name is string => Boolean(name))
+        .forEach(name => name.toLowerCase().split(/\s+/).forEach(part => tokens.push({ field: 'name', token: part })));
+
+    return tokens.filter(t => t.token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+};
+
+/**
+ * هل كلمة المرور شائعة؟ نتحقق منها كما هي وبعد إزالة الأرقام والرموز من البداية والنهاية
+ * (مثال: "Password123!" → "password")
+ */
+const isCommonPassword = (password: string): boolean => {
+    const lower = password.toLowerCase();
+    const stripped = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+    return commonPasswords.has(lower) || (stripped.length > 0 && commonPasswords.has(stripped));
+};
+
+/**
+ * التحقق من كلمة المرور مقابل السياسة
+ * @param password - كلمة المرور الجديدة
+ * @param context - بيانات المستخدم (البريد والاسم)
+ * @param language - لغة رسائل الأخطاء
+ * @returns جميع المخالفات (وليس الأولى فقط) حتى تعرضها الواجهة دفعة واحدة
+ */
+export function validatePassword(
+    password: string,
+    context: PasswordPolicyContext = {},
+    language: PasswordPolicyLanguage = 'ar'
+): PasswordPolicyResult {
+    const violations: PasswordPolicyViolation[] = [];
+    const add = (code: PasswordPolicyViolationCode, params: Record<string, string | number> = {}): void => {
+        violations.push({ code, message: messages[language][code](params), ...(Object.keys(params).length ? { params } : {}) });
+    };
+
+    const value = typeof password === 'string' ? password : '';
+
+    if (value.length < PASSWORD_MIN_LENGTH) add('too_short', { min: PASSWORD_MIN_LENGTH });
+    if (value.length > PASSWORD_MAX_LENGTH) add('too_long', { max: PASSWORD_MAX_LENGTH });
+    if (PASSWORD_REQUIRE_LOWERCASE && !/\p{Ll}/u.test(value)) add('missing_lowercase');
+    if (PASSWORD_REQUIRE_UPPERCASE && !/\p{Lu}/u.test(value)) add('missing_uppercase');
+    if (PASSWORD_REQUIRE_DIGIT && !/\p{Nd}/u.test(value)) add('missing_digit');
+    if (PASSWORD_REQUIRE_SYMBOL && !/[^\p{L}\p{Nd}]/u.test(value)) add('missing_symbol');
+
+    if (PASSWORD_DISALLOW_PERSONAL_INFO) {
+        const lower = value.toLowerCase();
+        const match = getPersonalTokens(context).find(t => lower.includes(t.token));
+        if (match) add('contains_personal_info', { field: match.field });
+    }
+
+    if (PASSWORD_DISALLOW_COMMON && value && isCommonPassword(value)) add('common_password');
+
+    return { valid: violations.length === 0, violations };
+}
+
+/**
+ * جسم الرد عند مخالفة السياسة (400)
+ * @param result - نتيجة التحقق
+ */
+export function toPasswordPolicyError(result: PasswordPolicyResult): { error: string; code: 'password_policy'; violations: PasswordPolicyViolation[] } {
+    return {
+        error: result.violations[0]?.message || 'كلمة المرور لا تستوفي سياسة كلمات المرور',
+        code: 'password_policy',
+        violations: result.violations
+    };
+}
@@ -0,0 +1,241 @@
+import type { Router, RequestHandler } from 'express';
+
+/**
+ * سجل الصلاحيات المركزي
+ * - كل صلاحية يتحقق منها checkRole يجب أن تكون معرفة هنا (خطأ في الترجمة عند كتابة اسم غير موجود)
+ * - منح الصلاحيات (المشرفين، الأدوار، الدعوات، حسابات الخدمة، مفاتيح API) يُتحقق منه مقابل هذا السجل
+ * - الصيغة namespace:action، وتُمنح أيضاً أحرف البدل (* و cars:*) والصلاحيات الضمنية (write تشمل read)
+ * - الأسماء القديمة المسطحة (view_cars...) تعمل عبر جدول الأسماء البديلة
+ */
+
+export const PERMISSIONS = {
+    'users:read': 'View user list',
+    'security_events:read': "View any user's login history and security events",
+    'invitations:read': 'List registration invitations',
+    'invitations:write': 'Create and revoke registration invitations',
+    'cars:read': 'View car list',
+    'cars:create': 'Create new cars',
+    'cars:update': 'Edit car data',
+    'cars:delete': 'Delete cars'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+// الأسماء القديمة المسطحة (مخزنة في قاعدة البيانات وقد تُستخدم في checkRole)
+export const PERMISSION_ALIASES = {
+    view_users: 'users:read',
+    view_security_events: 'security_events:read',
+    invite_users: 'invitations:write',
+    view_cars: 'cars:read',
+    create_cars: 'cars:create',
+    update_cars: 'cars:update',
+    delete_cars: 'cars:delete'
+} as const satisfies Record<string, Permission>;
+
+export type LegacyPermission = keyof typeof PERMISSION_ALIASES;
+
+// الإجراءات التي يشملها إجراء آخر في نفس النطاق (cars:write تشمل cars:read...)
+const IMPLIED_ACTIONS: Record<string, string[]> = {
+    write: ['read', 'create', 'update', 'delete']
+};
+
+const WILDCARD = '*';
+
+const PERMISSION_NAMESPACES = [...new Set(PERMISSION_NAMES.map((name) => name.split(':')[0]))];
+
+// كل ما يمكن منحه: السجل، الأسماء القديمة، * و namespace:* و namespace:write
+export const GRANTABLE_PERMISSIONS: string[] = [
+    WILDCARD,
+    ...PERMISSION_NAMESPACES.flatMap((namespace) => [
+        `${namespace}:${WILDCARD}`,
+        ...Object.keys(IMPLIED_ACTIONS).map((action) => `${namespace}:${action}`)
+    ]),
+    ...PERMISSION_NAMES,
+    ...Object.keys(PERMISSION_ALIASES)
+].filter((name, index, names) => names.indexOf(name) === index);
+
+export interface GuardedRoute {
+    method: string;
+    path: string;
+}
+
+export interface RouterMount {
+    path: string;
+    router: Router;
+}
+
+// طبقة مسار Express (غير مكتملة الأنواع في @types/express)
+interface RouteLayer {
+    route?: {
+        path: string;
+        methods: Record<string, boolean>;
+        stack: { handle: RequestHandler }[];
+    };
+}
+
+// الصلاحيات التي يتطلبها كل checkRole (لعرض المسارات المحمية في الكتالوج)
+const guardedPermissions = new WeakMap<RequestHandler, Permission[]>();
+
+/**
+ * تسجيل الصلاحيات التي يتطلبها معالج checkRole
+ * @param handler - المعالج
+ * @param permissions - الصلاحيات المطلوبة
+ */
+export function registerGuardedPermissions(handler: RequestHandler, permissions: Permission[]): void {
+    guardedPermissions.set(handler, permissions);
+}
+
+/**
+ * هل الصلاحية معرفة في السجل؟
+ * @param name - اسم الصلاحية
+ */
+export function isKnownPermission(name: string): name is Permission {
+    return Object.prototype.hasOwnProperty.call(PERMISSIONS, name);
+}
+
+/**
+ * هل يمكن منح الصلاحية؟ (من السجل أو اسم قديم أو حرف بدل أو إجراء ضمني)
+ * @param name - اسم الصلاحية
+ */
+export function isGrantablePermission(name: string): boolean {
+    return GRANTABLE_PERMISSIONS.includes(name);
+}
+
+/**
+ * الصلاحيات التي لا يمكن منحها من قائمة
+ * @param names - أسماء الصلاحيات
+ */
+export function getUnknownPermissions(names: string[]): string[] {
+    return names.filter((name) => !isGrantablePermission(name));
+}
+
+/**
+ * تحويل الاسم القديم إلى الاسم الحالي (namespace:action)
+ * @param name - اسم الصلاحية
+ */
+export function normalizePermission(name: string): string {
+    return Object.prototype.hasOwnProperty.call(PERMISSION_ALIASES, name)
+        ? PERMISSION_ALIASES[name as LegacyPermission]
+        : name;
+}
+
+/**
+ * هل تشمل الصلاحية الممنوحة الصلاحية المطلوبة؟
+ * (تطابق، *، namespace:*، أو إجراء ضمني مثل write تشمل read)
+ * @param granted - الصلاحية الممنوحة
+ * @param required - الصلاحية المطلوبة
+ */
+export function permissionImplies(granted: string, required: string): boolean {
+    const grantedName = normalizePermission(granted);
+    const requiredName = normalizePermission(required);
+
+    if (grantedName === WILDCARD || grantedName === requiredName) {
+        return true;
+    }
+
+    const [grantedNamespace, grantedAction] = grantedName.split(':');
+    const [requiredNamespace, requiredAction] = requiredName.split(':');
+    if (!grantedAction || !requiredAction || grantedNamespace !== requiredNamespace) {
+        return false;
+    }
+
+    return grantedAction === WILDCARD || (IMPLIED_ACTIONS[grantedAction] || []).includes(requiredAction);
+}
+
+/**
+ * هل تشمل الصلاحيات الممنوحة الصلاحية المطلوبة؟
+ * @param granted - الصلاحيات الممنوحة
+ * @param required - الصلاحية المطلوبة
+ */
+export function hasPermission(granted: string[], required: string): boolean {
+    return granted.some((permission) => permissionImplies(permission, required));
+}
+
+/**
+ * هل تشمل الصلاحيات الممنوحة جميع الصلاحيات المطلوبة؟
+ * @param granted - الصلاحيات الممنوحة
+ * @param required - الصلاحيات المطلوبة
+ */
+export function hasAllPermissions(granted: string[], required: string[]): boolean {
+    return required.every((permission) => hasPermission(granted, permission));
+}
+
+/**
+ * الصلاحيات الممنوحة التي لا تغطيها صلاحيات أخرى (لمنع منح ما لا يملكه المانح)
+ * @param granted - صلاحيات المانح
+ * @param requested - الصلاحيات المطلوب منحها
+ */
+export function getUncoveredPermissions(granted: string[], requested: string[]): string[] {
+    return requested.filter((permission) => !hasPermission(granted, permission));
+}
+
+/**
+ * تقاطع مجموعتي صلاحيات مع مراعاة أحرف البدل
+ * (مفتاح بـ cars:* لمشرف يملك cars:read فقط يحصل على cars:read)
+ * @param first - المجموعة الأولى
+ * @param second - المجموعة الثانية
+ */
+export function intersectPermissions(first: string[], second: string[]): string[] {
+    const fromFirst = first.filter((permission) => hasPermission(second, permission));
+    const fromSecond = second.filter((permission) => hasPermission(first, permission));
+
+    return [...new Set([...fromFirst, ...fromSecond].map(normalizePermission))];
+}
+
+/**
+ * جميع الصلاحيات الممنوحة التي تشمل صلاحية مطلوبة (للبحث في قاعدة البيانات)
+ * @param required - الصلاحية المطلوبة
+ */
+export function getSatisfyingGrants(required: string): string[] {
+    return GRANTABLE_PERMISSIONS.filter((permission) => permissionImplies(permission, required));
+}
+
+/**
+ * المسارات التي تحميها كل صلاحية، تُستخرج من checkRole المسجلة في الموجهات
+ * @param mounts - الموجهات مع مسارات تركيبها
+ * @param prefix - بادئة الـ API
+ */
+export function collectGuardedRoutes(mounts: RouterMount[], prefix: string): Map<Permission, GuardedRoute[]> {
+    const guarded = new Map<Permission, GuardedRoute[]>();
+
+    for (const mount of mounts) {
+        for (const layer of mount.router.stack as unknown as RouteLayer[]) {
+            const route = layer.route;
+            if (!route) continue;
+
+            const permissions = new Set<Permission>();
+            for (const handlerLayer of route.stack) {
+                (guardedPermissions.get(handlerLayer.handle) || []).forEach((permission) => permissions.add(permission));
+            }
+
+            const routePath = `${prefix}${mount.path}${route.path === '/' ? '' : route.path}`;
+            for (const method of Object.keys(route.methods)) {
+                for (const permission of permissions) {
+                    const routes = guarded.get(permission) || [];
+                    routes.push({ method: method.toUpperCase(), path: routePath });
+                    guarded.set(permission, routes);
+                }
+            }
+        }
+    }
+
+    return guarded;
+}
+
+/**
+ * كتالوج الصلاحيات: الاسم والوصف والأسماء القديمة والمسارات التي تحميها
+ * @param mounts - الموجهات مع مسارات تركيبها
+ * @param prefix - بادئة الـ API
+ */
+export function getPermissionCatalog(mounts: RouterMount[], prefix: string) {
+    const guarded = collectGuardedRoutes(mounts, prefix);
+
+    return PERMISSION_NAMES.map((name) => ({
+        name,
+        description: PERMISSIONS[name],
+        aliases: Object.keys(PERMISSION_ALIASES).filter((alias) => PERMISSION_ALIASES[alias as LegacyPermission] === name),
+        routes: guarded.get(name) || []
+    }));
+}
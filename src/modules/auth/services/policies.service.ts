@@ -0,0 +1,123 @@
+import type { AuthenticatedUser, UserRole } from '../middlewares/role.middleware.js';
+import { isRoleAllowed } from '../middlewares/role.middleware.js';
+import { verifySubscriptionFromDatabase } from '../middlewares/subscription.middleware.js';
+import { hasAllPermissions, normalizePermission } from './permissions.service.js';
+import type { Permission, LegacyPermission } from './permissions.service.js';
+
+/**
+ * سياسات الوصول للموارد
+ * - الأدوار والصلاحيات تمنح الوصول لأي مورد (مثل checkRole)
+ * - allowOwner يسمح لصاحب المورد بالوصول لمورده فقط (المستخدم لبياناته أو اشتراكاته)
+ * - subscription يشترط اشتراكاً نشطاً على الأدوار المحددة بعد منح الوصول
+ */
+
+export interface Policy {
+    roles: UserRole[];                                // أدوار تصل لأي مورد (مع التسلسل الهرمي)
+    permissions?: (Permission | LegacyPermission)[];  // صلاحيات المشرف المطلوبة للوصول لأي مورد
+    allowOwner?: boolean;                             // السماح لصاحب المورد
+    subscription?: {
+        plans: string[];
+        applyToRoles?: UserRole[];                    // default: ['user']
+    };
+}
+
+// المورد كما يحمّله resourceLoader: يكفي معرف صاحبه
+export interface PolicyResource {
+    ownerId: string | null;
+}
+
+export type PolicyDenyReason = 'NOT_AUTHENTICATED' | 'ACCESS_DENIED' | 'SUBSCRIPTION_REQUIRED';
+
+export type PolicyDecision =
+    | { allowed: true; via: 'role' | 'ownership' }
+    | { allowed: false; reason: PolicyDenyReason };
+
+export const POLICIES = {
+    'users:read': { roles: ['admin'], permissions: ['users:read'], allowOwner: true },
+    'users:update': { roles: ['owner'], allowOwner: true },
+    'subscriptions:read': { roles: ['admin'], allowOwner: true }
+} as const satisfies Record<string, Policy>;
+
+export type PolicyAction = keyof typeof POLICIES;
+
+/**
+ * الحصول على سياسة إجراء
+ * @param action - اسم الإجراء
+ */
+export function getPolicy(action: PolicyAction): Policy {
+    const policy: Policy = POLICIES[action];
+    return {
+        ...policy,
+        permissions: (policy.permissions || []).map(normalizePermission) as Permission[]
+    };
+}
+
+/**
+ * هل يصل المستخدم لأي مورد عبر دوره وصلاحياته؟
+ * @param user - المستخدم الحالي
+ * @param policy - السياسة
+ */
+export function hasElevatedAccess(user: AuthenticatedUser, policy: Policy): boolean {
+    if (user.role === 'owner') {
+        return true;
+    }
+
+    if (!isRoleAllowed(user.role, policy.roles)) {
+        return false;
+    }
+
+    const required = policy.permissions || [];
+    if (user.role !== 'admin' || required.length === 0) {
+        return true;
+    }
+
+    const permissions = Array.isArray(user.permissions) ? user.permissions : [];
+    return hasAllPermissions(permissions, required);
+}
+
+/**
+ * هل المستخدم صاحب المورد؟ (عملاء النظام لا يملكون موارد)
+ * @param user - المستخدم الحالي
+ * @param resource - المورد
+ */
+export function isResourceOwner(user: AuthenticatedUser, resource: PolicyResource | null): boolean {
+    return !user.isSystemClient && !!resource?.ownerId && resource.ownerId === user.userID;
+}
+
+/**
+ * تقييم السياسة: الدور والصلاحيات أولاً، ثم ملكية المورد، ثم الاشتراك
+ * @param user - المستخدم الحالي
+ * @param policy - السياسة
+ * @param loadResource - تحميل المورد (يُستدعى فقط عند الحاجة لفحص الملكية)
+ */
+export async function evaluatePolicy(
+    user: AuthenticatedUser | undefined,
+    policy: Policy,
+    loadResource?: () => Promise<PolicyResource | null>
+): Promise<PolicyDecision> {
+    if (!user) {
+        return { allowed: false, reason: 'NOT_AUTHENTICATED' };
+    }
+
+    let via: 'role' | 'ownership' | null = hasElevatedAccess(user, policy) ? 'role' : null;
+
+    if (!via && policy.allowOwner && loadResource) {
+        const resource = await loadResource();
+        via = isResourceOwner(user, resource) ? 'ownership' : null;
+    }
+
+    if (!via) {
+        return { allowed: false, reason: 'ACCESS_DENIED' };
+    }
+
+    // المالك معفى دائماً من شروط الاشتراك (مثل checkSubscription)
+    const subscription = policy.subscription;
+    if (subscription && user.role !== 'owner' && (subscription.applyToRoles || ['user']).includes(user.role)) {
+        const hasSubscription = await verifySubscriptionFromDatabase(user.userID, subscription.plans);
+        if (!hasSubscription) {
+            return { allowed: false, reason: 'SUBSCRIPTION_REQUIRED' };
+        }
+    }
+
+    return { allowed: true, via };
+}
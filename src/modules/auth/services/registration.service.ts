@@ -0,0 +1,235 @@
+import ms from 'ms';
+import { createHash, randomBytes } from 'crypto';
+import { REGISTRATION_MODE, REGISTRATION_ALLOWED_DOMAINS, INVITATION_EXPIRES_IN } from '../../../config/security.config.js';
+import { InvitationsService, ProjectAdminsService, UsersService } from '../../database/postgreSQL/services/index.js';
+import type { InvitationData, InvitationStatus } from '../../database/postgreSQL/services/index.js';
+import type { AuthenticatedUser } from '../middlewares/role.middleware.js';
+import { sendInvitationEmail } from './authEmail.service.js';
+import { getUncoveredPermissions } from './permissions.service.js';
+
+/**
+ * سياسة التسجيل ودعوات إنشاء الحسابات
+ * - open: أي شخص يمكنه التسجيل
+ * - invite_only: التسجيل بدعوة فقط
+ * - domain_restricted: التسجيل لبريد ضمن REGISTRATION_ALLOWED_DOMAINS (أو بدعوة)
+ * الدعوة مقبولة في جميع الأوضاع، وتمنح صلاحيات المشرف المحددة فيها عند إنشاء الحساب
+ */
+
+export interface CreateInvitationOptions {
+    email: string;
+    permissions?: string[] | null;
+    expiresIn?: string;
+}
+
+export interface CreatedInvitation {
+    token: string; // يُرسل بالبريد ويُعاد مرة واحدة فقط
+    invitation: InvitationData;
+    emailSent: boolean;
+}
+
+export interface RegistrationCheckOptions {
+    inviteToken?: string;
+    emailVerified?: boolean; // البريد مؤكد لدى مزود خارجي: الدعوة المعلقة لنفس البريد تكفي بدون توكن
+    allowPendingVerification?: boolean; // التسجيل المحلي: نطاق مسموح ببريد غير مؤكد ينشئ حساباً معلقاً حتى التأكيد
+}
+
+export interface RegistrationDecision {
+    invitation: InvitationData | null;  // الدعوة التي يجب قبولها بعد إنشاء الحساب
+    verificationRequired: boolean;      // الحساب معلق حتى تأكيد البريد (domain_restricted بدون إثبات ملكية البريد)
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+const INVALID_INVITATION_MESSAGE = 'الدعوة غير صالحة أو منتهية الصلاحية';
+
+/**
+ * بصمة توكن الدعوة المخزنة في قاعدة البيانات
+ * @param token - توكن الدعوة
+ */
+export function hashInvitationToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * حالة الدعوة المحسوبة من تواريخها
+ * @param invitation - بيانات الدعوة
+ */
+export function getInvitationStatus(invitation: InvitationData): InvitationStatus {
+    if (invitation.accepted_at) return 'accepted';
+    if (invitation.revoked_at) return 'revoked';
+    if (new Date(invitation.expires_at).getTime() <= Date.now()) return 'expired';
+    return 'pending';
+}
+
+/**
+ * عرض الدعوة بدون بصمة التوكن
+ * @param invitation - بيانات الدعوة
+ */
+export function toPublicInvitation(invitation: InvitationData) {
+    return {
+        id: invitation.id,
+        email: invitation.email,
+        permissions: invitation.permissions || null,
+        status: getInvitationStatus(invitation),
+        invited_by: invitation.invited_by || null,
+        expires_at: invitation.expires_at,
+        accepted_at: invitation.accepted_at || null,
+        accepted_by: invitation.accepted_by || null,
+        revoked_at: invitation.revoked_at || null,
+        created_at: invitation.created_at
+    };
+}
+
+/**
+ * هل نطاق البريد ضمن النطاقات المسموحة؟
+ * @param email - البريد الإلكتروني
+ */
+export function isEmailDomainAllowed(email: string): boolean {
+    const domain = email.trim().toLowerCase().split('@').pop() || '';
+    return REGISTRATION_ALLOWED_DOMAINS.includes(domain);
+}
+
+/**
+ * إنشاء دعوة وإرسالها بالبريد
+ * المشرف لا يمنح في الدعوة صلاحيات لا يملكها، والدعوات السابقة المعلقة لنفس البريد تُلغى
+ * @param inviter - هوية منشئ الدعوة
+ * @param options - البريد والصلاحيات ومدة الصلاحية
+ * @returns [{ token, invitation, emailSent }, error]
+ */
+export async function createInvitation(inviter: AuthenticatedUser, options: CreateInvitationOptions): ServiceResult<CreatedInvitation> {
+    const email = options.email.trim().toLowerCase();
+    const permissions = options.permissions ? [...new Set(options.permissions)] : null;
+
+    if (permissions && inviter.role !== 'owner') {
+        const inviterPermissions = Array.isArray(inviter.permissions) ? inviter.permissions : [];
+        const missing = getUncoveredPermissions(inviterPermissions, permissions);
+        if (missing.length > 0) {
+            return [null, new Error(`لا يمكنك منح صلاحيات لا تملكها: ${missing.join(', ')}`)];
+        }
+    }
+
+    const [existingUser, userError] = await UsersService.getByEmail(email);
+    if (userError) {
+        return [null, userError];
+    }
+    if (existingUser) {
+        return [null, new Error('يوجد حساب مسجل بهذا البريد الإلكتروني بالفعل')];
+    }
+
+    const [pending, pendingError] = await InvitationsService.getAll({ email, status: 'pending' });
+    if (pendingError) {
+        return [null, pendingError];
+    }
+    await Promise.all((pending || []).map((invitation) => InvitationsService.revoke(invitation.id!)));
+
+    const expiresIn = options.expiresIn || INVITATION_EXPIRES_IN;
+    const token = randomBytes(32).toString('base64url');
+    const [invitation, createError] = await InvitationsService.create({
+        email,
+        token_hash: hashInvitationToken(token),
+        permissions,
+        invited_by: inviter.isSystemClient ? null : inviter.userID,
+        expires_at: new Date(Date.now() + ms(expiresIn as ms.StringValue))
+    });
+    if (createError || !invitation) {
+        return [null, createError || new Error('فشل في إنشاء الدعوة')];
+    }
+
+    let emailSent = false;
+    try {
+        emailSent = await sendInvitationEmail(email, token, expiresIn);
+    } catch (emailError) {
+        console.error('❌ Failed to send invitation email:', (emailError as Error).message);
+    }
+
+    return [{ token, invitation, emailSent }, null];
+}
+
+/**
+ * التحقق من السماح بإنشاء حساب جديد بهذا البريد حسب وضع التسجيل
+ * @param email - بريد الحساب الجديد
+ * @param options - توكن الدعوة، وهل البريد مؤكد لدى مزود خارجي، وهل يُسمح بحساب معلق
+ * @returns [decision, error] - الدعوة التي يجب قبولها (إن وجدت)، وهل يجب تأكيد البريد قبل استخدام الحساب
+ */
+export async function checkRegistrationAllowed(email: string, options: RegistrationCheckOptions = {}): ServiceResult<RegistrationDecision> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    if (options.inviteToken) {
+        const [invitation, error] = await InvitationsService.getByTokenHash(hashInvitationToken(options.inviteToken));
+        if (error) {
+            return [null, error];
+        }
+        if (!invitation || getInvitationStatus(invitation) !== 'pending') {
+            return [null, new Error(INVALID_INVITATION_MESSAGE)];
+        }
+        if (invitation.email !== normalizedEmail) {
+            return [null, new Error('الدعوة مرسلة إلى بريد إلكتروني آخر')];
+        }
+        return [{ invitation, verificationRequired: false }, null];
+    }
+
+    if (options.emailVerified) {
+        const [invitation, error] = await InvitationsService.getPendingByEmail(normalizedEmail);
+        if (error) {
+            return [null, error];
+        }
+        if (invitation) {
+            return [{ invitation, verificationRequired: false }, null];
+        }
+    }
+
+    if (REGISTRATION_MODE === 'open') {
+        return [{ invitation: null, verificationRequired: false }, null];
+    }
+
+    // النطاق وحده لا يكفي: يجب إثبات ملكية البريد (مؤكد لدى المزود، أو حساب معلق حتى رابط التأكيد)
+    if (REGISTRATION_MODE === 'domain_restricted' && isEmailDomainAllowed(normalizedEmail)) {
+        if (options.emailVerified) {
+            return [{ invitation: null, verificationRequired: false }, null];
+        }
+        if (options.allowPendingVerification) {
+            return [{ invitation: null, verificationRequired: true }, null];
+        }
+        return [null, new Error('يجب أن يكون البريد الإلكتروني مؤكداً للتسجيل بهذا النطاق')];
+    }
+
+    return [null, new Error(
+        REGISTRATION_MODE === 'invite_only'
+            ? 'التسجيل متاح بدعوة فقط'
+            : 'التسجيل غير متاح لهذا النطاق، يلزم الحصول على دعوة'
+    )];
+}
+
+/**
+ * هل الحساب معلق حتى تأكيد البريد؟ (في domain_restricted لا يُستخدم حساب ببريد غير مؤكد)
+ * @param user - الحساب
+ */
+export function isRegistrationPending(user: { email_verified?: boolean | null }): boolean {
+    return REGISTRATION_MODE === 'domain_restricted' && !user.email_verified;
+}
+
+/**
+ * قبول الدعوة بعد إنشاء الحساب ومنح صلاحيات المشرف المحددة فيها
+ * @param invitation - الدعوة المرتجعة من checkRegistrationAllowed
+ * @param userID - معرف الحساب الجديد
+ * @returns [accepted, error]
+ */
+export async function acceptInvitation(invitation: InvitationData, userID: string): ServiceResult<boolean> {
+    // تحديث شرطي: دعوة واحدة لا تُقبل مرتين حتى مع طلبين متزامنين
+    const [accepted, acceptError] = await InvitationsService.accept(invitation.id!, userID);
+    if (acceptError || !accepted) {
+        return [false, acceptError];
+    }
+
+    if (invitation.permissions && invitation.permissions.length > 0) {
+        const [, adminError] = await ProjectAdminsService.create({
+            user_id: userID,
+            permissions: invitation.permissions
+        });
+        if (adminError) {
+            return [true, adminError];
+        }
+    }
+
+    return [true, null];
+}
@@ -0,0 +1,64 @@
+import type { RoleData } from '../../database/postgreSQL/services/index.js';
+
+/**
+ * الأدوار
+ * - الأدوار الأساسية (owner > admin > user > guest) ثابتة في الكود وتحدد المستوى في checkRole
+ * - الأدوار المخصصة مخزنة في قاعدة البيانات وتُسند للمشرفين (ProjectAdmin.role_id)
+ *   فيصبح حاملها admin بصلاحيات الدور مع صلاحياته المباشرة
+ */
+
+export type SystemRoleName = 'owner' | 'admin' | 'user' | 'guest';
+
+export interface SystemRole {
+    name: SystemRoleName;
+    level: number;
+    description: string;
+}
+
+export const SYSTEM_ROLES: SystemRole[] = [
+    { name: 'owner', level: 1, description: 'System owner, all permissions automatically' },
+    { name: 'admin', level: 2, description: 'Administrator, permissions from a custom role and direct grants' },
+    { name: 'user', level: 3, description: 'Regular user' },
+    { name: 'guest', level: 4, description: 'Unauthenticated visitor' }
+];
+
+/**
+ * هل الاسم محجوز لدور أساسي؟
+ * @param name - اسم الدور
+ */
+export function isSystemRoleName(name: string): boolean {
+    const normalized = name.trim().toLowerCase();
+    return SYSTEM_ROLES.some((role) => role.name === normalized);
+}
+
+/**
+ * عرض الدور المخصص في الـ API
+ * @param role - بيانات الدور
+ * @param holders - عدد حاملي الدور (اختياري)
+ */
+export function toPublicRole(role: RoleData, holders?: number) {
+    return {
+        id: role.id,
+        name: role.name,
+        description: role.description || null,
+        permissions: role.permissions || [],
+        system: false,
+        ...(holders !== undefined && { holders }),
+        created_by: role.created_by || null,
+        created_at: role.created_at,
+        updated_at: role.updated_at
+    };
+}
+
+/**
+ * عرض الدور الأساسي في الـ API
+ * @param role - الدور الأساسي
+ */
+export function toPublicSystemRole(role: SystemRole) {
+    return {
+        name: role.name,
+        description: role.description,
+        level: role.level,
+        system: true
+    };
+}
@@ -0,0 +1,85 @@
+import { SecurityEventsService, SecurityEventType } from '../../database/postgreSQL/services/index.js';
+import type { SecurityEventData } from '../../database/postgreSQL/services/index.js';
+import type { RequestMetadata } from './auth.service.js';
+
+/**
+ * سجل الأحداث الأمنية - Security event log
+ * متى ومن أين سجل المستخدم دخوله، ومتى تغيرت كلمة المرور أو المصادقة الثنائية أو أُلغيت الجلسات
+ * When and from where an account logged in, and when its password, 2FA or sessions changed
+ */
+
+/**
+ * طريقة المصادقة المرتبطة بالحدث
+ */
+export type SecurityEventProvider =
+    | 'password'
+    | 'google'
+    | 'github'
+    | 'discord'
+    | 'passkey'
+    | 'magic_link'
+    | 'two_factor'
+    | 'refresh_token';
+
+export interface SecurityEventOptions extends RequestMetadata {
+    userID?: string | null;
+    success?: boolean;
+    provider?: SecurityEventProvider | string | null;
+    email?: string | null;
+    details?: Record<string, unknown> | null;
+}
+
+export interface PublicSecurityEvent {
+    id: string;
+    userId: string | null;
+    type: SecurityEventType;
+    success: boolean;
+    provider: string | null;
+    email: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    details: Record<string, unknown> | null;
+    createdAt: Date;
+}
+
+/**
+ * تسجيل حدث أمني (بدون انتظار: فشل التسجيل لا يُفشل العملية نفسها)
+ * @param type - نوع الحدث
+ * @param options - المستخدم، الطريقة، النتيجة وبيانات الجهاز
+ */
+export function recordSecurityEvent(type: SecurityEventType, options: SecurityEventOptions = {}): void {
+    const { userID, success = true, provider, email, details, ip_address, user_agent } = options;
+
+    SecurityEventsService.create({
+        type,
+        success,
+        user_id: userID || null,
+        provider: provider || null,
+        email: email ? email.trim().toLowerCase() : null,
+        ip_address: ip_address || null,
+        user_agent: user_agent || null,
+        details: details || null
+    }).then(([, error]) => {
+        if (error) {
+            console.error(`❌ Failed to record security event ${type}:`, error.message);
+        }
+    });
+}
+
+/**
+ * تحويل الحدث إلى الشكل المعروض في الـ API
+ */
+export function toPublicSecurityEvent(event: SecurityEventData): PublicSecurityEvent {
+    return {
+        id: event.id!,
+        userId: event.user_id || null,
+        type: event.type,
+        success: event.success,
+        provider: event.provider || null,
+        email: event.email || null,
+        ipAddress: event.ip_address || null,
+        userAgent: event.user_agent || null,
+        details: event.details || null,
+        createdAt: event.created_at!
+    };
+}
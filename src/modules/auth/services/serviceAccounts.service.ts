@@ -0,0 +1,182 @@
+import ms from 'ms';
+import { BlockList, isIP } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { SERVICE_ACCOUNT_ROTATION_GRACE_PERIOD } from '../../../config/security.config.js';
+import { ServiceAccountsService, ServiceAccountSecretsService } from '../../database/postgreSQL/services/index.js';
+import type { ServiceAccountData, ServiceAccountSecretData } from '../../database/postgreSQL/services/index.js';
+import type { AuthenticatedUser } from '../middlewares/role.middleware.js';
+
+/**
+ * حسابات الخدمة (البوت والخدمات الداخلية)
+ * كل حساب يملك صلاحيات صريحة، وأسراراً مخزنة كبصمات يمكن أن تتداخل أثناء التدوير،
+ * وقائمة اختيارية بعناوين IP المسموحة
+ */
+
+export const SERVICE_ACCOUNT_SECRET_PREFIX = 'ghs_';
+
+// أقل فترة بين تحديثين لوقت آخر استخدام (5 دقائق)
+const LAST_USED_UPDATE_INTERVAL = 5 * 60 * 1000;
+
+export interface IssuedServiceAccountSecret {
+    secret: string; // السر الكامل - يُعرض مرة واحدة فقط
+    secretData: ServiceAccountSecretData;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+const INVALID_SECRET_MESSAGE = 'سر حساب الخدمة غير صالح أو منتهي الصلاحية';
+
+/**
+ * بصمة السر المخزنة في قاعدة البيانات
+ * @param secret - السر الكامل
+ */
+function hashServiceAccountSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * هل التوكن المرسل سر حساب خدمة؟
+ * @param token - قيمة Bearer
+ */
+export function isServiceAccountSecret(token: string): boolean {
+    return token.startsWith(SERVICE_ACCOUNT_SECRET_PREFIX);
+}
+
+/**
+ * التحقق من أن عنوان IP ضمن القائمة المسموحة (عناوين مفردة أو نطاقات CIDR)
+ * @param allowedIps - القائمة المسموحة (فارغة = الكل)
+ * @param ip - عنوان IP للطلب
+ */
+export function isIpAllowed(allowedIps: string[], ip?: string): boolean {
+    if (!allowedIps || allowedIps.length === 0) {
+        return true;
+    }
+    if (!ip) {
+        return false;
+    }
+
+    // عناوين IPv4 المضمنة في IPv6 (::ffff:1.2.3.4)
+    const address = ip.startsWith('::ffff:') && isIP(ip.substring(7)) === 4 ? ip.substring(7) : ip;
+    const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+
+    const blockList = new BlockList();
+    for (const entry of allowedIps) {
+        const [network, prefix] = entry.split('/');
+        const entryFamily = isIP(network) === 6 ? 'ipv6' : 'ipv4';
+        if (prefix !== undefined) {
+            blockList.addSubnet(network, Number(prefix), entryFamily);
+        } else {
+            blockList.addAddress(network, entryFamily);
+        }
+    }
+
+    return blockList.check(address, family);
+}
+
+/**
+ * عرض السر بدون البصمة
+ * @param secret - بيانات السر
+ */
+export function toPublicSecret(secret: ServiceAccountSecretData) {
+    return {
+        id: secret.id,
+        prefix: secret.prefix,
+        expires_at: secret.expires_at,
+        last_used_at: secret.last_used_at,
+        created_at: secret.created_at
+    };
+}
+
+/**
+ * إصدار سر جديد لحساب الخدمة
+ * @param serviceAccountId - معرف حساب الخدمة
+ * @returns [{ secret, secretData }, error]
+ */
+export async function issueServiceAccountSecret(serviceAccountId: string): ServiceResult<IssuedServiceAccountSecret> {
+    const secret = `${SERVICE_ACCOUNT_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const [secretData, createError] = await ServiceAccountSecretsService.create({
+        service_account_id: serviceAccountId,
+        prefix: secret.substring(0, SERVICE_ACCOUNT_SECRET_PREFIX.length + 8),
+        secret_hash: hashServiceAccountSecret(secret)
+    });
+    if (createError || !secretData) {
+        return [null, createError || new Error('فشل في إنشاء سر حساب الخدمة')];
+    }
+
+    return [{ secret, secretData }, null];
+}
+
+/**
+ * تدوير أسرار حساب الخدمة: إصدار سر جديد وإبقاء الأسرار الحالية فعالة حتى نهاية فترة السماح
+ * @param serviceAccountId - معرف حساب الخدمة
+ * @param gracePeriod - فترة السماح (مثل '1h'، '0' للإلغاء الفوري)
+ * @returns [{ secret, secretData }, error]
+ */
+export async function rotateServiceAccountSecret(
+    serviceAccountId: string,
+    gracePeriod: string = SERVICE_ACCOUNT_ROTATION_GRACE_PERIOD
+): ServiceResult<IssuedServiceAccountSecret> {
+    const graceMs = gracePeriod === '0' ? 0 : ms(gracePeriod as ms.StringValue);
+    if (graceMs === undefined || isNaN(graceMs) || graceMs < 0) {
+        return [null, new Error('فترة السماح غير صالحة')];
+    }
+
+    const [, expireError] = await ServiceAccountSecretsService.expireActive(serviceAccountId, new Date(Date.now() + graceMs));
+    if (expireError) {
+        return [null, expireError];
+    }
+
+    return issueServiceAccountSecret(serviceAccountId);
+}
+
+/**
+ * التحقق من سر حساب الخدمة وعنوان IP وتسجيل آخر استخدام
+ * @param secret - السر الكامل من هيدر Authorization
+ * @param ip - عنوان IP للطلب
+ * @returns [serviceAccount, error]
+ */
+export async function authenticateServiceAccount(secret: string, ip?: string): ServiceResult<ServiceAccountData> {
+    const [secretData, secretError] = await ServiceAccountSecretsService.getByHash(hashServiceAccountSecret(secret));
+    if (secretError) {
+        return [null, secretError];
+    }
+    if (!secretData || (secretData.expires_at && new Date() > new Date(secretData.expires_at))) {
+        return [null, new Error(INVALID_SECRET_MESSAGE)];
+    }
+
+    const [account, accountError] = await ServiceAccountsService.getById(secretData.service_account_id);
+    if (accountError) {
+        return [null, accountError];
+    }
+    if (!account) {
+        return [null, new Error(INVALID_SECRET_MESSAGE)];
+    }
+
+    if (!isIpAllowed(account.allowed_ips, ip)) {
+        return [null, new Error('عنوان IP غير مسموح لحساب الخدمة')];
+    }
+
+    // تحديث وقت آخر استخدام (بدون انتظار، ومرة واحدة كل فترة لتقليل الكتابة)
+    const lastUsedAt = secretData.last_used_at ? new Date(secretData.last_used_at).getTime() : 0;
+    if (Date.now() - lastUsedAt > LAST_USED_UPDATE_INTERVAL) {
+        ServiceAccountSecretsService.touch(secretData.id!);
+        ServiceAccountsService.touch(account.id!, ip);
+    }
+
+    return [account, null];
+}
+
+/**
+ * هوية حساب الخدمة داخل الطلب: عميل نظام بالصلاحيات الممنوحة فقط
+ * @param account - بيانات حساب الخدمة
+ */
+export function toServiceAccountUser(account: ServiceAccountData): AuthenticatedUser {
+    return {
+        userID: account.id!,
+        username: account.name,
+        isSystemClient: true,
+        credentialType: 'service_account',
+        role: 'admin',
+        permissions: account.permissions || []
+    };
+}
@@ -0,0 +1,140 @@
+import { TokensService, TokenType } from '../../database/postgreSQL/services/index.js';
+import type { TokenData } from '../../database/postgreSQL/services/index.js';
+import { revokeTokenFamily } from './auth.service.js';
+
+/**
+ * جلسات المستخدم - User Sessions
+ * الجلسة = عائلة توكنات واحدة (تسجيل دخول واحد عبر كل عمليات التدوير)
+ * A session is one token family (a single login across all refresh rotations)
+ */
+
+export interface UserSession {
+    id: string;
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: Date;
+    last_seen_at: Date;
+    expires_at: Date;
+    current: boolean;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+/**
+ * معرف الجلسة للتوكن: family_id، أو معرف صف الـ refresh للتوكنات القديمة بدون عائلة
+ */
+const getSessionKey = (token: TokenData, refreshRowsByValue: Map<string, TokenData>): string | null => {
+    if (token.family_id) return token.family_id;
+    if (token.type === TokenType.REFRESH) return token.id!;
+    if (token.type === TokenType.ACCESS && token.refresh_token) {
+        return refreshRowsByValue.get(token.refresh_token)?.id || null;
+    }
+    return null;
+};
+
+const toTime = (date?: Date | string | null): number => (date ? new Date(date).getTime() : 0);
+
+/**
+ * الحصول على الجلسات النشطة للمستخدم
+ * @param userID - معرف المستخدم
+ * @param currentToken - توكن الـ access الحالي (لتمييز الجلسة الحالية)
+ */
+export async function listUserSessions(userID: string, currentToken?: TokenData | null): ServiceResult<UserSession[]> {
+    const [tokens, error] = await TokensService.getByUserId(userID);
+    if (error) {
+        return [null, error];
+    }
+
+    const sessionTokens = (tokens || []).filter(t => t.type === TokenType.ACCESS || t.type === TokenType.REFRESH);
+    const refreshRowsByValue = new Map<string, TokenData>();
+    sessionTokens
+        .filter(t => t.type === TokenType.REFRESH)
+        .forEach(t => refreshRowsByValue.set(t.token, t));
+
+    const groups = new Map<string, TokenData[]>();
+    for (const token of sessionTokens) {
+        const key = getSessionKey(token, refreshRowsByValue);
+        if (!key) continue;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(token);
+    }
+
+    const currentKey = currentToken ? getSessionKey(currentToken, refreshRowsByValue) : null;
+    const now = Date.now();
+    const sessions: UserSession[] = [];
+
+    for (const [id, group] of groups) {
+        // الجلسة نشطة فقط إذا كان لديها refresh token غير مستخدم وغير منتهي
+        const activeRefresh = group.find(t => t.type === TokenType.REFRESH && !t.used && toTime(t.expires_at) > now);
+        if (!activeRefresh) continue;
+
+        const latest = group.reduce((a, b) => (toTime(b.created_at) > toTime(a.created_at) ? b : a));
+        const createdAt = Math.min(...group.map(t => toTime(t.created_at)));
+        const lastSeenAt = Math.max(...group.map(t => Math.max(toTime(t.last_used_at), toTime(t.created_at))));
+
+        sessions.push({
+            id,
+            ip_address: latest.ip_address || null,
+            user_agent: latest.user_agent || null,
+            created_at: new Date(createdAt),
+            last_seen_at: new Date(lastSeenAt),
+            expires_at: new Date(activeRefresh.expires_at),
+            current: id === currentKey
+        });
+    }
+
+    sessions.sort((a, b) => b.last_seen_at.getTime() - a.last_seen_at.getTime());
+    return [sessions, null];
+}
+
+/**
+ * إلغاء جلسة واحدة للمستخدم
+ * @param userID - معرف المستخدم
+ * @param sessionId - معرف الجلسة
+ * @returns [revoked, error] - revoked = false إذا لم توجد الجلسة
+ */
+export async function revokeUserSession(userID: string, sessionId: string): ServiceResult<boolean> {
+    const [tokens, error] = await TokensService.getByUserId(userID);
+    if (error) {
+        return [null, error];
+    }
+
+    const sessionToken = (tokens || []).find(t =>
+        t.family_id === sessionId || (t.type === TokenType.REFRESH && t.id === sessionId)
+    );
+    if (!sessionToken) {
+        return [false, null];
+    }
+
+    const [, revokeError] = await revokeTokenFamily(sessionToken);
+    if (revokeError) {
+        return [null, revokeError];
+    }
+
+    return [true, null];
+}
+
+/**
+ * إلغاء جميع جلسات المستخدم باستثناء الجلسة الحالية
+ * @param userID - معرف المستخدم
+ * @param currentToken - توكن الـ access الحالي (الجلسة التي تبقى نشطة)
+ * @returns [revokedCount, error]
+ */
+export async function revokeOtherUserSessions(userID: string, currentToken?: TokenData | null): ServiceResult<number> {
+    const [sessions, error] = await listUserSessions(userID, currentToken);
+    if (error) {
+        return [null, error];
+    }
+
+    let revoked = 0;
+    for (const session of sessions || []) {
+        if (session.current) continue;
+        const [done, revokeError] = await revokeUserSession(userID, session.id);
+        if (revokeError) {
+            return [null, revokeError];
+        }
+        if (done) revoked++;
+    }
+
+    return [revoked, null];
+}
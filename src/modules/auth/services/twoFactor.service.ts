@@ -0,0 +1,186 @@
+import { Request } from 'express';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import ms from 'ms';
+import { BaseIDCache } from '../../cache/redis/index.js';
+import { TWO_FACTOR_CHALLENGE_EXPIRES_IN } from '../../../config/security.config.js';
+import { TwoFactorService, SystemSettingsService, SystemSettingKey, TokenType, SecurityEventType, AuthProvider } from '../../database/postgreSQL/services/index.js';
+import type { TwoFactorData } from '../../database/postgreSQL/services/index.js';
+import { verifyTotp } from '../../../utils/totp.util.js';
+import { issueTokens, issueOneTimeToken, getRequestMetadata, IssuedTokens } from './auth.service.js';
+import { recordSecurityEvent, SecurityEventProvider } from './securityEvents.service.js';
+
+/**
+ * المصادقة الثنائية (TOTP) - Two-Factor Authentication
+ * تسجيل الدخول يصبح خطوتين عند تفعيلها: كلمة المرور/Google ثم رمز التطبيق
+ */
+
+const RECOVERY_CODES_COUNT = 10;
+
+// عدد الرموز الخاطئة المسموح بها لكل توكن تحدٍ قبل إلغائه (يجب تسجيل الدخول من جديد)
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const challengeFailuresCache = new BaseIDCache<number>('2fa_challenge_failures:');
+// طريقة تسجيل الدخول الأساسية لكل تحدٍ (بمفتاح hash التوكن) لتسجيلها عند نجاح /2fa/verify
+const challengeProviderCache = new BaseIDCache<string>('2fa_challenge_provider:');
+
+export interface LoginResult extends Partial<IssuedTokens> {
+    twoFactorRequired: boolean;
+    challengeToken?: string; // فقط عند twoFactorRequired
+    expiresIn?: string;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+/**
+ * تشفير رمز الاسترداد قبل حفظه (SHA-256 كافٍ لأن الرموز عشوائية بطول كبير)
+ * @param code - رمز الاسترداد
+ */
+const hashRecoveryCode = (code: string): string => {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return createHash('sha256').update(normalized).digest('hex');
+};
+
+/**
+ * توليد رموز استرداد جديدة
+ * @returns الرموز كنص صريح (تُعرض مرة واحدة) والرموز المشفرة (للحفظ)
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashedCodes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+        const raw = randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashedCodes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * التحقق من رمز TOTP مع منع إعادة استخدام نفس الرمز
+ * @param record - إعدادات المصادقة الثنائية للمستخدم
+ * @param code - الرمز المدخل
+ * @returns [valid, error]
+ */
+export async function verifyTotpCode(record: TwoFactorData, code: string): ServiceResult<boolean> {
+    const step = verifyTotp(record.secret, code);
+    if (step === null) {
+        return [false, null];
+    }
+
+    // الرمز تم استخدامه مسبقاً (أو رمز أقدم منه)
+    if (record.last_used_step !== null && record.last_used_step !== undefined && step <= Number(record.last_used_step)) {
+        return [false, null];
+    }
+
+    const [, updateError] = await TwoFactorService.updateByUserId(record.user_id, { last_used_step: step });
+    if (updateError) {
+        return [null, updateError];
+    }
+
+    return [true, null];
+}
+
+/**
+ * التحقق من رمز استرداد واستهلاكه
+ * @param record - إعدادات المصادقة الثنائية للمستخدم
+ * @param code - رمز الاسترداد
+ * @returns [valid, error]
+ */
+export async function consumeRecoveryCode(record: TwoFactorData, code: string): ServiceResult<boolean> {
+    const hashed = Buffer.from(hashRecoveryCode(code));
+    const remaining = [...(record.recovery_codes || [])];
+    const index = remaining.findIndex(stored => stored.length === hashed.length && timingSafeEqual(Buffer.from(stored), hashed));
+    if (index === -1) {
+        return [false, null];
+    }
+
+    remaining.splice(index, 1);
+    const [, updateError] = await TwoFactorService.updateByUserId(record.user_id, { recovery_codes: remaining });
+    if (updateError) {
+        return [null, updateError];
+    }
+
+    return [true, null];
+}
+
+/**
+ * التحقق من رمز تسجيل الدخول: رمز TOTP أو رمز استرداد
+ * @param userID - معرف المستخدم
+ * @param code - الرمز المدخل
+ * @returns [valid, error]
+ */
+export async function verifyTwoFactorCode(userID: string, code: string): ServiceResult<boolean> {
+    const [record, error] = await TwoFactorService.getByUserId(userID);
+    if (error) {
+        return [null, error];
+    }
+    if (!record || !record.enabled || !code) {
+        return [false, null];
+    }
+
+    const normalized = String(code).trim();
+    if (/^\d{6}$/.test(normalized.replace(/\s/g, ''))) {
+        return verifyTotpCode(record, normalized);
+    }
+    return consumeRecoveryCode(record, normalized);
+}
+
+/**
+ * تسجيل رمز خاطئ لتوكن تحدٍ
+ * @param challengeID - معرف توكن التحدي
+ * @returns عدد الرموز الخاطئة لهذا التحدي
+ */
+export async function recordChallengeFailure(challengeID: string): Promise<number> {
+    const failures = ((await challengeFailuresCache.get(challengeID)) || 0) + 1;
+    const ttl = Math.ceil(ms(TWO_FACTOR_CHALLENGE_EXPIRES_IN as ms.StringValue) / 1000);
+    await challengeFailuresCache.setAsync(challengeID, failures, ttl);
+    return failures;
+}
+
+/**
+ * طريقة تسجيل الدخول الأساسية التي أصدرت توكن التحدي (password, google, magic_link, passkey...)
+ * @param challengeToken - توكن التحدي
+ */
+export async function getChallengeProvider(challengeToken: string): Promise<string | null> {
+    return challengeProviderCache.get(createHash('sha256').update(challengeToken).digest('hex'));
+}
+
+/**
+ * هل يفرض المالك المصادقة الثنائية على كل المشرفين؟
+ */
+export async function isTwoFactorRequiredForAdmins(): Promise<boolean> {
+    const [required] = await SystemSettingsService.get<boolean>(SystemSettingKey.REQUIRE_ADMIN_TWO_FACTOR, false);
+    return Boolean(required);
+}
+
+/**
+ * إكمال تسجيل الدخول بعد التحقق من الهوية الأساسية (كلمة المرور أو Google)
+ * إذا كانت المصادقة الثنائية مفعلة يتم إرجاع توكن تحدٍ قصير الصلاحية بدلاً من التوكنات
+ * @param userID - معرف المستخدم
+ * @param req - الطلب (لبيانات الجهاز)
+ * @param provider - طريقة تسجيل الدخول (لسجل الأحداث الأمنية)
+ * @returns [result, error]
+ */
+export async function startLogin(userID: string, req: Request, provider: SecurityEventProvider | AuthProvider): ServiceResult<LoginResult> {
+    const [enabled, enabledError] = await TwoFactorService.isEnabled(userID);
+    if (enabledError) {
+        return [null, enabledError];
+    }
+
+    if (enabled) {
+        const [challengeToken, challengeError] = await issueOneTimeToken(userID, TokenType.TWO_FACTOR_CHALLENGE, TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+        if (challengeError) {
+            return [null, challengeError];
+        }
+        const ttl = Math.ceil(ms(TWO_FACTOR_CHALLENGE_EXPIRES_IN as ms.StringValue) / 1000);
+        await challengeProviderCache.setAsync(createHash('sha256').update(challengeToken!).digest('hex'), provider, ttl);
+        return [{ twoFactorRequired: true, challengeToken: challengeToken!, expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN }, null];
+    }
+
+    const metadata = getRequestMetadata(req);
+    const [tokens, tokensError] = await issueTokens(userID, metadata);
+    if (tokensError) {
+        return [null, tokensError];
+    }
+
+    // عند تفعيل المصادقة الثنائية يُسجل الدخول بعد التحقق من الرمز في /2fa/verify
+    recordSecurityEvent(SecurityEventType.LOGIN_SUCCEEDED, { userID, provider, ...metadata });
+    return [{ twoFactorRequired: false, ...tokens! }, null];
+}
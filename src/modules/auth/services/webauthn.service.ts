@@ -0,0 +1,244 @@
+import ms from 'ms';
+import { WEBAUTHN_RP_ID, WEBAUTHN_RP_NAME, WEBAUTHN_ORIGINS, WEBAUTHN_CHALLENGE_EXPIRES_IN } from '../../../config/security.config.js';
+import { TokensService, TokenType, WebAuthnCredentialsService } from '../../database/postgreSQL/services/index.js';
+import type { TokenData, WebAuthnCredentialData } from '../../database/postgreSQL/services/index.js';
+import {
+    SUPPORTED_ALGORITHMS,
+    generateWebAuthnChallenge,
+    readClientDataChallenge,
+    verifyRegistrationResponse,
+    verifyAuthenticationResponse,
+    RegistrationResponse,
+    AuthenticationResponse
+} from '../../../utils/webauthn.util.js';
+
+/**
+ * مفاتيح المرور (WebAuthn / Passkeys)
+ * التسجيل يتطلب مستخدماً مسجلاً للدخول، وتسجيل الدخول لا يتطلب بريداً (discoverable credentials)
+ */
+
+const CEREMONY_TIMEOUT = 5 * 60 * 1000; // مدة انتظار المتصفح (5 دقائق)
+
+// بيانات المفتاح كما يرسلها المتصفح (PublicKeyCredential.toJSON)
+export interface PublicKeyCredentialJSON<T> {
+    id: string;
+    rawId?: string;
+    type: string;
+    response: T & { transports?: string[]; userHandle?: string };
+}
+
+export interface AuthenticatedPasskey {
+    userID: string;
+    userVerified: boolean;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+const INVALID_CHALLENGE_MESSAGE = 'انتهت صلاحية الطلب، يرجى المحاولة مرة أخرى';
+
+/**
+ * إصدار تحدٍ جديد وحفظه في جدول التوكنات
+ * @param userID - معرف المستخدم (null لتسجيل الدخول بدون بريد)
+ * @returns [challenge, error]
+ */
+async function issueChallenge(userID: string | null): ServiceResult<string> {
+    if (userID) {
+        await TokensService.deleteByUserId(userID, [TokenType.WEBAUTHN_CHALLENGE]);
+    }
+
+    const challenge = generateWebAuthnChallenge();
+    const [, createError] = await TokensService.create({
+        token: challenge,
+        type: TokenType.WEBAUTHN_CHALLENGE,
+        user_id: userID || undefined,
+        expires_at: new Date(Date.now() + ms(WEBAUTHN_CHALLENGE_EXPIRES_IN as ms.StringValue)),
+        used: false
+    });
+    if (createError) {
+        return [null, createError];
+    }
+
+    return [challenge, null];
+}
+
+/**
+ * استهلاك التحدي المرسل داخل clientDataJSON (مرة واحدة فقط)
+ * @param clientDataJSON - البيانات بصيغة base64url
+ * @param userID - المستخدم المتوقع (null لتحدي تسجيل الدخول)
+ * @returns [challengeToken, error]
+ */
+async function consumeChallenge(clientDataJSON: string, userID: string | null): ServiceResult<TokenData> {
+    const challenge = readClientDataChallenge(clientDataJSON);
+    if (!challenge) {
+        return [null, new Error(INVALID_CHALLENGE_MESSAGE)];
+    }
+
+    const [tokenData, validateError] = await TokensService.validateToken(challenge);
+    if (validateError || !tokenData || tokenData.type !== TokenType.WEBAUTHN_CHALLENGE || (tokenData.user_id || null) !== userID) {
+        return [null, new Error(INVALID_CHALLENGE_MESSAGE)];
+    }
+
+    const [markResult, markError] = await TokensService.markAsUsed(tokenData.id!);
+    if (markError) {
+        return [null, markError];
+    }
+    if (!markResult || markResult.changedRows === 0) {
+        return [null, new Error(INVALID_CHALLENGE_MESSAGE)];
+    }
+
+    return [tokenData, null];
+}
+
+/**
+ * خيارات تسجيل مفتاح مرور جديد (تمرر إلى navigator.credentials.create)
+ * @param user - بيانات المستخدم الحالي
+ * @returns [options, error]
+ */
+export async function generateRegistrationOptions(user: { id: string; email: string; display_name?: string }): ServiceResult<Record<string, unknown>> {
+    const [credentials, credentialsError] = await WebAuthnCredentialsService.getByUserId(user.id);
+    if (credentialsError) {
+        return [null, credentialsError];
+    }
+
+    const [challenge, challengeError] = await issueChallenge(user.id);
+    if (challengeError) {
+        return [null, challengeError];
+    }
+
+    return [{
+        challenge,
+        rp: { id: WEBAUTHN_RP_ID, name: WEBAUTHN_RP_NAME },
+        user: {
+            id: Buffer.from(user.id).toString('base64url'),
+            name: user.email,
+            displayName: user.display_name || user.email
+        },
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+        timeout: CEREMONY_TIMEOUT,
+        attestation: 'none',
+        authenticatorSelection: {
+            residentKey: 'preferred',
+            userVerification: 'preferred'
+        },
+        // منع تسجيل نفس الجهاز مرتين
+        excludeCredentials: (credentials || []).map(c => ({ type: 'public-key', id: c.credential_id, transports: c.transports }))
+    }, null];
+}
+
+/**
+ * التحقق من استجابة التسجيل وحفظ المفتاح
+ * @param userID - معرف المستخدم الحالي
+ * @param credential - استجابة المتصفح
+ * @param name - اسم اختياري للمفتاح
+ * @returns [credential, error]
+ */
+export async function verifyRegistration(
+    userID: string,
+    credential: PublicKeyCredentialJSON<RegistrationResponse>,
+    name?: string
+): ServiceResult<WebAuthnCredentialData> {
+    if (!credential?.response?.clientDataJSON || !credential.response.attestationObject) {
+        return [null, new Error('بيانات مفتاح المرور غير مكتملة')];
+    }
+
+    const [challengeToken, challengeError] = await consumeChallenge(credential.response.clientDataJSON, userID);
+    if (challengeError) {
+        return [null, challengeError];
+    }
+
+    let verified;
+    try {
+        verified = verifyRegistrationResponse(credential.response, {
+            expectedChallenge: challengeToken!.token,
+            expectedOrigins: WEBAUTHN_ORIGINS,
+            expectedRpId: WEBAUTHN_RP_ID
+        });
+    } catch (error) {
+        return [null, new Error(`فشل التحقق من مفتاح المرور: ${(error as Error).message}`)];
+    }
+
+    return WebAuthnCredentialsService.create({
+        user_id: userID,
+        credential_id: verified.credentialId,
+        public_key: verified.publicKey,
+        algorithm: verified.algorithm,
+        sign_count: verified.signCount,
+        transports: Array.isArray(credential.response.transports) ? credential.response.transports : [],
+        name
+    });
+}
+
+/**
+ * خيارات تسجيل الدخول بمفتاح مرور (تمرر إلى navigator.credentials.get)
+ * @returns [options, error]
+ */
+export async function generateAuthenticationOptions(): ServiceResult<Record<string, unknown>> {
+    const [challenge, challengeError] = await issueChallenge(null);
+    if (challengeError) {
+        return [null, challengeError];
+    }
+
+    return [{
+        challenge,
+        rpId: WEBAUTHN_RP_ID,
+        timeout: CEREMONY_TIMEOUT,
+        userVerification: 'preferred'
+    }, null];
+}
+
+/**
+ * التحقق من استجابة تسجيل الدخول وتحديث عداد التوقيعات
+ * @param credential - استجابة المتصفح
+ * @returns [passkey owner, error]
+ */
+export async function verifyAuthentication(credential: PublicKeyCredentialJSON<AuthenticationResponse>): ServiceResult<AuthenticatedPasskey> {
+    const response = credential?.response;
+    if (!credential?.id || !response?.clientDataJSON || !response.authenticatorData || !response.signature) {
+        return [null, new Error('بيانات مفتاح المرور غير مكتملة')];
+    }
+
+    const [challengeToken, challengeError] = await consumeChallenge(response.clientDataJSON, null);
+    if (challengeError) {
+        return [null, challengeError];
+    }
+
+    const [stored, storedError] = await WebAuthnCredentialsService.getByCredentialId(credential.id);
+    if (storedError) {
+        return [null, storedError];
+    }
+    if (!stored) {
+        return [null, new Error('مفتاح المرور غير مسجل')];
+    }
+
+    // userHandle (إن وجد) يجب أن يطابق صاحب المفتاح
+    if (response.userHandle && Buffer.from(response.userHandle, 'base64url').toString('utf8') !== stored.user_id) {
+        return [null, new Error('مفتاح المرور لا يخص هذا المستخدم')];
+    }
+
+    const storedSignCount = Number(stored.sign_count);
+    let verified;
+    try {
+        verified = verifyAuthenticationResponse(response, {
+            expectedChallenge: challengeToken!.token,
+            expectedOrigins: WEBAUTHN_ORIGINS,
+            expectedRpId: WEBAUTHN_RP_ID
+        }, {
+            publicKey: stored.public_key,
+            algorithm: stored.algorithm,
+            signCount: storedSignCount
+        });
+    } catch (error) {
+        return [null, new Error(`فشل التحقق من مفتاح المرور: ${(error as Error).message}`)];
+    }
+
+    const [updateResult, updateError] = await WebAuthnCredentialsService.updateSignCount(stored.id!, storedSignCount, verified.signCount);
+    if (updateError) {
+        return [null, updateError];
+    }
+    // تم استخدام المفتاح بطلب متزامن آخر
+    if (!updateResult || updateResult.changedRows === 0) {
+        return [null, new Error('فشل التحقق من مفتاح المرور')];
+    }
+
+    return [{ userID: stored.user_id, userVerified: verified.userVerified }, null];
+}
@@ -9,5 +9,9 @@ export { BaseIDCache } from './repositories/baseID.repository.js';
 export { CustomerCacheService } from './services/CustomerCache.service.js';
 export type { CustomerCacheData } from './services/CustomerCache.service.js';
 
+// Auth Cache Services
+export { IdentityCacheService } from './services/IdentityCache.service.js';
+export type { IdentityCacheData, IdentityCacheMetrics } from './services/IdentityCache.service.js';
+
 // Re-export types
 export type { RedisQueueBatchManagerOptions, QueueMetrics } from './config/redis.config.js';
@@ -0,0 +1,120 @@
+import { createHash, randomUUID } from 'crypto';
+import BaseIDCache from '../repositories/baseID.repository.js';
+
+/**
+ * هوية المستخدم المحسوبة لتوكن access (الدور، الصلاحيات، البريد...)
+ */
+interface IdentityCacheData<T = Record<string, unknown>> {
+  identity: T;
+  userId: string;
+  tokenId: string;
+  lastUsedAt: number;
+  generation: string | null;
+  cachedAt: number;
+}
+
+/**
+ * إحصائيات نسبة الإصابة
+ */
+interface IdentityCacheMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  invalidations: number;
+}
+
+/**
+ * خدمة Cache لهوية التوكنات
+ * تُستخدم لتجنب جلب التوكن والمستخدم والمشرف من قاعدة البيانات في كل طلب مصادق
+ * المفتاح هو SHA-256 للتوكن، ولكل مستخدم "جيل" يتغير عند تغيير صلاحياته أو حذفه أو إلغاء جميع توكناته
+ */
+const IDENTITY_BY_TOKEN_PREFIX = 'auth:identity:token:';
+const IDENTITY_GENERATION_PREFIX = 'auth:identity:generation:';
+const IDENTITY_TTL = 60; // ثانية
+const GENERATION_TTL = 60 * 60; // أطول من أي مدة لتخزين الهوية
+
+const identityByTokenCache = new BaseIDCache<IdentityCacheData>(IDENTITY_BY_TOKEN_PREFIX);
+const generationCache = new BaseIDCache<string>(IDENTITY_GENERATION_PREFIX);
+
+const metrics = { hits: 0, misses: 0, invalidations: 0 };
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+class IdentityCacheService {
+  /**
+   * الجيل الحالي للمستخدم (يُخزن مع الهوية ويُقارن عند القراءة)
+   */
+  static async getGeneration(userId: string): Promise<string | null> {
+    return generationCache.get(userId);
+  }
+
+  /**
+   * تخزين هوية التوكن
+   * @param generation - الجيل كما قُرئ قبل جلب البيانات من قاعدة البيانات
+   */
+  static async set<T>(
+    token: string,
+    data: { identity: T; userId: string; tokenId: string; lastUsedAt: number; generation: string | null },
+    ttl: number = IDENTITY_TTL
+  ): Promise<void> {
+    await identityByTokenCache.setAsync(hashToken(token), { ...data, cachedAt: Date.now() } as IdentityCacheData, ttl);
+  }
+
+  /**
+   * الحصول على هوية التوكن (null إذا لم توجد أو أُبطلت بتغيير جيل المستخدم)
+   */
+  static async get<T>(token: string): Promise<IdentityCacheData<T> | null> {
+    const cached = await identityByTokenCache.get(hashToken(token));
+    if (!cached) {
+      metrics.misses++;
+      return null;
+    }
+
+    const generation = await generationCache.get(cached.userId);
+    if (generation !== cached.generation) {
+      metrics.misses++;
+      return null;
+    }
+
+    metrics.hits++;
+    // نسخة جديدة حتى لا يُعدل الطلب الكائن المخزن في ذاكرة العملية (عند عدم توفر Redis)
+    return { ...cached, identity: { ...cached.identity } } as IdentityCacheData<T>;
+  }
+
+  /**
+   * تحديث وقت آخر استخدام المخزن (بعد تحديثه في قاعدة البيانات)
+   */
+  static touch(token: string, data: IdentityCacheData, ttl: number = IDENTITY_TTL): void {
+    identityByTokenCache.set(hashToken(token), { ...data, lastUsedAt: Date.now() }, ttl);
+  }
+
+  /**
+   * حذف هوية توكن واحد (إلغاء جلسة)
+   */
+  static async deleteToken(token: string): Promise<void> {
+    metrics.invalidations++;
+    await identityByTokenCache.deleteAsync(hashToken(token));
+  }
+
+  /**
+   * إبطال جميع الهويات المخزنة للمستخدم (تغيير الصلاحيات، الحذف، إلغاء جميع التوكنات)
+   */
+  static async invalidateUser(userId: string): Promise<void> {
+    metrics.invalidations++;
+    await generationCache.setAsync(userId, randomUUID(), GENERATION_TTL);
+  }
+
+  /**
+   * إحصائيات العملية الحالية
+   */
+  static getMetrics(): IdentityCacheMetrics {
+    const total = metrics.hits + metrics.misses;
+    return {
+      ...metrics,
+      hitRate: total > 0 ? Number((metrics.hits / total).toFixed(4)) : 0
+    };
+  }
+}
+
+export default IdentityCacheService;
+export { IdentityCacheService, IdentityCacheData, IdentityCacheMetrics, IDENTITY_BY_TOKEN_PREFIX, IDENTITY_TTL };
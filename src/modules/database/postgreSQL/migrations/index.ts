@@ -0,0 +1,158 @@
+import { DataTypes, QueryInterface, ModelAttributeColumnOptions } from 'sequelize';
+import sequelize from '../config/db.config.js';
+import { TokenType } from '../models/Token.model.js';
+import Role from '../models/Role.model.js';
+import { AuthProvider } from '../models/User.model.js';
+
+/**
+ * ترقية مخطط قاعدة البيانات - Schema migrations
+ * sequelize.sync() ينشئ الجداول الناقصة فقط ولا يضيف أعمدة للجداول الموجودة
+ * لذلك تُضاف الأعمدة الجديدة هنا قبل sync (قبل أن يحاول sync إنشاء فهارسها)
+ * كل ترقية آمنة للتكرار: تتخطى الجدول غير الموجود (سينشئه sync كاملاً) والعمود الموجود
+ * @module SchemaMigrations
+ */
+
+// ===================== Interfaces =====================
+
+interface SchemaMigration {
+  name: string;
+  up: (queryInterface: QueryInterface) => Promise<void>;
+}
+
+// ===================== Helpers =====================
+
+/**
+ * إضافة عمود لجدول موجود إذا لم يكن موجوداً
+ * @param queryInterface - واجهة الاستعلام
+ * @param table - اسم الجدول
+ * @param column - اسم العمود
+ * @param attributes - تعريف العمود (نفس تعريف الـ Model)
+ */
+async function addColumnIfMissing(
+  queryInterface: QueryInterface,
+  table: string,
+  column: string,
+  attributes: ModelAttributeColumnOptions
+): Promise<void> {
+  if (!(await queryInterface.tableExists(table))) {
+    return;
+  }
+
+  const columns = await queryInterface.describeTable(table);
+  if (columns[column]) {
+    return;
+  }
+
+  await queryInterface.addColumn(table, column, attributes);
+  console.log(`🛠️ Added column ${table}.${column}`);
+}
+
+/**
+ * إضافة قيمة لنوع ENUM موجود في Postgres إذا لم تكن موجودة
+ * (ALTER TYPE ... ADD VALUE لا يعمل داخل transaction في Postgres أقدم من 12)
+ * @param queryInterface - واجهة الاستعلام
+ * @param enumName - اسم النوع (enum_<table>_<column>)
+ * @param value - القيمة الجديدة
+ */
+async function addEnumValueIfMissing(queryInterface: QueryInterface, enumName: string, value: string): Promise<void> {
+  const [rows] = await queryInterface.sequelize.query(
+    `SELECT e.enumlabel AS label
+       FROM pg_type t LEFT JOIN pg_enum e ON e.enumtypid = t.oid
+      WHERE t.typname = :enumName`,
+    { replacements: { enumName } }
+  ) as [{ label: string | null }[], unknown];
+
+  // النوع غير موجود: سينشئه sync بجميع القيم
+  if (rows.length === 0 || rows.some((row) => row.label === value)) {
+    return;
+  }
+
+  await queryInterface.sequelize.query(`ALTER TYPE "${enumName}" ADD VALUE IF NOT EXISTS '${value}'`);
+  console.log(`🛠️ Added value ${value} to ${enumName}`);
+}
+
+// ===================== Migrations =====================
+
+const MIGRATIONS: SchemaMigration[] = [
+  {
+    name: 'tokens.user_id',
+    up: (queryInterface) => addColumnIfMissing(queryInterface, 'tokens', 'user_id', {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'users', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+      comment: 'معرف المستخدم صاحب التوكن - Owner user ID'
+    })
+  },
+  {
+    name: 'tokens.family_id',
+    up: (queryInterface) => addColumnIfMissing(queryInterface, 'tokens', 'family_id', {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف عائلة التوكنات (ثابت عبر عمليات التدوير) - Token family ID (stable across rotations)'
+    })
+  },
+  {
+    name: 'tokens.last_used_at',
+    up: (queryInterface) => addColumnIfMissing(queryInterface, 'tokens', 'last_used_at', {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'آخر استخدام للتوكن - Last time the token was used'
+    })
+  },
+  {
+    name: 'enum_tokens_type.twoFactorChallenge',
+    up: (queryInterface) => addEnumValueIfMissing(queryInterface, 'enum_tokens_type', TokenType.TWO_FACTOR_CHALLENGE)
+  },
+  {
+    name: 'enum_tokens_type.webauthnChallenge',
+    up: (queryInterface) => addEnumValueIfMissing(queryInterface, 'enum_tokens_type', TokenType.WEBAUTHN_CHALLENGE)
+  },
+  {
+    name: 'enum_tokens_type.magicLink',
+    up: (queryInterface) => addEnumValueIfMissing(queryInterface, 'enum_tokens_type', TokenType.MAGIC_LINK)
+  },
+  {
+    name: 'enum_users_auth_provider.github',
+    up: (queryInterface) => addEnumValueIfMissing(queryInterface, 'enum_users_auth_provider', AuthProvider.GITHUB)
+  },
+  {
+    name: 'enum_users_auth_provider.discord',
+    up: (queryInterface) => addEnumValueIfMissing(queryInterface, 'enum_users_auth_provider', AuthProvider.DISCORD)
+  },
+  {
+    name: 'project_admins.role_id',
+    up: async (queryInterface) => {
+      if (!(await queryInterface.tableExists('project_admins'))) {
+        return;
+      }
+      // جدول الأدوار جديد: يُنشأ أولاً حتى يُربط به العمود
+      await Role.sync();
+      await addColumnIfMissing(queryInterface, 'project_admins', 'role_id', {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: { model: 'roles', key: 'id' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        comment: 'الدور المخصص (صلاحياته تُضاف إلى الصلاحيات المباشرة) - Custom role ID'
+      });
+    }
+  }
+];
+
+/**
+ * تشغيل جميع الترقيات بالترتيب (قبل sequelize.sync)
+ */
+export async function runMigrations(): Promise<void> {
+  const queryInterface = sequelize.getQueryInterface();
+
+  for (const migration of MIGRATIONS) {
+    try {
+      await migration.up(queryInterface);
+    } catch (error) {
+      console.error(`❌ Migration ${migration.name} failed:`, error);
+      throw error;
+    }
+  }
+}
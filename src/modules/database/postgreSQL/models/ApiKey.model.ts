@@ -0,0 +1,125 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج مفاتيح API الشخصية - API Key Model
+ * المفتاح نفسه لا يُخزن، فقط بصمة SHA-256 الخاصة به وبادئة قصيرة للعرض
+ * @module ApiKeyModel
+ */
+
+// ===================== Interfaces =====================
+
+interface ApiKeyAttributes {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  permissions: string[];
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ApiKeyCreationAttributes extends Optional<ApiKeyAttributes, 'id' | 'permissions' | 'expires_at' | 'last_used_at' | 'last_used_ip' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class ApiKey extends Model<ApiKeyAttributes, ApiKeyCreationAttributes> implements ApiKeyAttributes {
+  declare id: string;
+  declare user_id: string;
+  declare name: string;
+  declare prefix: string;
+  declare key_hash: string;
+  declare permissions: string[];
+  declare expires_at?: Date | null;
+  declare last_used_at?: Date | null;
+  declare last_used_ip?: string | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+
+  /**
+   * التحقق من انتهاء صلاحية المفتاح
+   */
+  isExpired(): boolean {
+    return Boolean(this.expires_at) && new Date() > this.expires_at!;
+  }
+}
+
+ApiKey.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف المفتاح الفريد - API key ID'
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'معرف صاحب المفتاح - Owner user ID'
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      comment: 'اسم يختاره المستخدم للمفتاح - User label'
+    },
+    prefix: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      comment: 'بداية المفتاح للتعرف عليه في القائمة - Display prefix'
+    },
+    key_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'بصمة SHA-256 للمفتاح - SHA-256 hash of the key'
+    },
+    permissions: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'صلاحيات المفتاح (نفس صلاحيات المشرفين) - Scoped permissions (ProjectAdmin permission strings)'
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'تاريخ انتهاء الصلاحية (NULL = بدون انتهاء) - Expiry (NULL = never)'
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'آخر استخدام للمفتاح - Last used at'
+    },
+    last_used_ip: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      comment: 'عنوان IP لآخر استخدام - Last used IP'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'user_api_keys',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['key_hash'],
+        name: 'unique_api_key_hash'
+      },
+      {
+        fields: ['user_id'],
+        name: 'idx_api_keys_user_id'
+      }
+    ],
+    comment: 'جدول مفاتيح API الشخصية - Personal API Keys Table'
+  }
+);
+
+export default ApiKey;
+export type { ApiKeyAttributes, ApiKeyCreationAttributes };
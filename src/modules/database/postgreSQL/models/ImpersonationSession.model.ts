@@ -0,0 +1,115 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج جلسات انتحال الهوية - Impersonation Session Model
+ * سجل تدقيق لكل مرة يدخل فيها المالك بحساب مستخدم آخر (من، لمن، لماذا، متى بدأ ومتى انتهى)
+ * @module ImpersonationSessionModel
+ */
+
+// ===================== Interfaces =====================
+
+interface ImpersonationSessionAttributes {
+  id: string;
+  impersonator_id: string;
+  target_user_id: string;
+  reason?: string | null;
+  started_at: Date;
+  expires_at: Date;
+  ended_at?: Date | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ImpersonationSessionCreationAttributes extends Optional<ImpersonationSessionAttributes, 'id' | 'reason' | 'ended_at' | 'ip_address' | 'user_agent' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class ImpersonationSession extends Model<ImpersonationSessionAttributes, ImpersonationSessionCreationAttributes> implements ImpersonationSessionAttributes {
+  declare id: string;
+  declare impersonator_id: string;
+  declare target_user_id: string;
+  declare reason?: string | null;
+  declare started_at: Date;
+  declare expires_at: Date;
+  declare ended_at?: Date | null;
+  declare ip_address?: string | null;
+  declare user_agent?: string | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+ImpersonationSession.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف الجلسة الفريد (ويستخدم كعائلة التوكن) - Session ID (also the token family)'
+    },
+    impersonator_id: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      comment: 'معرف المالك الذي بدأ الجلسة - Impersonating owner ID'
+    },
+    target_user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'معرف المستخدم المنتحل - Impersonated user ID'
+    },
+    reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      comment: 'سبب الدخول (مثل رقم تذكرة الدعم) - Reason (e.g. support ticket)'
+    },
+    started_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'بداية الجلسة - Started at'
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'انتهاء صلاحية التوكن - Token expiry'
+    },
+    ended_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'إنهاء الجلسة يدوياً (NULL = انتهت بانتهاء الصلاحية أو ما زالت نشطة) - Ended manually'
+    },
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      comment: 'عنوان IP للمالك - Owner IP address'
+    },
+    user_agent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      comment: 'متصفح المالك - Owner user agent'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'impersonation_sessions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        fields: ['target_user_id'],
+        name: 'idx_impersonation_sessions_target_user_id'
+      },
+      {
+        fields: ['impersonator_id'],
+        name: 'idx_impersonation_sessions_impersonator_id'
+      }
+    ],
+    comment: 'جدول سجل انتحال الهوية - Impersonation Audit Log Table'
+  }
+);
+
+export default ImpersonationSession;
+export type { ImpersonationSessionAttributes, ImpersonationSessionCreationAttributes };
@@ -0,0 +1,120 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج دعوات التسجيل - Invitation Model
+ * التوكن نفسه لا يُخزن، فقط بصمة SHA-256 الخاصة به
+ * @module InvitationModel
+ */
+
+// ===================== Interfaces =====================
+
+interface InvitationAttributes {
+  id: string;
+  email: string;
+  token_hash: string;
+  permissions?: string[] | null;
+  invited_by?: string | null;
+  expires_at: Date;
+  accepted_at?: Date | null;
+  accepted_by?: string | null;
+  revoked_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface InvitationCreationAttributes extends Optional<InvitationAttributes, 'id' | 'permissions' | 'invited_by' | 'accepted_at' | 'accepted_by' | 'revoked_at' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class Invitation extends Model<InvitationAttributes, InvitationCreationAttributes> implements InvitationAttributes {
+  declare id: string;
+  declare email: string;
+  declare token_hash: string;
+  declare permissions?: string[] | null;
+  declare invited_by?: string | null;
+  declare expires_at: Date;
+  declare accepted_at?: Date | null;
+  declare accepted_by?: string | null;
+  declare revoked_at?: Date | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+Invitation.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف الدعوة الفريد - Invitation ID'
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        isEmail: true
+      },
+      comment: 'البريد المدعو - Invited email'
+    },
+    token_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'بصمة SHA-256 لتوكن الدعوة - SHA-256 hash of the invitation token'
+    },
+    permissions: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: true,
+      comment: 'صلاحيات مشرف تُمنح عند قبول الدعوة (NULL = مستخدم عادي) - ProjectAdmin permissions granted on accept'
+    },
+    invited_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف من أنشأ الدعوة - Inviter user ID'
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'تاريخ انتهاء الدعوة - Expiry'
+    },
+    accepted_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'تاريخ قبول الدعوة - Accepted at'
+    },
+    accepted_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف الحساب الذي أُنشئ بالدعوة - Created account ID'
+    },
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'تاريخ إلغاء الدعوة - Revoked at'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'invitations',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['token_hash'],
+        name: 'unique_invitation_token_hash'
+      },
+      {
+        fields: ['email'],
+        name: 'idx_invitations_email'
+      }
+    ],
+    comment: 'جدول دعوات التسجيل - Registration Invitations Table'
+  }
+);
+
+export default Invitation;
+export type { InvitationAttributes, InvitationCreationAttributes };
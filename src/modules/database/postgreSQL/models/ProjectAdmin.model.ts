@@ -12,18 +12,20 @@ import sequelize from '../config/db.config.js';
 interface ProjectAdminAttributes {
   id: string;
   user_id: string;
+  role_id?: string | null;
   permissions: string[];
   created_at?: Date;
   updated_at?: Date;
 }
 
-interface ProjectAdminCreationAttributes extends Optional<ProjectAdminAttributes, 'id' | 'permissions' | 'created_at' | 'updated_at'> {}
+interface ProjectAdminCreationAttributes extends Optional<ProjectAdminAttributes, 'id' | 'role_id' | 'permissions' | 'created_at' | 'updated_at'> {}
 
 // ===================== Model Definition =====================
 
 class ProjectAdmin extends Model<ProjectAdminAttributes, ProjectAdminCreationAttributes> implements ProjectAdminAttributes {
   declare id: string;
   declare user_id: string;
+  declare role_id?: string | null;
   declare permissions: string[];
   declare created_at: Date;
   declare updated_at: Date;
@@ -43,11 +45,16 @@ ProjectAdmin.init(
       unique: true,
       comment: 'معرف المستخدم - User ID (NULL if user deleted)'
     },
+    role_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'الدور المخصص (صلاحياته تُضاف إلى الصلاحيات المباشرة) - Custom role ID'
+    },
     permissions: {
       type: DataTypes.ARRAY(DataTypes.STRING),
       allowNull: false,
       defaultValue: [],
-      comment: 'قائمة الصلاحيات - Permissions list'
+      comment: 'الصلاحيات المباشرة (إضافة إلى صلاحيات الدور) - Direct permissions (on top of the role)'
     }
   },
   {
@@ -62,6 +69,10 @@ ProjectAdmin.init(
         unique: true,
         fields: ['user_id'],
         name: 'unique_user_id'
+      },
+      {
+        fields: ['role_id'],
+        name: 'idx_project_admins_role_id'
       }
     ],
     comment: 'جدول مشرفي البوت - Project Admins Table'
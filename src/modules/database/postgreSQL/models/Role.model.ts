@@ -0,0 +1,87 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج الأدوار المخصصة - Role Model
+ * مجموعة صلاحيات باسم تُسند للمشرفين، وتعديلها يُطبق على جميع من يحملها
+ * الأدوار الأساسية (owner, admin, user, guest) ثابتة في الكود ولا تُخزن هنا
+ * @module RoleModel
+ */
+
+// ===================== Interfaces =====================
+
+interface RoleAttributes {
+  id: string;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  created_by?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface RoleCreationAttributes extends Optional<RoleAttributes, 'id' | 'description' | 'permissions' | 'created_by' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class Role extends Model<RoleAttributes, RoleCreationAttributes> implements RoleAttributes {
+  declare id: string;
+  declare name: string;
+  declare description?: string | null;
+  declare permissions: string[];
+  declare created_by?: string | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+Role.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف الدور الفريد - Role ID'
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      comment: 'اسم الدور (فريد) - Role name (unique)'
+    },
+    description: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      comment: 'وصف الدور - Role description'
+    },
+    permissions: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'صلاحيات الدور - Role permissions'
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف من أنشأ الدور - Creator user ID'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'roles',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['name'],
+        name: 'unique_role_name'
+      }
+    ],
+    comment: 'جدول الأدوار المخصصة - Custom Roles Table'
+  }
+);
+
+export default Role;
+export type { RoleAttributes, RoleCreationAttributes };
@@ -0,0 +1,137 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج الأحداث الأمنية - Security Event Model
+ * سجل تسجيلات الدخول (الناجحة والفاشلة) وتجديد التوكنات وتغييرات كلمة المرور والمصادقة الثنائية وإلغاء الجلسات
+ * @module SecurityEventModel
+ */
+
+// ===================== Enums =====================
+
+/**
+ * أنواع الأحداث الأمنية
+ * Security event types
+ */
+export enum SecurityEventType {
+  LOGIN_SUCCEEDED = 'login_succeeded',
+  LOGIN_FAILED = 'login_failed',
+  TOKEN_REFRESHED = 'token_refreshed',
+  PASSWORD_CHANGED = 'password_changed',
+  PASSWORD_RESET = 'password_reset',
+  TWO_FACTOR_ENABLED = 'two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'two_factor_disabled',
+  RECOVERY_CODES_REGENERATED = 'recovery_codes_regenerated',
+  TOKENS_REVOKED = 'tokens_revoked'
+}
+
+// ===================== Interfaces =====================
+
+interface SecurityEventAttributes {
+  id: string;
+  user_id?: string | null;
+  type: SecurityEventType;
+  success: boolean;
+  provider?: string | null;
+  email?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  details?: Record<string, unknown> | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface SecurityEventCreationAttributes extends Optional<SecurityEventAttributes, 'id' | 'user_id' | 'provider' | 'email' | 'ip_address' | 'user_agent' | 'details' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class SecurityEvent extends Model<SecurityEventAttributes, SecurityEventCreationAttributes> implements SecurityEventAttributes {
+  declare id: string;
+  declare user_id?: string | null;
+  declare type: SecurityEventType;
+  declare success: boolean;
+  declare provider?: string | null;
+  declare email?: string | null;
+  declare ip_address?: string | null;
+  declare user_agent?: string | null;
+  declare details?: Record<string, unknown> | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+SecurityEvent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف الحدث الفريد - Event ID'
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف المستخدم (NULL لمحاولة دخول ببريد غير مسجل) - User ID (NULL for unknown accounts)'
+    },
+    type: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        isIn: [Object.values(SecurityEventType)]
+      },
+      comment: 'نوع الحدث - Event type (login_succeeded, login_failed, token_refreshed, ...)'
+    },
+    success: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      comment: 'نجاح العملية - Whether the action succeeded'
+    },
+    provider: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+      comment: 'طريقة المصادقة (password, google, github, discord, passkey, magic_link, two_factor) - Auth method'
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'البريد المستخدم في المحاولة - Email used in the attempt'
+    },
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      comment: 'عنوان IP - IP address'
+    },
+    user_agent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      comment: 'المتصفح أو الجهاز - User agent'
+    },
+    details: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'تفاصيل إضافية (سبب الفشل، عدد التوكنات الملغاة...) - Extra details'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'security_events',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id', 'created_at'],
+        name: 'idx_security_events_user_id_created_at'
+      },
+      {
+        fields: ['type'],
+        name: 'idx_security_events_type'
+      }
+    ],
+    comment: 'جدول الأحداث الأمنية - Security Events Table'
+  }
+);
+
+export default SecurityEvent;
+export type { SecurityEventAttributes, SecurityEventCreationAttributes };
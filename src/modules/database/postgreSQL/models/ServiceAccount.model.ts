@@ -0,0 +1,108 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج حسابات الخدمة - Service Account Model
+ * عملاء النظام (البوت، الخدمات الداخلية) بصلاحيات صريحة بدلاً من صلاحيات المالك الضمنية
+ * @module ServiceAccountModel
+ */
+
+// ===================== Interfaces =====================
+
+interface ServiceAccountAttributes {
+  id: string;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  allowed_ips: string[];
+  created_by?: string | null;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ServiceAccountCreationAttributes extends Optional<ServiceAccountAttributes, 'id' | 'description' | 'permissions' | 'allowed_ips' | 'created_by' | 'last_used_at' | 'last_used_ip' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class ServiceAccount extends Model<ServiceAccountAttributes, ServiceAccountCreationAttributes> implements ServiceAccountAttributes {
+  declare id: string;
+  declare name: string;
+  declare description?: string | null;
+  declare permissions: string[];
+  declare allowed_ips: string[];
+  declare created_by?: string | null;
+  declare last_used_at?: Date | null;
+  declare last_used_ip?: string | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+ServiceAccount.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف حساب الخدمة الفريد - Service account ID'
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+      comment: 'اسم حساب الخدمة - Service account name'
+    },
+    description: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      comment: 'وصف الاستخدام - Description'
+    },
+    permissions: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'الصلاحيات الممنوحة (نفس صلاحيات المشرفين) - Granted permissions (ProjectAdmin permission strings)'
+    },
+    allowed_ips: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'عناوين IP أو نطاقات CIDR المسموحة (فارغة = الكل) - IP allowlist (empty = any)'
+    },
+    created_by: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'معرف المالك الذي أنشأ الحساب - Created by (owner ID)'
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'آخر استخدام - Last used at'
+    },
+    last_used_ip: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      comment: 'عنوان IP لآخر استخدام - Last used IP'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'service_accounts',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['name'],
+        name: 'unique_service_account_name'
+      }
+    ],
+    comment: 'جدول حسابات الخدمة - Service Accounts Table'
+  }
+);
+
+export default ServiceAccount;
+export type { ServiceAccountAttributes, ServiceAccountCreationAttributes };
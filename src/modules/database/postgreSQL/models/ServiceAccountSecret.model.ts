@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج أسرار حسابات الخدمة - Service Account Secret Model
+ * يمكن أن يملك الحساب عدة أسرار فعالة في نفس الوقت أثناء التدوير (القديم ينتهي بعد فترة سماح)
+ * @module ServiceAccountSecretModel
+ */
+
+// ===================== Interfaces =====================
+
+interface ServiceAccountSecretAttributes {
+  id: string;
+  service_account_id: string;
+  prefix: string;
+  secret_hash: string;
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface ServiceAccountSecretCreationAttributes extends Optional<ServiceAccountSecretAttributes, 'id' | 'expires_at' | 'last_used_at' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class ServiceAccountSecret extends Model<ServiceAccountSecretAttributes, ServiceAccountSecretCreationAttributes> implements ServiceAccountSecretAttributes {
+  declare id: string;
+  declare service_account_id: string;
+  declare prefix: string;
+  declare secret_hash: string;
+  declare expires_at?: Date | null;
+  declare last_used_at?: Date | null;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+ServiceAccountSecret.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'معرف السر الفريد - Secret ID'
+    },
+    service_account_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'معرف حساب الخدمة - Service account ID'
+    },
+    prefix: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      comment: 'بداية السر للتعرف عليه - Display prefix'
+    },
+    secret_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'بصمة SHA-256 للسر - SHA-256 hash of the secret'
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'نهاية فترة السماح بعد التدوير (NULL = فعال) - Expiry after rotation (NULL = active)'
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'آخر استخدام - Last used at'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'service_account_secrets',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['secret_hash'],
+        name: 'unique_service_account_secret_hash'
+      },
+      {
+        fields: ['service_account_id'],
+        name: 'idx_service_account_secrets_account_id'
+      }
+    ],
+    comment: 'جدول أسرار حسابات الخدمة - Service Account Secrets Table'
+  }
+);
+
+export default ServiceAccountSecret;
+export type { ServiceAccountSecretAttributes, ServiceAccountSecretCreationAttributes };
@@ -0,0 +1,62 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج إعدادات النظام - System Setting Model
+ * إعدادات يتحكم فيها المالك أثناء التشغيل (مفتاح / قيمة)
+ * @module SystemSettingModel
+ */
+
+// ===================== Interfaces =====================
+
+interface SystemSettingAttributes {
+  key: string;
+  value: unknown;
+  updated_by?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface SystemSettingCreationAttributes extends Optional<SystemSettingAttributes, 'updated_by' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class SystemSetting extends Model<SystemSettingAttributes, SystemSettingCreationAttributes> implements SystemSettingAttributes {
+  declare key: string;
+  declare value: unknown;
+  declare updated_by?: string;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+SystemSetting.init(
+  {
+    key: {
+      type: DataTypes.STRING(100),
+      primaryKey: true,
+      comment: 'مفتاح الإعداد - Setting key'
+    },
+    value: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'قيمة الإعداد - Setting value'
+    },
+    updated_by: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'آخر من عدّل الإعداد - Last updated by (user ID)'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'system_settings',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    comment: 'جدول إعدادات النظام - System Settings Table'
+  }
+);
+
+export default SystemSetting;
+export type { SystemSettingAttributes, SystemSettingCreationAttributes };
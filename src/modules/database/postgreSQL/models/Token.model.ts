@@ -13,7 +13,10 @@ export enum TokenType {
   ACCESS = 'access',
   REFRESH = 'refresh',
   RESET_PASSWORD = 'resetPassword',
-  VERIFY_EMAIL = 'verifyEmail'
+  VERIFY_EMAIL = 'verifyEmail',
+  TWO_FACTOR_CHALLENGE = 'twoFactorChallenge',
+  WEBAUTHN_CHALLENGE = 'webauthnChallenge',
+  MAGIC_LINK = 'magicLink'
 }
 
 // ===================== Interfaces =====================
@@ -22,16 +25,19 @@ interface TokenAttributes {
   id: string;
   token: string;
   type: TokenType;
+  user_id?: string;
+  family_id?: string;
   refresh_token?: string;
   expires_at: Date;
   used: boolean;
   ip_address?: string;
   user_agent?: string;
+  last_used_at?: Date;
   created_at?: Date;
   updated_at?: Date;
 }
 
-interface TokenCreationAttributes extends Optional<TokenAttributes, 'id' | 'used' | 'refresh_token' | 'ip_address' | 'user_agent' | 'created_at' | 'updated_at'> {}
+interface TokenCreationAttributes extends Optional<TokenAttributes, 'id' | 'used' | 'user_id' | 'family_id' | 'refresh_token' | 'ip_address' | 'user_agent' | 'last_used_at' | 'created_at' | 'updated_at'> {}
 
 // ===================== Model Definition =====================
 
@@ -39,11 +45,14 @@ class Token extends Model<TokenAttributes, TokenCreationAttributes> implements T
   declare id: string;
   declare token: string;
   declare type: TokenType;
+  declare user_id?: string;
+  declare family_id?: string;
   declare refresh_token?: string;
   declare expires_at: Date;
   declare used: boolean;
   declare ip_address?: string;
   declare user_agent?: string;
+  declare last_used_at?: Date;
   declare created_at: Date;
   declare updated_at: Date;
 }
@@ -65,7 +74,17 @@ Token.init(
     type: {
       type: DataTypes.ENUM(...Object.values(TokenType)),
       allowNull: false,
-      comment: 'نوع التوكن - Token type (access, refresh, resetPassword, verifyEmail)'
+      comment: 'نوع التوكن - Token type (access, refresh, resetPassword, verifyEmail, twoFactorChallenge, webauthnChallenge, magicLink)'
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف المستخدم صاحب التوكن - Owner user ID'
+    },
+    family_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'معرف عائلة التوكنات (ثابت عبر عمليات التدوير) - Token family ID (stable across rotations)'
     },
     refresh_token: {
       type: DataTypes.TEXT,
@@ -92,6 +111,11 @@ Token.init(
       type: DataTypes.TEXT,
       allowNull: true,
       comment: 'معلومات الجهاز/المتصفح - Device/Browser information'
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'آخر استخدام للتوكن - Last time the token was used'
     }
   },
   {
@@ -107,6 +131,14 @@ Token.init(
         fields: ['token'],
         name: 'unique_token'
       },
+      {
+        fields: ['user_id'],
+        name: 'idx_token_user_id'
+      },
+      {
+        fields: ['family_id'],
+        name: 'idx_token_family_id'
+      },
       {
         fields: ['refresh_token'],
         name: 'idx_refresh_token'
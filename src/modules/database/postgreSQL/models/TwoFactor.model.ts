@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج المصادقة الثنائية - Two Factor Model
+ * يحتوي على سر TOTP ورموز الاسترداد لكل مستخدم فعّل المصادقة الثنائية
+ * @module TwoFactorModel
+ */
+
+// ===================== Interfaces =====================
+
+interface TwoFactorAttributes {
+  id: string;
+  user_id: string;
+  secret: string;
+  enabled: boolean;
+  recovery_codes: string[];
+  last_used_step?: number;
+  enabled_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface TwoFactorCreationAttributes extends Optional<TwoFactorAttributes, 'id' | 'enabled' | 'recovery_codes' | 'last_used_step' | 'enabled_at' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class TwoFactor extends Model<TwoFactorAttributes, TwoFactorCreationAttributes> implements TwoFactorAttributes {
+  declare id: string;
+  declare user_id: string;
+  declare secret: string;
+  declare enabled: boolean;
+  declare recovery_codes: string[];
+  declare last_used_step?: number;
+  declare enabled_at?: Date;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+TwoFactor.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'المعرف الفريد - Two Factor ID'
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+      comment: 'معرف المستخدم - User ID'
+    },
+    secret: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'سر TOTP بصيغة Base32 - TOTP secret (Base32)'
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      comment: 'هل تم تأكيد التفعيل؟ - Is enrollment confirmed?'
+    },
+    recovery_codes: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'رموز الاسترداد المشفرة (SHA-256) - Hashed recovery codes (SHA-256)'
+    },
+    last_used_step: {
+      type: DataTypes.BIGINT,
+      allowNull: true,
+      comment: 'آخر خطوة زمنية مستخدمة لمنع إعادة استخدام الرمز - Last used time step (replay protection)'
+    },
+    enabled_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'تاريخ التفعيل - Enabled at'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'user_two_factor',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['user_id'],
+        name: 'unique_two_factor_user_id'
+      }
+    ],
+    comment: 'جدول المصادقة الثنائية - Two Factor Table'
+  }
+);
+
+export default TwoFactor;
+export type { TwoFactorAttributes, TwoFactorCreationAttributes };
@@ -3,7 +3,7 @@ import sequelize from '../config/db.config.js';
 
 /**
  * نموذج المستخدم - User Model
- * يدعم التسجيل عبر البريد الإلكتروني وكلمة المرور أو عبر Google OAuth2
+ * يدعم التسجيل عبر البريد الإلكتروني وكلمة المرور أو عبر مزودي OAuth (Google, GitHub, Discord)
  * @module UserModel
  */
 
@@ -11,7 +11,9 @@ import sequelize from '../config/db.config.js';
 
 export enum AuthProvider {
   LOCAL = 'local',
-  GOOGLE = 'google'
+  GOOGLE = 'google',
+  GITHUB = 'github',
+  DISCORD = 'discord'
 }
 
 // ===================== Interfaces =====================
@@ -97,19 +99,19 @@ User.init(
     password_hash: {
       type: DataTypes.STRING(255),
       allowNull: true,
-      comment: 'كلمة المرور المشفرة (فقط للتسجيل المحلي)'
+      comment: 'كلمة المرور المشفرة (null إذا لم يضف المستخدم كلمة مرور)'
     },
     auth_provider: {
       type: DataTypes.ENUM(...Object.values(AuthProvider)),
       allowNull: false,
       defaultValue: AuthProvider.LOCAL,
-      comment: 'مزود المصادقة (local, google)'
+      comment: 'مزود التسجيل الأول (local, google, github, discord) - الهويات المرتبطة في user_identities'
     },
     google_id: {
       type: DataTypes.STRING(255),
       allowNull: true,
       unique: true,
-      comment: 'معرف Google الفريد'
+      comment: 'معرف Google الفريد (نسخة من هوية Google في user_identities)'
     },
     first_name: {
       type: DataTypes.STRING(100),
@@ -175,9 +177,6 @@ User.init(
         if (user.auth_provider === AuthProvider.GOOGLE && !user.google_id) {
           throw new Error('معرف Google مطلوب للتسجيل عبر Google');
         }
-        if (user.auth_provider === AuthProvider.GOOGLE) {
-          user.email_verified = true;
-        }
       }
     }
   }
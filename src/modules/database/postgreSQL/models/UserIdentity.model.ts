@@ -0,0 +1,91 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+import { AuthProvider } from './User.model.js';
+
+/**
+ * نموذج الهويات المرتبطة - User Identity Model
+ * كل صف يمثل حساباً خارجياً (Google...) مرتبطاً بالمستخدم، ويمكن للمستخدم ربط عدة مزودين
+ * كلمة المرور المحلية تبقى في users.password_hash
+ * @module UserIdentityModel
+ */
+
+// ===================== Interfaces =====================
+
+interface UserIdentityAttributes {
+  id: string;
+  user_id: string;
+  provider: AuthProvider;
+  provider_user_id: string;
+  email?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface UserIdentityCreationAttributes extends Optional<UserIdentityAttributes, 'id' | 'email' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class UserIdentity extends Model<UserIdentityAttributes, UserIdentityCreationAttributes> implements UserIdentityAttributes {
+  declare id: string;
+  declare user_id: string;
+  declare provider: AuthProvider;
+  declare provider_user_id: string;
+  declare email?: string;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+UserIdentity.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'المعرف الفريد - Identity ID'
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'معرف المستخدم - User ID'
+    },
+    provider: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      comment: 'مزود الهوية (google, github, discord) - Identity provider'
+    },
+    provider_user_id: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      comment: 'معرف المستخدم لدى المزود - Provider user ID (sub)'
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'البريد لدى المزود (قد يختلف عن بريد الحساب) - Provider email'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'user_identities',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['provider', 'provider_user_id'],
+        name: 'unique_identity_provider_user'
+      },
+      {
+        unique: true,
+        fields: ['user_id', 'provider'],
+        name: 'unique_identity_user_provider'
+      }
+    ],
+    comment: 'جدول الهويات المرتبطة - User Identities Table'
+  }
+);
+
+export default UserIdentity;
+export type { UserIdentityAttributes, UserIdentityCreationAttributes };
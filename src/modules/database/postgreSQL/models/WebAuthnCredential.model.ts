@@ -0,0 +1,119 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/db.config.js';
+
+/**
+ * نموذج مفاتيح المرور - WebAuthn Credential Model
+ * كل مستخدم يمكن أن يملك عدة مفاتيح مرور (هاتف، لابتوب، مفتاح أمان...)
+ * @module WebAuthnCredentialModel
+ */
+
+// ===================== Interfaces =====================
+
+interface WebAuthnCredentialAttributes {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  public_key: string;
+  algorithm: number;
+  sign_count: number;
+  transports: string[];
+  name?: string;
+  last_used_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface WebAuthnCredentialCreationAttributes extends Optional<WebAuthnCredentialAttributes, 'id' | 'sign_count' | 'transports' | 'name' | 'last_used_at' | 'created_at' | 'updated_at'> {}
+
+// ===================== Model Definition =====================
+
+class WebAuthnCredential extends Model<WebAuthnCredentialAttributes, WebAuthnCredentialCreationAttributes> implements WebAuthnCredentialAttributes {
+  declare id: string;
+  declare user_id: string;
+  declare credential_id: string;
+  declare public_key: string;
+  declare algorithm: number;
+  declare sign_count: number;
+  declare transports: string[];
+  declare name?: string;
+  declare last_used_at?: Date;
+  declare created_at: Date;
+  declare updated_at: Date;
+}
+
+WebAuthnCredential.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+      comment: 'المعرف الفريد - Credential row ID'
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'معرف المستخدم - User ID'
+    },
+    credential_id: {
+      type: DataTypes.STRING(1024),
+      allowNull: false,
+      unique: true,
+      comment: 'معرف المفتاح من المتصفح (base64url) - Credential ID (base64url)'
+    },
+    public_key: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      comment: 'المفتاح العام بصيغة SPKI DER (base64url) - Public key (SPKI DER, base64url)'
+    },
+    algorithm: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      comment: 'خوارزمية COSE (-7 ES256, -8 EdDSA, -257 RS256) - COSE algorithm'
+    },
+    sign_count: {
+      type: DataTypes.BIGINT,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'عداد التوقيعات لكشف المفاتيح المنسوخة - Signature counter (clone detection)'
+    },
+    transports: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'طرق الاتصال (usb, nfc, ble, internal, hybrid) - Transports'
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'اسم يختاره المستخدم للمفتاح - User label'
+    },
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'آخر تسجيل دخول بهذا المفتاح - Last used at'
+    }
+  },
+  {
+    sequelize,
+    tableName: 'user_webauthn_credentials',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['credential_id'],
+        name: 'unique_webauthn_credential_id'
+      },
+      {
+        fields: ['user_id'],
+        name: 'idx_webauthn_user_id'
+      }
+    ],
+    comment: 'جدول مفاتيح المرور - WebAuthn Credentials Table'
+  }
+);
+
+export default WebAuthnCredential;
+export type { WebAuthnCredentialAttributes, WebAuthnCredentialCreationAttributes };
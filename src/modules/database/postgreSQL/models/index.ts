@@ -4,6 +4,18 @@ import Token from './Token.model.js';
 import User from './User.model.js';
 import Subscription from './Subscription.model.js';
 import Car from './Car.model.js';
+import TwoFactor from './TwoFactor.model.js';
+import SystemSetting from './SystemSetting.model.js';
+import WebAuthnCredential from './WebAuthnCredential.model.js';
+import UserIdentity from './UserIdentity.model.js';
+import ApiKey from './ApiKey.model.js';
+import ServiceAccount from './ServiceAccount.model.js';
+import ServiceAccountSecret from './ServiceAccountSecret.model.js';
+import ImpersonationSession from './ImpersonationSession.model.js';
+import SecurityEvent from './SecurityEvent.model.js';
+import Invitation from './Invitation.model.js';
+import Role from './Role.model.js';
+import { runMigrations } from '../migrations/index.js';
 
 // ===================== تعريف العلاقات بين الـ Models =====================
 
@@ -33,21 +45,104 @@ User.hasOne(ProjectAdmin, {
   as: 'adminProfile' 
 });
 
-// ربط Token بـ User (اختياري - يمكن تفعيله عند إضافة user_id للتوكن)
-// Token.belongsTo(User, { 
-//   foreignKey: 'user_id', 
-//   as: 'user',
-//   onDelete: 'SET NULL',
-//   onUpdate: 'CASCADE'
-// });
-// User.hasMany(Token, { 
-//   foreignKey: 'user_id', 
-//   as: 'tokens' 
-// });
+// ربط ProjectAdmin بـ Role
+// عند حذف الدور، يبقى المشرف بصلاحياته المباشرة فقط
+ProjectAdmin.belongsTo(Role, { 
+  foreignKey: 'role_id', 
+  as: 'role',
+  onDelete: 'SET NULL',
+  onUpdate: 'CASCADE'
+});
+Role.hasMany(ProjectAdmin, { 
+  foreignKey: 'role_id', 
+  as: 'holders' 
+});
+
+// ربط Token بـ User
+// عند حذف المستخدم، يتم حذف جميع توكناته
+Token.belongsTo(User, { 
+  foreignKey: 'user_id', 
+  as: 'user',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+User.hasMany(Token, { 
+  foreignKey: 'user_id', 
+  as: 'tokens' 
+});
+
+// ربط TwoFactor بـ User
+// عند حذف المستخدم، يتم حذف إعدادات المصادقة الثنائية
+TwoFactor.belongsTo(User, { 
+  foreignKey: 'user_id', 
+  as: 'user',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+User.hasOne(TwoFactor, { 
+  foreignKey: 'user_id', 
+  as: 'twoFactor' 
+});
+
+// ربط WebAuthnCredential بـ User
+// عند حذف المستخدم، يتم حذف جميع مفاتيح المرور الخاصة به
+WebAuthnCredential.belongsTo(User, { 
+  foreignKey: 'user_id', 
+  as: 'user',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+User.hasMany(WebAuthnCredential, { 
+  foreignKey: 'user_id', 
+  as: 'webauthnCredentials' 
+});
+
+// ربط UserIdentity بـ User
+// عند حذف المستخدم، يتم حذف جميع هوياته المرتبطة
+UserIdentity.belongsTo(User, { 
+  foreignKey: 'user_id', 
+  as: 'user',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+User.hasMany(UserIdentity, { 
+  foreignKey: 'user_id', 
+  as: 'identities' 
+});
+
+// ربط ApiKey بـ User
+// عند حذف المستخدم، يتم حذف جميع مفاتيح API الخاصة به
+ApiKey.belongsTo(User, { 
+  foreignKey: 'user_id', 
+  as: 'user',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+User.hasMany(ApiKey, { 
+  foreignKey: 'user_id', 
+  as: 'apiKeys' 
+});
+
+// ربط ServiceAccountSecret بـ ServiceAccount
+// عند حذف حساب الخدمة، يتم حذف جميع أسراره
+ServiceAccountSecret.belongsTo(ServiceAccount, { 
+  foreignKey: 'service_account_id', 
+  as: 'serviceAccount',
+  onDelete: 'CASCADE',
+  onUpdate: 'CASCADE'
+});
+ServiceAccount.hasMany(ServiceAccountSecret, { 
+  foreignKey: 'service_account_id', 
+  as: 'secrets' 
+});
+
+// ImpersonationSession و SecurityEvent بدون علاقة مع User عمداً: سجلات التدقيق تبقى بعد حذف المستخدم
+// Invitation كذلك: الدعوة تبقى في السجل بعد حذف من أنشأها أو من قبلها
 
 // ===================== مزامنة قاعدة البيانات =====================
 
-sequelize.sync().then(() => {
+// الترقيات أولاً: sync لا يضيف الأعمدة الجديدة للجداول الموجودة
+runMigrations().then(() => sequelize.sync()).then(() => {
   console.log('All models and relationships were synchronized successfully.');
 }).catch((error) => {
   console.error('Error synchronizing models:', error);
@@ -59,5 +154,16 @@ export {
   User,
   Subscription,
   Car,
+  TwoFactor,
+  SystemSetting,
+  WebAuthnCredential,
+  UserIdentity,
+  ApiKey,
+  ServiceAccount,
+  ServiceAccountSecret,
+  ImpersonationSession,
+  SecurityEvent,
+  Invitation,
+  Role,
   sequelize
 };
@@ -0,0 +1,148 @@
+import { PGinsert, PGselectAll } from '../config/postgre.manager.js';
+import { ApiKey } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface ApiKeyData {
+  id?: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  permissions: string[];
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إدارة مفاتيح API الشخصية - API Keys Service
+ * Contains all operations related to users personal API keys
+ */
+class ApiKeysService {
+
+  /**
+   * الحصول على مفاتيح المستخدم
+   * Get API keys by user ID
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<ApiKeyData[]>} [result, error]
+   */
+  static async getByUserId(userId: string): ServiceResult<ApiKeyData[]> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في جلب مفاتيح API')];
+      }
+
+      const keys = await ApiKey.findAll({
+        where: { user_id: userId },
+        order: [['created_at', 'DESC']],
+        raw: true
+      });
+
+      return [keys as unknown as ApiKeyData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب مفاتيح API')];
+    }
+  }
+
+  /**
+   * الحصول على مفتاح ببصمته
+   * Get API key by hash
+   * 
+   * @param {string} keyHash - بصمة المفتاح / Key hash
+   * @returns {ServiceResult<ApiKeyData>} [result, error]
+   */
+  static async getByHash(keyHash: string): ServiceResult<ApiKeyData> {
+    try {
+      if (!keyHash) {
+        return [null, resolveError(new Error('بصمة المفتاح مطلوبة'), 'فشل في جلب مفتاح API')];
+      }
+
+      const keys = await PGselectAll(ApiKey, { key_hash: keyHash });
+
+      return [keys[0] as ApiKeyData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب مفتاح API')];
+    }
+  }
+
+  /**
+   * إنشاء مفتاح جديد
+   * Create API key
+   * 
+   * @param {ApiKeyData} keyData - بيانات المفتاح / Key data
+   * @returns {ServiceResult<ApiKeyData>} [result, error]
+   */
+  static async create(keyData: ApiKeyData): ServiceResult<ApiKeyData> {
+    try {
+      if (!keyData.user_id || !keyData.name || !keyData.key_hash) {
+        return [null, resolveError(new Error('بيانات المفتاح غير مكتملة'), 'فشل في إنشاء مفتاح API')];
+      }
+
+      const result = await PGinsert(ApiKey, keyData);
+
+      return [result.data as ApiKeyData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إنشاء مفتاح API')];
+    }
+  }
+
+  /**
+   * تحديث وقت وعنوان آخر استخدام للمفتاح
+   * Update key last used time and IP
+   * 
+   * @param {string} id - معرف المفتاح / Key ID
+   * @param {string} ip - عنوان IP / IP address
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async touch(id: string, ip?: string): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف المفتاح مطلوب'), 'فشل في تحديث مفتاح API')];
+      }
+
+      const [changedRows] = await ApiKey.update(
+        { last_used_at: new Date(), last_used_ip: ip || null },
+        { where: { id } }
+      );
+
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث مفتاح API')];
+    }
+  }
+
+  /**
+   * حذف (إلغاء) مفتاح يخص المستخدم
+   * Delete (revoke) a key owned by user
+   * 
+   * @param {string} id - معرف المفتاح / Key ID
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<boolean>} [deleted, error]
+   */
+  static async delete(id: string, userId: string): ServiceResult<boolean> {
+    try {
+      if (!id || !userId) {
+        return [null, resolveError(new Error('معرف المفتاح والمستخدم مطلوبان'), 'فشل في حذف مفتاح API')];
+      }
+
+      const deleted = await ApiKey.destroy({ where: { id, user_id: userId } });
+
+      return [deleted > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف مفتاح API')];
+    }
+  }
+}
+
+export default ApiKeysService;
+export type { ApiKeyData };
@@ -0,0 +1,138 @@
+import { FindOptions, Order, WhereOptions } from 'sequelize';
+import { PGinsert, PGselectAll } from '../config/postgre.manager.js';
+import { ImpersonationSession } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface ImpersonationSessionData {
+  id?: string;
+  impersonator_id: string;
+  target_user_id: string;
+  reason?: string | null;
+  started_at: Date;
+  expires_at: Date;
+  ended_at?: Date | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+interface QueryOptions {
+  impersonator_id?: string;
+  target_user_id?: string;
+  limit?: number;
+  offset?: number;
+  order?: Order;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة سجل انتحال الهوية - Impersonation Sessions Service
+ * Contains all operations related to the owner impersonation audit log
+ */
+class ImpersonationSessionsService {
+
+  /**
+   * الحصول على سجل الجلسات (مع التصفية حسب المالك أو المستخدم المستهدف)
+   * Get impersonation sessions
+   * 
+   * @param {QueryOptions} options - خيارات الاستعلام / Query options
+   * @returns {ServiceResult<ImpersonationSessionData[]>} [result, error]
+   */
+  static async getAll(options: QueryOptions = {}): ServiceResult<ImpersonationSessionData[]> {
+    try {
+      const { impersonator_id, target_user_id, limit, offset, order = [['started_at', 'DESC']] } = options;
+
+      const where: WhereOptions = {
+        ...(impersonator_id && { impersonator_id }),
+        ...(target_user_id && { target_user_id })
+      };
+
+      const queryOptions: FindOptions = {
+        where,
+        order,
+        ...(limit && { limit }),
+        ...(offset && { offset }),
+        raw: true
+      };
+
+      const sessions = await ImpersonationSession.findAll(queryOptions);
+
+      return [sessions as unknown as ImpersonationSessionData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب سجل انتحال الهوية')];
+    }
+  }
+
+  /**
+   * الحصول على جلسة بواسطة المعرف
+   * Get session by ID
+   * 
+   * @param {string} id - معرف الجلسة / Session ID
+   * @returns {ServiceResult<ImpersonationSessionData>} [result, error]
+   */
+  static async getById(id: string): ServiceResult<ImpersonationSessionData> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الجلسة مطلوب'), 'فشل في جلب جلسة انتحال الهوية')];
+      }
+
+      const sessions = await PGselectAll(ImpersonationSession, { id });
+
+      return [sessions[0] as ImpersonationSessionData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب جلسة انتحال الهوية')];
+    }
+  }
+
+  /**
+   * تسجيل بداية جلسة جديدة
+   * Create (start) a session
+   * 
+   * @param {ImpersonationSessionData} sessionData - بيانات الجلسة / Session data
+   * @returns {ServiceResult<ImpersonationSessionData>} [result, error]
+   */
+  static async create(sessionData: ImpersonationSessionData): ServiceResult<ImpersonationSessionData> {
+    try {
+      if (!sessionData.impersonator_id || !sessionData.target_user_id) {
+        return [null, resolveError(new Error('بيانات الجلسة غير مكتملة'), 'فشل في تسجيل جلسة انتحال الهوية')];
+      }
+
+      const result = await PGinsert(ImpersonationSession, sessionData);
+
+      return [result.data as ImpersonationSessionData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تسجيل جلسة انتحال الهوية')];
+    }
+  }
+
+  /**
+   * تسجيل نهاية الجلسة (مرة واحدة فقط)
+   * End a session (only once)
+   * 
+   * @param {string} id - معرف الجلسة / Session ID
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async end(id: string): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الجلسة مطلوب'), 'فشل في إنهاء جلسة انتحال الهوية')];
+      }
+
+      const [changedRows] = await ImpersonationSession.update({ ended_at: new Date() }, { where: { id, ended_at: null } });
+
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إنهاء جلسة انتحال الهوية')];
+    }
+  }
+}
+
+export default ImpersonationSessionsService;
+export type { ImpersonationSessionData, QueryOptions };
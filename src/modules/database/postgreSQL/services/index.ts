@@ -8,7 +8,19 @@ import TokensService from './tokens.service.js';
 import UsersService from './users.service.js';
 import SubscriptionsService from './subscriptions.service.js';
 import CarsService from './cars.service.js';
+import TwoFactorService from './twoFactor.service.js';
+import SystemSettingsService, { SystemSettingKey } from './systemSettings.service.js';
+import WebAuthnCredentialsService from './webAuthnCredentials.service.js';
+import UserIdentitiesService from './userIdentities.service.js';
+import ApiKeysService from './apiKeys.service.js';
+import ServiceAccountsService from './serviceAccounts.service.js';
+import ServiceAccountSecretsService from './serviceAccountSecrets.service.js';
+import ImpersonationSessionsService from './impersonationSessions.service.js';
+import SecurityEventsService from './securityEvents.service.js';
+import InvitationsService from './invitations.service.js';
+import RolesService from './roles.service.js';
 import { TokenType } from '../models/Token.model.js';
+import { SecurityEventType } from '../models/SecurityEvent.model.js';
 import { AuthProvider } from '../models/User.model.js';
 import { SubscriptionStatus, BillingInterval } from '../models/Subscription.model.js';
 
@@ -19,7 +31,20 @@ export {
   UsersService,
   SubscriptionsService,
   CarsService,
+  TwoFactorService,
+  SystemSettingsService,
+  SystemSettingKey,
+  WebAuthnCredentialsService,
+  UserIdentitiesService,
+  ApiKeysService,
+  ServiceAccountsService,
+  ServiceAccountSecretsService,
+  ImpersonationSessionsService,
+  SecurityEventsService,
+  InvitationsService,
+  RolesService,
   TokenType,
+  SecurityEventType,
   AuthProvider,
   SubscriptionStatus,
   BillingInterval
@@ -28,6 +53,17 @@ export {
 // تصدير الأنواع
 export type { ProjectAdminData, QueryOptions as ProjectAdminQueryOptions, UpdateData as ProjectAdminUpdateData } from './projectAdmins.service.js';
 export type { TokenData, QueryOptions as TokenQueryOptions, UpdateData as TokenUpdateData } from './tokens.service.js';
-export type { UserData, LocalRegistrationData, GoogleRegistrationData, QueryOptions as UserQueryOptions, UpdateData as UserUpdateData } from './users.service.js';
+export type { UserData, LocalRegistrationData, IdentityRegistrationData, QueryOptions as UserQueryOptions, UpdateData as UserUpdateData } from './users.service.js';
 export type { SubscriptionData, QueryOptions as SubscriptionQueryOptions, UpdateData as SubscriptionUpdateData } from './subscriptions.service.js';
-export type { CarData, QueryOptions as CarQueryOptions, UpdateData as CarUpdateData } from './cars.service.js';
\ No newline at end of file
+export type { CarData, QueryOptions as CarQueryOptions, UpdateData as CarUpdateData } from './cars.service.js';
+export type { TwoFactorData, UpdateData as TwoFactorUpdateData } from './twoFactor.service.js';
+export type { SystemSettingData } from './systemSettings.service.js';
+export type { WebAuthnCredentialData } from './webAuthnCredentials.service.js';
+export type { UserIdentityData } from './userIdentities.service.js';
+export type { ApiKeyData } from './apiKeys.service.js';
+export type { ServiceAccountData, QueryOptions as ServiceAccountQueryOptions, UpdateData as ServiceAccountUpdateData } from './serviceAccounts.service.js';
+export type { ServiceAccountSecretData } from './serviceAccountSecrets.service.js';
+export type { ImpersonationSessionData, QueryOptions as ImpersonationSessionQueryOptions } from './impersonationSessions.service.js';
+export type { SecurityEventData, QueryOptions as SecurityEventQueryOptions } from './securityEvents.service.js';
+export type { InvitationData, InvitationStatus, QueryOptions as InvitationQueryOptions } from './invitations.service.js';
+export type { RoleData, QueryOptions as RoleQueryOptions, UpdateData as RoleUpdateData } from './roles.service.js';
@@ -0,0 +1,233 @@
+import { Op, FindOptions, Order, WhereOptions } from 'sequelize';
+import { PGinsert, PGselectAll } from '../config/postgre.manager.js';
+import { Invitation } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface InvitationData {
+  id?: string;
+  email: string;
+  token_hash: string;
+  permissions?: string[] | null;
+  invited_by?: string | null;
+  expires_at: Date;
+  accepted_at?: Date | null;
+  accepted_by?: string | null;
+  revoked_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+interface QueryOptions {
+  email?: string;
+  status?: InvitationStatus;
+  limit?: number;
+  offset?: number;
+  order?: Order;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة دعوات التسجيل - Invitations Service
+ * Contains all operations related to registration invitations
+ */
+class InvitationsService {
+
+  /**
+   * شرط البحث حسب حالة الدعوة
+   * Where clause for an invitation status
+   */
+  private static statusWhere(status: InvitationStatus): WhereOptions {
+    const now = new Date();
+
+    switch (status) {
+      case 'accepted':
+        return { accepted_at: { [Op.ne]: null } };
+      case 'revoked':
+        return { revoked_at: { [Op.ne]: null } };
+      case 'expired':
+        return { accepted_at: null, revoked_at: null, expires_at: { [Op.lte]: now } };
+      default:
+        return { accepted_at: null, revoked_at: null, expires_at: { [Op.gt]: now } };
+    }
+  }
+
+  /**
+   * الحصول على الدعوات مع التصفية
+   * Get invitations with filters
+   *
+   * @param {QueryOptions} options - خيارات الاستعلام / Query options
+   * @returns {ServiceResult<InvitationData[]>} [result, error]
+   */
+  static async getAll(options: QueryOptions = {}): ServiceResult<InvitationData[]> {
+    try {
+      const { email, status, limit, offset, order = [['created_at', 'DESC']] } = options;
+
+      const queryOptions: FindOptions = {
+        where: {
+          ...(email && { email: email.trim().toLowerCase() }),
+          ...(status && InvitationsService.statusWhere(status))
+        },
+        order,
+        ...(limit && { limit }),
+        ...(offset && { offset }),
+        raw: true
+      };
+
+      const invitations = await Invitation.findAll(queryOptions);
+
+      return [invitations as unknown as InvitationData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الدعوات')];
+    }
+  }
+
+  /**
+   * الحصول على دعوة بواسطة المعرف
+   * Get invitation by ID
+   *
+   * @param {string} id - معرف الدعوة / Invitation ID
+   * @returns {ServiceResult<InvitationData>} [result, error]
+   */
+  static async getById(id: string): ServiceResult<InvitationData> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الدعوة مطلوب'), 'فشل في جلب الدعوة')];
+      }
+
+      const invitations = await PGselectAll(Invitation, { id });
+
+      return [invitations[0] as InvitationData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الدعوة')];
+    }
+  }
+
+  /**
+   * الحصول على دعوة ببصمة توكنها
+   * Get invitation by token hash
+   *
+   * @param {string} tokenHash - بصمة التوكن / Token hash
+   * @returns {ServiceResult<InvitationData>} [result, error]
+   */
+  static async getByTokenHash(tokenHash: string): ServiceResult<InvitationData> {
+    try {
+      if (!tokenHash) {
+        return [null, resolveError(new Error('بصمة التوكن مطلوبة'), 'فشل في جلب الدعوة')];
+      }
+
+      const invitations = await PGselectAll(Invitation, { token_hash: tokenHash });
+
+      return [invitations[0] as InvitationData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الدعوة')];
+    }
+  }
+
+  /**
+   * أحدث دعوة صالحة لبريد معين
+   * Get the latest pending invitation for an email
+   *
+   * @param {string} email - البريد الإلكتروني / Email
+   * @returns {ServiceResult<InvitationData>} [result, error]
+   */
+  static async getPendingByEmail(email: string): ServiceResult<InvitationData> {
+    try {
+      if (!email) {
+        return [null, resolveError(new Error('البريد الإلكتروني مطلوب'), 'فشل في جلب الدعوة')];
+      }
+
+      const [invitations, error] = await InvitationsService.getAll({ email, status: 'pending', limit: 1 });
+      if (error) {
+        return [null, error];
+      }
+
+      return [invitations?.[0] || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الدعوة')];
+    }
+  }
+
+  /**
+   * إنشاء دعوة جديدة
+   * Create invitation
+   *
+   * @param {InvitationData} invitationData - بيانات الدعوة / Invitation data
+   * @returns {ServiceResult<InvitationData>} [result, error]
+   */
+  static async create(invitationData: InvitationData): ServiceResult<InvitationData> {
+    try {
+      if (!invitationData.email || !invitationData.token_hash || !invitationData.expires_at) {
+        return [null, resolveError(new Error('بيانات الدعوة غير مكتملة'), 'فشل في إنشاء الدعوة')];
+      }
+
+      const result = await PGinsert(Invitation, {
+        ...invitationData,
+        email: invitationData.email.trim().toLowerCase()
+      });
+
+      return [result.data as InvitationData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إنشاء الدعوة')];
+    }
+  }
+
+  /**
+   * قبول الدعوة (مرة واحدة فقط: لا يُحدّث دعوة مقبولة أو ملغاة أو منتهية)
+   * Mark invitation as accepted (only once)
+   *
+   * @param {string} id - معرف الدعوة / Invitation ID
+   * @param {string} userId - الحساب الذي أُنشئ / Created account ID
+   * @returns {ServiceResult<boolean>} [accepted, error]
+   */
+  static async accept(id: string, userId: string): ServiceResult<boolean> {
+    try {
+      if (!id || !userId) {
+        return [null, resolveError(new Error('معرف الدعوة والمستخدم مطلوبان'), 'فشل في قبول الدعوة')];
+      }
+
+      const [changedRows] = await Invitation.update(
+        { accepted_at: new Date(), accepted_by: userId },
+        { where: { id, ...InvitationsService.statusWhere('pending') } }
+      );
+
+      return [changedRows > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في قبول الدعوة')];
+    }
+  }
+
+  /**
+   * إلغاء دعوة لم تُقبل بعد
+   * Revoke a not yet accepted invitation
+   *
+   * @param {string} id - معرف الدعوة / Invitation ID
+   * @returns {ServiceResult<boolean>} [revoked, error]
+   */
+  static async revoke(id: string): ServiceResult<boolean> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الدعوة مطلوب'), 'فشل في إلغاء الدعوة')];
+      }
+
+      const [changedRows] = await Invitation.update(
+        { revoked_at: new Date() },
+        { where: { id, accepted_at: null, revoked_at: null } }
+      );
+
+      return [changedRows > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إلغاء الدعوة')];
+    }
+  }
+}
+
+export default InvitationsService;
+export type { InvitationData, InvitationStatus, QueryOptions };
@@ -1,14 +1,17 @@
 import { Op, FindOptions, Order } from 'sequelize';
 import { PGinsert, PGupdate, PGdelete, PGselectAll } from '../config/postgre.manager.js';
-import { ProjectAdmin } from '../models/index.js';
+import { ProjectAdmin, Role } from '../models/index.js';
 import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
 // import { ProjectAdminCacheService } from '../../../cache/redis/index.js';
+import { IdentityCacheService } from '../../../cache/redis/index.js';
+import { getSatisfyingGrants, hasPermission } from '../../../auth/services/permissions.service.js';
 
 // ===================== Types =====================
 
 interface ProjectAdminData {
   id?: string;
   user_id: string;
+  role_id?: string | null;
   permissions: string[];
   created_at?: Date;
   updated_at?: Date;
@@ -24,6 +27,7 @@ interface QueryOptions {
 interface UpdateData {
   id?: string;
   user_id?: string;
+  role_id?: string | null;
   permissions?: string[];
   [key: string]: unknown;
 }
@@ -143,11 +147,21 @@ class ProjectAdminsService {
         return [null, resolveError(new Error('الصلاحية مطلوبة'), 'فشل في البحث عن المشرفين')];
       }
 
+      // مباشرة أو عبر دور، بالاسم أو اسمه القديم أو حرف بدل أو إجراء يشملها (cars:write)
+      const grants = getSatisfyingGrants(permission);
+      const roles = await Role.findAll({
+        where: { permissions: { [Op.overlap]: grants } },
+        attributes: ['id'],
+        raw: true
+      });
+      const roleIds = roles.map(role => role.id);
+
       const projectAdmins = await ProjectAdmin.findAll({
         where: {
-          permissions: {
-            [Op.contains]: [permission]
-          }
+          [Op.or]: [
+            { permissions: { [Op.overlap]: grants } },
+            ...(roleIds.length > 0 ? [{ role_id: { [Op.in]: roleIds } }] : [])
+          ]
         }
       });
 
@@ -182,12 +196,19 @@ class ProjectAdminsService {
         return [null, resolveError(new Error('المشرف موجود بالفعل'), 'فشل في إنشاء المشرف')];
       }
 
+      if (projectAdminData.role_id && !(await Role.findByPk(projectAdminData.role_id))) {
+        return [null, resolveError(new Error('الدور غير موجود'), 'فشل في إنشاء المشرف')];
+      }
+
       // حذف المشرف من التخزين المؤقت
       // await ProjectAdminCacheService.deleteProjectAdmin(null, projectAdminData.user_id);
 
       console.log(':X: Deleted project admin cache for user:', projectAdminData.user_id);
 
       const newProjectAdmin = await PGinsert(ProjectAdmin, projectAdminData);
+
+      // الدور والصلاحيات المخزنة مؤقتاً مع توكنات المستخدم لم تعد صحيحة
+      await IdentityCacheService.invalidateUser(projectAdminData.user_id);
       
       return [newProjectAdmin.data as ProjectAdminData, null];
     } catch (error) {
@@ -225,10 +246,15 @@ class ProjectAdminsService {
         return [null, resolveError(new Error('لا يوجد بيانات كافية للتحديث لان المعرفات لا يمكن تحديثها'), 'فشل في تحديث المشرف')];
       }
 
+      if (dataToUpdate.role_id && !(await Role.findByPk(dataToUpdate.role_id))) {
+        return [null, resolveError(new Error('الدور غير موجود'), 'فشل في تحديث المشرف')];
+      }
+
       const updatedProjectAdmin = await PGupdate(ProjectAdmin, dataToUpdate, { id });
 
       // Cache the updated project admin
       // await ProjectAdminCacheService.deleteProjectAdmin(id, existingProjectAdmin[0].user_id);  
+      await IdentityCacheService.invalidateUser(existingProjectAdmin[0].user_id as string);
       
       return [updatedProjectAdmin, null];
     } catch (error) {
@@ -266,6 +292,7 @@ class ProjectAdminsService {
 
       // Clear cache
       // await ProjectAdminCacheService.deleteProjectAdmin(id, existingProjectAdmin[0].user_id);
+      await IdentityCacheService.invalidateUser(existingProjectAdmin[0].user_id as string);
 
       return [result, null];
     } catch (error) {
@@ -299,6 +326,7 @@ class ProjectAdminsService {
 
       // Clear cache
       // await ProjectAdminCacheService.deleteProjectAdmin(id, existingProjectAdmin[0].user_id);
+      await IdentityCacheService.invalidateUser(existingProjectAdmin[0].user_id as string);
 
       return [result, null];
     } catch (error) {
@@ -328,6 +356,10 @@ class ProjectAdminsService {
       }
 
       await PGdelete(ProjectAdmin, { id });
+
+      if (existingProjectAdmin && existingProjectAdmin.length > 0) {
+        await IdentityCacheService.invalidateUser(existingProjectAdmin[0].user_id as string);
+      }
       
       return [existingProjectAdmin[0] as ProjectAdminData, null];
     } catch (error) {
@@ -335,6 +367,29 @@ class ProjectAdminsService {
     }
   }
 
+  /**
+   * الصلاحيات الفعلية للمشرف: صلاحيات دوره مع صلاحياته المباشرة
+   * Effective permissions: role permissions plus direct permissions
+   * 
+   * @param {ProjectAdminData} projectAdmin - بيانات المشرف / Project admin data
+   * @returns {ServiceResult<string[]>} [permissions, error]
+   */
+  static async getEffectivePermissions(projectAdmin: ProjectAdminData): ServiceResult<string[]> {
+    try {
+      const directPermissions = projectAdmin.permissions || [];
+      if (!projectAdmin.role_id) {
+        return [[...new Set(directPermissions)], null];
+      }
+
+      const roles = await PGselectAll(Role, { id: projectAdmin.role_id });
+      const rolePermissions = (roles[0]?.permissions as string[]) || [];
+
+      return [[...new Set([...rolePermissions, ...directPermissions])], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب صلاحيات المشرف')];
+    }
+  }
+
   /**
    * التحقق من وجود صلاحية لمشرف البوت
    * Check if project admin has permission
@@ -355,13 +410,34 @@ class ProjectAdminsService {
         return [false, null];
       }
 
-      const hasPermission = projectAdmin.permissions?.includes(permission) || false;
-      
-      return [hasPermission, null];
+      const [permissions, permissionsError] = await this.getEffectivePermissions(projectAdmin);
+      if (permissionsError) {
+        return [false, permissionsError];
+      }
+
+      return [hasPermission(permissions!, permission), null];
     } catch (error) {
       return [false, resolveError(error as Error, 'فشل في التحقق من الصلاحية')];
     }
   }
+
+  /**
+   * إبطال الهويات المخزنة مؤقتاً لجميع المشرفين (عند تغيير سياسة تؤثر على دورهم)
+   * Invalidate cached identities of every project admin
+   *
+   * @returns {ServiceResult<number>} [invalidatedCount, error]
+   */
+  static async invalidateAllIdentities(): ServiceResult<number> {
+    try {
+      const projectAdmins = await ProjectAdmin.findAll({ attributes: ['user_id'] });
+      const userIds = projectAdmins.map((admin) => admin.user_id).filter(Boolean);
+
+      await Promise.all(userIds.map((userId) => IdentityCacheService.invalidateUser(userId)));
+      return [userIds.length, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إبطال هويات المشرفين')];
+    }
+  }
 }
 
 export default ProjectAdminsService;
@@ -0,0 +1,251 @@
+import { FindOptions, Order } from 'sequelize';
+import { PGinsert, PGupdate, PGselectAll } from '../config/postgre.manager.js';
+import { Role, ProjectAdmin } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+import { IdentityCacheService } from '../../../cache/redis/index.js';
+
+// ===================== Types =====================
+
+interface RoleData {
+  id?: string;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  created_by?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+interface QueryOptions {
+  limit?: number;
+  offset?: number;
+  order?: Order;
+}
+
+interface UpdateData {
+  name?: string;
+  description?: string | null;
+  permissions?: string[];
+  [key: string]: unknown;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة الأدوار المخصصة - Roles Service
+ * Contains all operations related to custom roles and their holders
+ */
+class RolesService {
+
+  /**
+   * الحصول على جميع الأدوار
+   * Get all roles
+   *
+   * @param {QueryOptions} options - خيارات الاستعلام / Query options
+   * @returns {ServiceResult<RoleData[]>} [result, error]
+   */
+  static async getAll(options: QueryOptions = {}): ServiceResult<RoleData[]> {
+    try {
+      const { limit, offset, order = [['name', 'ASC']] } = options;
+
+      const queryOptions: FindOptions = {
+        order,
+        ...(limit && { limit }),
+        ...(offset && { offset }),
+        raw: true
+      };
+
+      const roles = await Role.findAll(queryOptions);
+
+      return [roles as unknown as RoleData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الأدوار')];
+    }
+  }
+
+  /**
+   * الحصول على دور بواسطة المعرف
+   * Get role by ID
+   *
+   * @param {string} id - معرف الدور / Role ID
+   * @returns {ServiceResult<RoleData>} [result, error]
+   */
+  static async getById(id: string): ServiceResult<RoleData> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الدور مطلوب'), 'فشل في جلب الدور')];
+      }
+
+      const roles = await PGselectAll(Role, { id });
+
+      return [roles[0] as RoleData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الدور')];
+    }
+  }
+
+  /**
+   * الحصول على دور بواسطة الاسم
+   * Get role by name
+   *
+   * @param {string} name - اسم الدور / Role name
+   * @returns {ServiceResult<RoleData>} [result, error]
+   */
+  static async getByName(name: string): ServiceResult<RoleData> {
+    try {
+      if (!name) {
+        return [null, resolveError(new Error('اسم الدور مطلوب'), 'فشل في جلب الدور')];
+      }
+
+      const roles = await PGselectAll(Role, { name: name.trim() });
+
+      return [roles[0] as RoleData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الدور')];
+    }
+  }
+
+  /**
+   * معرفات المستخدمين الذين يحملون الدور
+   * Get user IDs of the role holders
+   *
+   * @param {string} id - معرف الدور / Role ID
+   * @returns {ServiceResult<string[]>} [userIds, error]
+   */
+  static async getHolderUserIds(id: string): ServiceResult<string[]> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الدور مطلوب'), 'فشل في جلب حاملي الدور')];
+      }
+
+      const holders = await ProjectAdmin.findAll({
+        where: { role_id: id },
+        attributes: ['user_id'],
+        raw: true
+      });
+
+      return [holders.map((holder) => holder.user_id).filter(Boolean), null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب حاملي الدور')];
+    }
+  }
+
+  /**
+   * إبطال الهويات المخزنة مؤقتاً لجميع حاملي الدور
+   * Invalidate cached identities of every role holder
+   */
+  private static async invalidateHolders(id: string): Promise<void> {
+    const [userIds] = await RolesService.getHolderUserIds(id);
+    await Promise.all((userIds || []).map((userId) => IdentityCacheService.invalidateUser(userId)));
+  }
+
+  /**
+   * إنشاء دور جديد
+   * Create new role
+   *
+   * @param {RoleData} roleData - بيانات الدور / Role data
+   * @returns {ServiceResult<RoleData>} [result, error]
+   */
+  static async create(roleData: RoleData): ServiceResult<RoleData> {
+    try {
+      if (!roleData || !roleData.name) {
+        return [null, resolveError(new Error('اسم الدور مطلوب'), 'فشل في إنشاء الدور')];
+      }
+
+      const [existingRole] = await RolesService.getByName(roleData.name);
+      if (existingRole) {
+        return [null, resolveError(new Error('يوجد دور بهذا الاسم بالفعل'), 'فشل في إنشاء الدور')];
+      }
+
+      const result = await PGinsert(Role, {
+        ...roleData,
+        name: roleData.name.trim(),
+        permissions: [...new Set(roleData.permissions || [])]
+      });
+
+      return [result.data as RoleData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إنشاء الدور')];
+    }
+  }
+
+  /**
+   * تحديث دور (يُطبق فوراً على جميع حامليه)
+   * Update role (applies to every holder at once)
+   *
+   * @param {string} id - معرف الدور / Role ID
+   * @param {UpdateData} updateData - البيانات المحدثة / Updated data
+   * @returns {ServiceResult<RoleData>} [result, error]
+   */
+  static async update(id: string, updateData: UpdateData): ServiceResult<RoleData> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الدور مطلوب'), 'فشل في تحديث الدور')];
+      }
+
+      const { name, description, permissions } = updateData || {};
+      const dataToUpdate = {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description }),
+        ...(permissions !== undefined && { permissions: [...new Set(permissions)] })
+      };
+      if (Object.keys(dataToUpdate).length === 0) {
+        return [null, resolveError(new Error('بيانات التحديث مطلوبة'), 'فشل في تحديث الدور')];
+      }
+
+      const [existingRole] = await RolesService.getById(id);
+      if (!existingRole) {
+        return [null, resolveError(new Error('الدور غير موجود'), 'فشل في تحديث الدور')];
+      }
+
+      if (dataToUpdate.name && dataToUpdate.name !== existingRole.name) {
+        const [sameName] = await RolesService.getByName(dataToUpdate.name);
+        if (sameName) {
+          return [null, resolveError(new Error('يوجد دور بهذا الاسم بالفعل'), 'فشل في تحديث الدور')];
+        }
+      }
+
+      await PGupdate(Role, dataToUpdate, { id });
+
+      // صلاحيات جميع حاملي الدور تغيرت
+      if (dataToUpdate.permissions) {
+        await RolesService.invalidateHolders(id);
+      }
+
+      return RolesService.getById(id);
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث الدور')];
+    }
+  }
+
+  /**
+   * حذف دور (حاملوه يبقون مشرفين بصلاحياتهم المباشرة فقط)
+   * Delete role (holders keep only their direct permissions)
+   *
+   * @param {string} id - معرف الدور / Role ID
+   * @returns {ServiceResult<boolean>} [deleted, error]
+   */
+  static async delete(id: string): ServiceResult<boolean> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف الدور مطلوب'), 'فشل في حذف الدور')];
+      }
+
+      const [userIds] = await RolesService.getHolderUserIds(id);
+
+      const deleted = await Role.destroy({ where: { id } });
+
+      await Promise.all((userIds || []).map((userId) => IdentityCacheService.invalidateUser(userId)));
+
+      return [deleted > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف الدور')];
+    }
+  }
+}
+
+export default RolesService;
+export type { RoleData, QueryOptions, UpdateData };
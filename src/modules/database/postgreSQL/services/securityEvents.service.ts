@@ -0,0 +1,119 @@
+import { Op, FindOptions, Order, WhereOptions } from 'sequelize';
+import { PGinsert } from '../config/postgre.manager.js';
+import { SecurityEvent } from '../models/index.js';
+import { SecurityEventType } from '../models/SecurityEvent.model.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface SecurityEventData {
+  id?: string;
+  user_id?: string | null;
+  type: SecurityEventType;
+  success: boolean;
+  provider?: string | null;
+  email?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  details?: Record<string, unknown> | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+interface QueryOptions {
+  user_id?: string;
+  types?: SecurityEventType[];
+  success?: boolean;
+  provider?: string;
+  ip_address?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+  order?: Order;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة الأحداث الأمنية - Security Events Service
+ * Contains all operations related to the per-user security event log
+ */
+class SecurityEventsService {
+
+  /**
+   * بناء شرط البحث من خيارات التصفية
+   * Build the where clause from filter options
+   */
+  private static buildWhere(options: QueryOptions): WhereOptions {
+    const { user_id, types, success, provider, ip_address, from, to } = options;
+
+    return {
+      ...(user_id && { user_id }),
+      ...(types && types.length > 0 && { type: { [Op.in]: types } }),
+      ...(typeof success === 'boolean' && { success }),
+      ...(provider && { provider }),
+      ...(ip_address && { ip_address }),
+      ...((from || to) && {
+        created_at: {
+          ...(from && { [Op.gte]: from }),
+          ...(to && { [Op.lte]: to })
+        }
+      })
+    };
+  }
+
+  /**
+   * الحصول على الأحداث مع التصفية والعدد الكلي (للتصفح)
+   * Get events with filters and the total count (for pagination)
+   *
+   * @param {QueryOptions} options - خيارات الاستعلام / Query options
+   * @returns {ServiceResult<{ events: SecurityEventData[]; total: number }>} [result, error]
+   */
+  static async getAll(options: QueryOptions = {}): ServiceResult<{ events: SecurityEventData[]; total: number }> {
+    try {
+      const { limit, offset, order = [['created_at', 'DESC']] } = options;
+
+      const queryOptions: FindOptions = {
+        where: SecurityEventsService.buildWhere(options),
+        order,
+        ...(limit && { limit }),
+        ...(offset && { offset }),
+        raw: true
+      };
+
+      const { rows, count } = await SecurityEvent.findAndCountAll(queryOptions);
+
+      return [{ events: rows as unknown as SecurityEventData[], total: count }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الأحداث الأمنية')];
+    }
+  }
+
+  /**
+   * تسجيل حدث جديد
+   * Create (record) an event
+   *
+   * @param {SecurityEventData} eventData - بيانات الحدث / Event data
+   * @returns {ServiceResult<SecurityEventData>} [result, error]
+   */
+  static async create(eventData: SecurityEventData): ServiceResult<SecurityEventData> {
+    try {
+      if (!eventData.type) {
+        return [null, resolveError(new Error('نوع الحدث مطلوب'), 'فشل في تسجيل الحدث الأمني')];
+      }
+
+      const result = await PGinsert(SecurityEvent, eventData);
+
+      return [result.data as SecurityEventData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تسجيل الحدث الأمني')];
+    }
+  }
+}
+
+export default SecurityEventsService;
+export type { SecurityEventData, QueryOptions };
@@ -0,0 +1,173 @@
+import { Op } from 'sequelize';
+import { PGinsert, PGselectAll } from '../config/postgre.manager.js';
+import { ServiceAccountSecret } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface ServiceAccountSecretData {
+  id?: string;
+  service_account_id: string;
+  prefix: string;
+  secret_hash: string;
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إدارة أسرار حسابات الخدمة - Service Account Secrets Service
+ * Contains all operations related to service account secrets and their rotation
+ */
+class ServiceAccountSecretsService {
+
+  /**
+   * الحصول على أسرار حساب الخدمة
+   * Get secrets by service account ID
+   * 
+   * @param {string} serviceAccountId - معرف حساب الخدمة / Service account ID
+   * @returns {ServiceResult<ServiceAccountSecretData[]>} [result, error]
+   */
+  static async getByServiceAccountId(serviceAccountId: string): ServiceResult<ServiceAccountSecretData[]> {
+    try {
+      if (!serviceAccountId) {
+        return [null, resolveError(new Error('معرف حساب الخدمة مطلوب'), 'فشل في جلب أسرار حساب الخدمة')];
+      }
+
+      const secrets = await ServiceAccountSecret.findAll({
+        where: { service_account_id: serviceAccountId },
+        order: [['created_at', 'DESC']],
+        raw: true
+      });
+
+      return [secrets as unknown as ServiceAccountSecretData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب أسرار حساب الخدمة')];
+    }
+  }
+
+  /**
+   * الحصول على سر ببصمته
+   * Get secret by hash
+   * 
+   * @param {string} secretHash - بصمة السر / Secret hash
+   * @returns {ServiceResult<ServiceAccountSecretData>} [result, error]
+   */
+  static async getByHash(secretHash: string): ServiceResult<ServiceAccountSecretData> {
+    try {
+      if (!secretHash) {
+        return [null, resolveError(new Error('بصمة السر مطلوبة'), 'فشل في جلب سر حساب الخدمة')];
+      }
+
+      const secrets = await PGselectAll(ServiceAccountSecret, { secret_hash: secretHash });
+
+      return [secrets[0] as ServiceAccountSecretData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب سر حساب الخدمة')];
+    }
+  }
+
+  /**
+   * إنشاء سر جديد
+   * Create secret
+   * 
+   * @param {ServiceAccountSecretData} secretData - بيانات السر / Secret data
+   * @returns {ServiceResult<ServiceAccountSecretData>} [result, error]
+   */
+  static async create(secretData: ServiceAccountSecretData): ServiceResult<ServiceAccountSecretData> {
+    try {
+      if (!secretData.service_account_id || !secretData.secret_hash) {
+        return [null, resolveError(new Error('بيانات السر غير مكتملة'), 'فشل في إنشاء سر حساب الخدمة')];
+      }
+
+      const result = await PGinsert(ServiceAccountSecret, secretData);
+
+      return [result.data as ServiceAccountSecretData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إنشاء سر حساب الخدمة')];
+    }
+  }
+
+  /**
+   * تحديد موعد انتهاء لكل الأسرار الفعالة (عند التدوير)
+   * الأسرار التي تنتهي قبل هذا الموعد لا تتغير
+   * Expire all active secrets at the given date (used during rotation)
+   * 
+   * @param {string} serviceAccountId - معرف حساب الخدمة / Service account ID
+   * @param {Date} expiresAt - موعد الانتهاء / Expiry date
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async expireActive(serviceAccountId: string, expiresAt: Date): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!serviceAccountId) {
+        return [null, resolveError(new Error('معرف حساب الخدمة مطلوب'), 'فشل في تدوير أسرار حساب الخدمة')];
+      }
+
+      const [changedRows] = await ServiceAccountSecret.update(
+        { expires_at: expiresAt },
+        {
+          where: {
+            service_account_id: serviceAccountId,
+            [Op.or]: [{ expires_at: null }, { expires_at: { [Op.gt]: expiresAt } }]
+          }
+        }
+      );
+
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تدوير أسرار حساب الخدمة')];
+    }
+  }
+
+  /**
+   * تحديث وقت آخر استخدام
+   * Update last used time
+   * 
+   * @param {string} id - معرف السر / Secret ID
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async touch(id: string): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف السر مطلوب'), 'فشل في تحديث سر حساب الخدمة')];
+      }
+
+      const [changedRows] = await ServiceAccountSecret.update({ last_used_at: new Date() }, { where: { id } });
+
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث سر حساب الخدمة')];
+    }
+  }
+
+  /**
+   * حذف (إلغاء فوري) سر يخص حساب الخدمة
+   * Delete (revoke immediately) a secret of the service account
+   * 
+   * @param {string} id - معرف السر / Secret ID
+   * @param {string} serviceAccountId - معرف حساب الخدمة / Service account ID
+   * @returns {ServiceResult<boolean>} [deleted, error]
+   */
+  static async delete(id: string, serviceAccountId: string): ServiceResult<boolean> {
+    try {
+      if (!id || !serviceAccountId) {
+        return [null, resolveError(new Error('معرف السر وحساب الخدمة مطلوبان'), 'فشل في حذف سر حساب الخدمة')];
+      }
+
+      const deleted = await ServiceAccountSecret.destroy({ where: { id, service_account_id: serviceAccountId } });
+
+      return [deleted > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف سر حساب الخدمة')];
+    }
+  }
+}
+
+export default ServiceAccountSecretsService;
+export type { ServiceAccountSecretData };
@@ -0,0 +1,197 @@
+import { FindOptions, Order } from 'sequelize';
+import { PGinsert, PGupdate, PGselectAll } from '../config/postgre.manager.js';
+import { ServiceAccount } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface ServiceAccountData {
+  id?: string;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  allowed_ips: string[];
+  created_by?: string | null;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+interface QueryOptions {
+  limit?: number;
+  offset?: number;
+  order?: Order;
+}
+
+interface UpdateData {
+  name?: string;
+  description?: string | null;
+  permissions?: string[];
+  allowed_ips?: string[];
+  [key: string]: unknown;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إدارة حسابات الخدمة - Service Accounts Service
+ * Contains all operations related to service accounts (system clients)
+ */
+class ServiceAccountsService {
+
+  /**
+   * الحصول على جميع حسابات الخدمة
+   * Get all service accounts
+   * 
+   * @param {QueryOptions} options - خيارات الاستعلام / Query options
+   * @returns {ServiceResult<ServiceAccountData[]>} [result, error]
+   */
+  static async getAll(options: QueryOptions = {}): ServiceResult<ServiceAccountData[]> {
+    try {
+      const { limit, offset, order = [['created_at', 'DESC']] } = options;
+
+      const queryOptions: FindOptions = {
+        order,
+        ...(limit && { limit }),
+        ...(offset && { offset }),
+        raw: true
+      };
+
+      const accounts = await ServiceAccount.findAll(queryOptions);
+
+      return [accounts as unknown as ServiceAccountData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب حسابات الخدمة')];
+    }
+  }
+
+  /**
+   * الحصول على حساب خدمة بواسطة المعرف
+   * Get service account by ID
+   * 
+   * @param {string} id - معرف الحساب / Service account ID
+   * @returns {ServiceResult<ServiceAccountData>} [result, error]
+   */
+  static async getById(id: string): ServiceResult<ServiceAccountData> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف حساب الخدمة مطلوب'), 'فشل في جلب حساب الخدمة')];
+      }
+
+      const accounts = await PGselectAll(ServiceAccount, { id });
+
+      return [accounts[0] as ServiceAccountData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب حساب الخدمة')];
+    }
+  }
+
+  /**
+   * إنشاء حساب خدمة جديد
+   * Create service account
+   * 
+   * @param {ServiceAccountData} accountData - بيانات الحساب / Account data
+   * @returns {ServiceResult<ServiceAccountData>} [result, error]
+   */
+  static async create(accountData: ServiceAccountData): ServiceResult<ServiceAccountData> {
+    try {
+      if (!accountData || !accountData.name) {
+        return [null, resolveError(new Error('اسم حساب الخدمة مطلوب'), 'فشل في إنشاء حساب الخدمة')];
+      }
+
+      const existing = await ServiceAccount.findOne({ where: { name: accountData.name } });
+      if (existing) {
+        return [null, resolveError(new Error('يوجد حساب خدمة بنفس الاسم'), 'فشل في إنشاء حساب الخدمة')];
+      }
+
+      const result = await PGinsert(ServiceAccount, accountData);
+
+      return [result.data as ServiceAccountData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إنشاء حساب الخدمة')];
+    }
+  }
+
+  /**
+   * تحديث حساب الخدمة
+   * Update service account
+   * 
+   * @param {string} id - معرف الحساب / Service account ID
+   * @param {UpdateData} updateData - البيانات المحدثة / Updated data
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async update(id: string, updateData: UpdateData): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف حساب الخدمة مطلوب'), 'فشل في تحديث حساب الخدمة')];
+      }
+
+      const { name, description, permissions, allowed_ips } = updateData || {};
+      const dataToUpdate = Object.fromEntries(
+        Object.entries({ name, description, permissions, allowed_ips }).filter(([, value]) => value !== undefined)
+      );
+      if (Object.keys(dataToUpdate).length === 0) {
+        return [null, resolveError(new Error('بيانات التحديث مطلوبة'), 'فشل في تحديث حساب الخدمة')];
+      }
+
+      const result = await PGupdate(ServiceAccount, dataToUpdate, { id });
+
+      return [result, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث حساب الخدمة')];
+    }
+  }
+
+  /**
+   * تحديث وقت وعنوان آخر استخدام
+   * Update last used time and IP
+   * 
+   * @param {string} id - معرف الحساب / Service account ID
+   * @param {string} ip - عنوان IP / IP address
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async touch(id: string, ip?: string): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف حساب الخدمة مطلوب'), 'فشل في تحديث حساب الخدمة')];
+      }
+
+      const [changedRows] = await ServiceAccount.update(
+        { last_used_at: new Date(), last_used_ip: ip || null },
+        { where: { id } }
+      );
+
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث حساب الخدمة')];
+    }
+  }
+
+  /**
+   * حذف حساب الخدمة (مع جميع أسراره)
+   * Delete service account (and all of its secrets)
+   * 
+   * @param {string} id - معرف الحساب / Service account ID
+   * @returns {ServiceResult<boolean>} [deleted, error]
+   */
+  static async delete(id: string): ServiceResult<boolean> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف حساب الخدمة مطلوب'), 'فشل في حذف حساب الخدمة')];
+      }
+
+      const deleted = await ServiceAccount.destroy({ where: { id } });
+
+      return [deleted > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف حساب الخدمة')];
+    }
+  }
+}
+
+export default ServiceAccountsService;
+export type { ServiceAccountData, QueryOptions, UpdateData };
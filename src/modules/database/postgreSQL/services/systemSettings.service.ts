@@ -0,0 +1,103 @@
+import { PGinsert, PGupdate, PGselectAll } from '../config/postgre.manager.js';
+import { SystemSetting } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+import { BaseIDCache } from '../../../cache/redis/index.js';
+
+// ===================== Types =====================
+
+interface SystemSettingData {
+  key: string;
+  value: unknown;
+  updated_by?: string;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Keys =====================
+
+/**
+ * مفاتيح الإعدادات المعروفة
+ * Known setting keys
+ */
+export enum SystemSettingKey {
+  REQUIRE_ADMIN_TWO_FACTOR = 'requireAdminTwoFactor'
+}
+
+// الإعدادات تُقرأ في كل طلب مصادق، لذلك نخزنها مؤقتاً
+const SETTINGS_CACHE_TTL = 5 * 60; // 5 دقائق
+const settingsCache = new BaseIDCache<{ value: unknown }>('system_setting:');
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إعدادات النظام - System Settings Service
+ * Contains operations for owner-controlled runtime settings
+ */
+class SystemSettingsService {
+
+  /**
+   * الحصول على قيمة إعداد
+   * Get setting value
+   * 
+   * @param {string} key - مفتاح الإعداد / Setting key
+   * @param {T} defaultValue - القيمة الافتراضية / Default value
+   * @returns {ServiceResult<T>} [result, error]
+   */
+  static async get<T = unknown>(key: string, defaultValue: T): ServiceResult<T> {
+    try {
+      if (!key) {
+        return [null, resolveError(new Error('مفتاح الإعداد مطلوب'), 'فشل في جلب الإعداد')];
+      }
+
+      const cached = await settingsCache.get(key);
+      if (cached) {
+        return [(cached.value ?? defaultValue) as T, null];
+      }
+
+      const settings = await PGselectAll(SystemSetting, { key });
+      const value = (settings[0] as SystemSettingData)?.value;
+
+      settingsCache.set(key, { value: value ?? null }, SETTINGS_CACHE_TTL);
+
+      return [(value ?? defaultValue) as T, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الإعداد')];
+    }
+  }
+
+  /**
+   * تعيين قيمة إعداد
+   * Set setting value
+   * 
+   * @param {string} key - مفتاح الإعداد / Setting key
+   * @param {unknown} value - القيمة / Value
+   * @param {string} updatedBy - معرف من قام بالتعديل / Updated by user ID
+   * @returns {ServiceResult<SystemSettingData>} [result, error]
+   */
+  static async set(key: string, value: unknown, updatedBy?: string): ServiceResult<SystemSettingData> {
+    try {
+      if (!key) {
+        return [null, resolveError(new Error('مفتاح الإعداد مطلوب'), 'فشل في حفظ الإعداد')];
+      }
+
+      const existing = await PGselectAll(SystemSetting, { key });
+      if (existing[0]) {
+        await PGupdate(SystemSetting, { value, updated_by: updatedBy }, { key });
+      } else {
+        await PGinsert(SystemSetting, { key, value, updated_by: updatedBy });
+      }
+
+      await settingsCache.deleteAsync(key);
+
+      return [{ key, value, updated_by: updatedBy }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حفظ الإعداد')];
+    }
+  }
+}
+
+export default SystemSettingsService;
+export type { SystemSettingData };
@@ -1,9 +1,10 @@
-import { Op, FindOptions, Order } from 'sequelize';
+import { Op, FindOptions, Order, WhereOptions } from 'sequelize';
 import { PGinsert, PGupdate, PGdelete, PGselectAll } from '../config/postgre.manager.js';
 import { Token } from '../models/index.js';
 import { TokenType } from '../models/Token.model.js';
 import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
 // import { TokenCacheService } from '../../../cache/redis/index.js';
+import { IdentityCacheService } from '../../../cache/redis/index.js';
 
 // ===================== Types =====================
 
@@ -11,11 +12,14 @@ interface TokenData {
   id?: string;
   token: string;
   type: TokenType;
+  user_id?: string;
+  family_id?: string;
   refresh_token?: string;
   expires_at: Date;
   used: boolean;
   ip_address?: string;
   user_agent?: string;
+  last_used_at?: Date;
   created_at?: Date;
   updated_at?: Date;
   [key: string]: unknown; // Allow index signature for compatibility
@@ -31,11 +35,14 @@ interface UpdateData {
   id?: string;
   token?: string;
   type?: TokenType;
+  user_id?: string;
+  family_id?: string;
   refresh_token?: string;
   expires_at?: Date;
   used?: boolean;
   ip_address?: string;
   user_agent?: string;
+  last_used_at?: Date;
   [key: string]: unknown;
 }
 
@@ -162,6 +169,36 @@ class TokensService {
     }
   }
 
+  /**
+   * الحصول على توكنات المستخدم
+   * Get tokens by user ID
+   *
+   * @param {string} userId - معرف المستخدم / User ID
+   * @param {TokenType} type - نوع التوكن (اختياري) / Token type (optional)
+   * @returns {ServiceResult<TokenData[]>} [result, error]
+   */
+  static async getByUserId(userId: string, type?: TokenType): ServiceResult<TokenData[]> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في جلب التوكنات')];
+      }
+
+      const tokens = await Token.findAll({
+        where: {
+          user_id: userId,
+          ...(type && { type })
+        },
+        order: [['created_at', 'DESC']]
+      });
+
+      // تحويل Sequelize Models إلى plain objects
+      const tokensData = tokens.map(token => (token.toJSON ? token.toJSON() : token) as TokenData);
+      return [tokensData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب التوكنات')];
+    }
+  }
+
   /**
    * الحصول على التوكنات بواسطة النوع
    * Get tokens by type
@@ -269,6 +306,10 @@ class TokensService {
    * وضع علامة استخدام على التوكن
    * Mark token as used
    * 
+   * التحديث ذري (فقط إذا لم يكن مستخدماً) حتى لا يمكن استخدام التوكن مرتين بطلبات متزامنة،
+   * لذلك changedRows = 0 تعني أن التوكن مستخدم بالفعل أو غير موجود
+   * The update is atomic (only when unused), so changedRows = 0 means the token was already used or does not exist
+   * 
    * @param {string} id - معرف التوكن / Token ID
    * @returns {ServiceResult<{ changedRows: number }>} [result, error]
    */
@@ -278,9 +319,33 @@ class TokensService {
         return [null, resolveError(new Error('معرف التوكن مطلوب'), 'فشل في تحديث التوكن')];
       }
 
-      const result = await this.update(id, { used: true });
+      const [changedRows] = await Token.update(
+        { used: true },
+        { where: { id, used: false } }
+      );
       
-      return result;
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث التوكن')];
+    }
+  }
+
+  /**
+   * تحديث وقت آخر استخدام للتوكن
+   * Update token last used time
+   *
+   * @param {string} id - معرف التوكن / Token ID
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async touch(id: string): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف التوكن مطلوب'), 'فشل في تحديث التوكن')];
+      }
+
+      const result = await PGupdate(Token, { last_used_at: new Date() }, { id });
+
+      return [result, null];
     } catch (error) {
       return [null, resolveError(error as Error, 'فشل في تحديث التوكن')];
     }
@@ -308,6 +373,10 @@ class TokensService {
       }
 
       await PGdelete(Token, { id });
+
+      if (existingToken && existingToken.length > 0) {
+        await IdentityCacheService.deleteToken(existingToken[0].token as string);
+      }
       
       return [existingToken[0] as TokenData, null];
     } catch (error) {
@@ -352,23 +421,119 @@ class TokensService {
         return [null, resolveError(new Error('refresh token مطلوب'), 'فشل في حذف التوكنات')];
       }
 
+      const where = {
+        [Op.or]: [
+          { refresh_token: refreshToken },
+          { token: refreshToken }
+        ]
+      };
+
+      const accessTokens = await TokensService.getAccessTokenValues(where);
+
+      const result = await Token.destroy({ where });
+
+      await TokensService.clearIdentityCache(accessTokens);
+
+      console.log(`Deleted ${result} tokens associated with refresh token`);
+      
+      return [result, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف التوكنات')];
+    }
+  }
+
+  /**
+   * حذف جميع التوكنات التابعة لنفس العائلة (جلسة تسجيل دخول واحدة عبر كل عمليات التدوير)
+   * Delete all tokens of a family (one login session across all refresh rotations)
+   *
+   * @param {string} familyId - معرف العائلة / Family ID
+   * @returns {ServiceResult<number>} [result, error]
+   */
+  static async deleteByFamilyId(familyId: string): ServiceResult<number> {
+    try {
+      if (!familyId) {
+        return [null, resolveError(new Error('معرف العائلة مطلوب'), 'فشل في حذف التوكنات')];
+      }
+
+      const accessTokens = await TokensService.getAccessTokenValues({ family_id: familyId });
+
       const result = await Token.destroy({
         where: {
-          [Op.or]: [
-            { refresh_token: refreshToken },
-            { token: refreshToken }
-          ]
+          family_id: familyId
         }
       });
 
-      console.log(`Deleted ${result} tokens associated with refresh token`);
-      
+      await TokensService.clearIdentityCache(accessTokens);
+
+      console.log(`Deleted ${result} tokens of family ${familyId}`);
+
+      return [result, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف التوكنات')];
+    }
+  }
+
+  /**
+   * حذف جميع توكنات المستخدم
+   * Delete all tokens belonging to a user
+   *
+   * @param {string} userId - معرف المستخدم / User ID
+   * @param {TokenType[]} types - أنواع التوكنات المراد حذفها (اختياري، الافتراضي: الكل) / Token types to delete (optional, default: all)
+   * @returns {ServiceResult<number>} [result, error]
+   */
+  static async deleteByUserId(userId: string, types?: TokenType[]): ServiceResult<number> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في حذف التوكنات')];
+      }
+
+      const result = await Token.destroy({
+        where: {
+          user_id: userId,
+          ...(types && types.length > 0 && { type: { [Op.in]: types } })
+        }
+      });
+
+      // هويات توكنات الـ access المخزنة مؤقتاً لم تعد صالحة
+      if (!types || types.length === 0 || types.includes(TokenType.ACCESS)) {
+        await IdentityCacheService.invalidateUser(userId);
+      }
+
+      console.log(`Deleted ${result} tokens for user ${userId}`);
+
       return [result, null];
     } catch (error) {
       return [null, resolveError(error as Error, 'فشل في حذف التوكنات')];
     }
   }
 
+  /**
+   * قيم توكنات الـ access المطابقة لشرط حذف (تُقرأ قبل الحذف)
+   * Access token values matching a delete condition (read before deleting)
+   *
+   * @param {WhereOptions} where - شرط الحذف / Delete condition
+   * @returns {Promise<string[]>} قيم التوكنات / Token values
+   */
+  private static async getAccessTokenValues(where: WhereOptions): Promise<string[]> {
+    const accessTokens = await Token.findAll({
+      where: { [Op.and]: [where, { type: TokenType.ACCESS }] },
+      attributes: ['token'],
+      raw: true
+    });
+
+    return accessTokens.map(t => (t as unknown as TokenData).token);
+  }
+
+  /**
+   * حذف هويات التوكنات المحذوفة من التخزين المؤقت (بعد حذفها من قاعدة البيانات)
+   * Clear cached identities of deleted tokens (after the database delete)
+   *
+   * @param {string[]} tokens - قيم التوكنات / Token values
+   */
+  private static async clearIdentityCache(tokens: string[]): Promise<void> {
+    await Promise.all(tokens.map(token => IdentityCacheService.deleteToken(token)));
+  }
+
   /**
    * التحقق من صلاحية التوكن
    * Validate token
@@ -0,0 +1,162 @@
+import { PGinsert, PGupdate, PGdelete, PGselectAll } from '../config/postgre.manager.js';
+import { TwoFactor } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+import { IdentityCacheService } from '../../../cache/redis/index.js';
+
+// ===================== Types =====================
+
+interface TwoFactorData {
+  id?: string;
+  user_id: string;
+  secret: string;
+  enabled: boolean;
+  recovery_codes: string[];
+  last_used_step?: number;
+  enabled_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+interface UpdateData {
+  secret?: string;
+  enabled?: boolean;
+  recovery_codes?: string[];
+  last_used_step?: number;
+  enabled_at?: Date | null;
+  [key: string]: unknown;
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إدارة المصادقة الثنائية - Two Factor Service
+ * Contains all operations related to users TOTP two-factor settings
+ */
+class TwoFactorService {
+
+  /**
+   * الحصول على إعدادات المصادقة الثنائية للمستخدم
+   * Get two-factor settings by user ID
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<TwoFactorData>} [result, error]
+   */
+  static async getByUserId(userId: string): ServiceResult<TwoFactorData> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في جلب إعدادات المصادقة الثنائية')];
+      }
+
+      const records = await PGselectAll(TwoFactor, { user_id: userId });
+
+      return [records[0] as TwoFactorData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب إعدادات المصادقة الثنائية')];
+    }
+  }
+
+  /**
+   * هل فعّل المستخدم المصادقة الثنائية؟
+   * Is two-factor enabled for user
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<boolean>} [result, error]
+   */
+  static async isEnabled(userId: string): ServiceResult<boolean> {
+    const [record, error] = await this.getByUserId(userId);
+    if (error) {
+      return [null, error];
+    }
+    return [Boolean(record?.enabled), null];
+  }
+
+  /**
+   * حفظ سر جديد (بدء التسجيل) - يستبدل أي تسجيل غير مؤكد سابق
+   * Save a new pending secret (start enrollment) - replaces any unconfirmed enrollment
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @param {string} secret - سر TOTP / TOTP secret
+   * @returns {ServiceResult<TwoFactorData>} [result, error]
+   */
+  static async savePendingSecret(userId: string, secret: string): ServiceResult<TwoFactorData> {
+    try {
+      if (!userId || !secret) {
+        return [null, resolveError(new Error('معرف المستخدم والسر مطلوبان'), 'فشل في حفظ سر المصادقة الثنائية')];
+      }
+
+      const [existing] = await this.getByUserId(userId);
+      if (existing?.enabled) {
+        return [null, resolveError(new Error('المصادقة الثنائية مفعّلة بالفعل'), 'فشل في حفظ سر المصادقة الثنائية')];
+      }
+
+      if (existing) {
+        await PGupdate(TwoFactor, { secret, recovery_codes: [], last_used_step: null }, { id: existing.id });
+        return [{ ...existing, secret, recovery_codes: [] }, null];
+      }
+
+      const result = await PGinsert(TwoFactor, { user_id: userId, secret, enabled: false, recovery_codes: [] });
+      return [result.data as TwoFactorData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حفظ سر المصادقة الثنائية')];
+    }
+  }
+
+  /**
+   * تحديث إعدادات المصادقة الثنائية للمستخدم
+   * Update two-factor settings by user ID
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @param {UpdateData} updateData - البيانات المحدثة / Updated data
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async updateByUserId(userId: string, updateData: UpdateData): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في تحديث إعدادات المصادقة الثنائية')];
+      }
+
+      if (!updateData || Object.keys(updateData).length === 0) {
+        return [null, resolveError(new Error('بيانات التحديث مطلوبة'), 'فشل في تحديث إعدادات المصادقة الثنائية')];
+      }
+
+      const result = await PGupdate(TwoFactor, updateData, { user_id: userId });
+
+      // تفعيل المصادقة الثنائية يغير صلاحيات المشرف عند فرضها (twoFactorSetupRequired)
+      if ('enabled' in updateData) {
+        await IdentityCacheService.invalidateUser(userId);
+      }
+
+      return [result, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث إعدادات المصادقة الثنائية')];
+    }
+  }
+
+  /**
+   * حذف إعدادات المصادقة الثنائية (إلغاء التفعيل)
+   * Delete two-factor settings (disable)
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<boolean>} [result, error]
+   */
+  static async deleteByUserId(userId: string): ServiceResult<boolean> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في إلغاء المصادقة الثنائية')];
+      }
+
+      await PGdelete(TwoFactor, { user_id: userId });
+      await IdentityCacheService.invalidateUser(userId);
+
+      return [true, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إلغاء المصادقة الثنائية')];
+    }
+  }
+}
+
+export default TwoFactorService;
+export type { TwoFactorData, UpdateData };
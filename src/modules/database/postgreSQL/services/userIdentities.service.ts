@@ -0,0 +1,140 @@
+import { PGinsert } from '../config/postgre.manager.js';
+import { UserIdentity } from '../models/index.js';
+import { AuthProvider } from '../models/User.model.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface UserIdentityData {
+  id?: string;
+  user_id: string;
+  provider: AuthProvider;
+  provider_user_id: string;
+  email?: string;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إدارة الهويات المرتبطة - User Identities Service
+ * Contains all operations related to external identities linked to users
+ */
+class UserIdentitiesService {
+
+  /**
+   * الحصول على هويات المستخدم
+   * Get identities by user ID
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<UserIdentityData[]>} [result, error]
+   */
+  static async getByUserId(userId: string): ServiceResult<UserIdentityData[]> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في جلب الهويات')];
+      }
+
+      const identities = await UserIdentity.findAll({
+        where: { user_id: userId },
+        order: [['created_at', 'ASC']],
+        raw: true
+      });
+
+      return [identities as unknown as UserIdentityData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الهويات')];
+    }
+  }
+
+  /**
+   * الحصول على هوية بمعرفها لدى المزود
+   * Get identity by provider and provider user ID
+   * 
+   * @param {AuthProvider} provider - المزود / Provider
+   * @param {string} providerUserId - المعرف لدى المزود / Provider user ID
+   * @returns {ServiceResult<UserIdentityData>} [result, error]
+   */
+  static async getByProviderId(provider: AuthProvider, providerUserId: string): ServiceResult<UserIdentityData> {
+    try {
+      if (!provider || !providerUserId) {
+        return [null, resolveError(new Error('المزود والمعرف مطلوبان'), 'فشل في جلب الهوية')];
+      }
+
+      const identity = await UserIdentity.findOne({
+        where: { provider, provider_user_id: providerUserId },
+        raw: true
+      });
+
+      return [identity as unknown as UserIdentityData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب الهوية')];
+    }
+  }
+
+  /**
+   * ربط هوية خارجية بالمستخدم
+   * Link an external identity to user
+   * 
+   * @param {UserIdentityData} identityData - بيانات الهوية / Identity data
+   * @returns {ServiceResult<UserIdentityData>} [result, error]
+   */
+  static async create(identityData: UserIdentityData): ServiceResult<UserIdentityData> {
+    try {
+      if (!identityData.user_id || !identityData.provider || !identityData.provider_user_id) {
+        return [null, resolveError(new Error('بيانات الهوية غير مكتملة'), 'فشل في ربط الهوية')];
+      }
+
+      const [existing] = await this.getByProviderId(identityData.provider, identityData.provider_user_id);
+      if (existing) {
+        if (existing.user_id === identityData.user_id) {
+          return [existing, null];
+        }
+        return [null, resolveError(new Error('هذا الحساب مرتبط بمستخدم آخر'), 'فشل في ربط الهوية')];
+      }
+
+      // مزود واحد من كل نوع لكل مستخدم
+      const linkedProvider = await UserIdentity.findOne({
+        where: { user_id: identityData.user_id, provider: identityData.provider }
+      });
+      if (linkedProvider) {
+        return [null, resolveError(new Error('يوجد حساب مرتبط بالفعل من نفس المزود'), 'فشل في ربط الهوية')];
+      }
+
+      const result = await PGinsert(UserIdentity, identityData);
+
+      return [result.data as UserIdentityData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في ربط الهوية')];
+    }
+  }
+
+  /**
+   * إلغاء ربط مزود من المستخدم
+   * Unlink a provider from user
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @param {AuthProvider} provider - المزود / Provider
+   * @returns {ServiceResult<boolean>} [deleted, error]
+   */
+  static async deleteByUserAndProvider(userId: string, provider: AuthProvider): ServiceResult<boolean> {
+    try {
+      if (!userId || !provider) {
+        return [null, resolveError(new Error('معرف المستخدم والمزود مطلوبان'), 'فشل في إلغاء ربط الهوية')];
+      }
+
+      const deleted = await UserIdentity.destroy({ where: { user_id: userId, provider } });
+
+      return [deleted > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إلغاء ربط الهوية')];
+    }
+  }
+}
+
+export default UserIdentitiesService;
+export type { UserIdentityData };
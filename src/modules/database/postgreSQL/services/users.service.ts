@@ -3,6 +3,8 @@ import { PGinsert, PGupdate, PGdelete } from '../config/postgre.manager.js';
 import { User } from '../models/index.js';
 import { AuthProvider } from '../models/User.model.js';
 import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+import UserIdentitiesService from './userIdentities.service.js';
+import { IdentityCacheService } from '../../../cache/redis/index.js';
 
 // ===================== Types =====================
 
@@ -30,13 +32,14 @@ interface LocalRegistrationData {
   display_name?: string;
 }
 
-interface GoogleRegistrationData {
+interface IdentityRegistrationData {
   email: string;
-  google_id: string;
+  provider_user_id: string; // معرف المستخدم لدى المزود (sub / id)
   first_name?: string;
   last_name?: string;
   display_name?: string;
   avatar_url?: string;
+  email_verified?: boolean; // هل أكد المزود ملكية البريد؟
 }
 
 interface QueryOptions {
@@ -159,6 +162,40 @@ class UsersService {
     }
   }
 
+  /**
+   * الحصول على مستخدم بواسطة هوية خارجية مرتبطة
+   * المستخدمون القدامى (قبل جدول الهويات) يتم ربطهم تلقائياً عبر google_id
+   */
+  static async getByIdentity(provider: AuthProvider, providerUserId: string): ServiceResult<UserData> {
+    try {
+      const [identity, identityError] = await UserIdentitiesService.getByProviderId(provider, providerUserId);
+      if (identityError) {
+        return [null, identityError];
+      }
+      if (identity) {
+        return this.getById(identity.user_id);
+      }
+
+      if (provider !== AuthProvider.GOOGLE) {
+        return [null, null];
+      }
+
+      const [legacyUser, legacyError] = await this.getByGoogleId(providerUserId);
+      if (legacyError || !legacyUser) {
+        return [null, legacyError];
+      }
+      await UserIdentitiesService.create({
+        user_id: legacyUser.id!,
+        provider,
+        provider_user_id: providerUserId,
+        email: legacyUser.email
+      });
+      return [legacyUser, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب المستخدم')];
+    }
+  }
+
   // ===================== Registration Methods =====================
 
   /**
@@ -199,20 +236,26 @@ class UsersService {
   }
 
   /**
-   * تسجيل أو تسجيل دخول مستخدم عبر Google OAuth2
+   * تسجيل أو تسجيل دخول مستخدم عبر مزود هوية خارجي (Google, GitHub, Discord...)
    */
-  static async registerOrLoginGoogle(data: GoogleRegistrationData): ServiceResult<{ user: UserData; isNewUser: boolean }> {
+  static async registerOrLoginIdentity(provider: AuthProvider, data: IdentityRegistrationData): ServiceResult<{ user: UserData; isNewUser: boolean }> {
     try {
-      const { email, google_id, first_name, last_name, display_name, avatar_url } = data;
+      const { email, provider_user_id, first_name, last_name, display_name, avatar_url } = data;
+      const email_verified = data.email_verified === true;
 
-      if (!email || !google_id) {
-        return [null, resolveError(new Error('البريد الإلكتروني ومعرف Google مطلوبان'), 'فشل في التسجيل')];
+      if (!email || !provider_user_id) {
+        return [null, resolveError(new Error('البريد الإلكتروني ومعرف المستخدم لدى المزود مطلوبان'), 'فشل في التسجيل')];
       }
 
-      // البحث عن مستخدم موجود بنفس Google ID
-      let [existingUser] = await this.getByGoogleId(google_id);
+      // البحث عن مستخدم مرتبط بهذه الهوية
+      let [existingUser] = await this.getByIdentity(provider, provider_user_id);
       
       if (existingUser) {
+        // تفعيل البريد إذا أكد المزود أنه مُتحقق منه ويطابق بريد الحساب
+        if (email_verified && !existingUser.email_verified && existingUser.email === email.toLowerCase()) {
+          await this.verifyEmail(existingUser.id!);
+          existingUser = { ...existingUser, email_verified: true };
+        }
         return [{ user: existingUser, isNewUser: false }, null];
       }
 
@@ -220,38 +263,53 @@ class UsersService {
       [existingUser] = await this.getByEmail(email);
       
       if (existingUser) {
-        // إذا كان المستخدم مسجل محلياً، ربط حساب Google
-        if (existingUser.auth_provider === AuthProvider.LOCAL) {
-          await this.update(existingUser.id!, {
-            google_id,
-            avatar_url: avatar_url || existingUser.avatar_url,
-            email_verified: true
-          });
-          const [updatedUser] = await this.getById(existingUser.id!);
-          return [{ user: updatedUser!, isNewUser: false }, null];
+        // ربط الهوية تلقائياً بالحساب الموجود
+        // فقط إذا أكد المزود ملكية البريد، وإلا قد يستولي أحد على الحساب
+        if (!email_verified) {
+          return [null, resolveError(new Error('البريد الإلكتروني غير مُتحقق منه لدى المزود، لا يمكن ربطه بحساب موجود'), 'فشل في التسجيل')];
         }
-        return [null, resolveError(new Error('البريد الإلكتروني مستخدم بالفعل'), 'فشل في التسجيل')];
+
+        const [, linkError] = await this.linkIdentity(existingUser.id!, provider, provider_user_id, email);
+        if (linkError) {
+          return [null, linkError];
+        }
+
+        // كلمة مرور حساب غير مؤكد وضعها من لم يثبت ملكية البريد (حساب معلق مثلاً): تُحذف عند الربط
+        await this.update(existingUser.id!, {
+          avatar_url: existingUser.avatar_url || avatar_url,
+          email_verified: true,
+          ...(!existingUser.email_verified && { password_hash: null })
+        });
+        const [updatedUser] = await this.getById(existingUser.id!);
+        return [{ user: updatedUser!, isNewUser: false }, null];
       }
 
       // إنشاء مستخدم جديد
       const userData: UserData = {
         email: email.toLowerCase(),
-        auth_provider: AuthProvider.GOOGLE,
-        google_id,
+        auth_provider: provider,
+        ...(provider === AuthProvider.GOOGLE && { google_id: provider_user_id }),
         first_name,
         last_name,
         display_name: display_name || `${first_name || ''} ${last_name || ''}`.trim() || email.split('@')[0],
         avatar_url,
-        email_verified: true
+        email_verified
       };
 
       const result = await PGinsert(User, userData);
       const userResponse = { ...(result.data as Record<string, unknown>) } as UserData;
       delete userResponse.password_hash;
 
+      await UserIdentitiesService.create({
+        user_id: userResponse.id!,
+        provider,
+        provider_user_id,
+        email
+      });
+
       return [{ user: userResponse, isNewUser: true }, null];
     } catch (error) {
-      return [null, resolveError(error as Error, 'فشل في التسجيل عبر Google')];
+      return [null, resolveError(error as Error, 'فشل في التسجيل عبر مزود الهوية')];
     }
   }
 
@@ -267,6 +325,7 @@ class UsersService {
       }
 
       await PGupdate(User, data, { id });
+      await IdentityCacheService.invalidateUser(id);
       const [updatedUser] = await this.getById(id);
       return [updatedUser, null];
     } catch (error) {
@@ -300,12 +359,76 @@ class UsersService {
       }
 
       await PGupdate(User, { email_verified: true }, { id });
+      // requireVerifiedEmail يقرأ الحالة من الهوية المخزنة مؤقتاً
+      await IdentityCacheService.invalidateUser(id);
       return [true, null];
     } catch (error) {
       return [null, resolveError(error as Error, 'فشل في تفعيل البريد')];
     }
   }
 
+  /**
+   * حذف كلمة المرور (إلغاء ربط تسجيل الدخول بالبريد وكلمة المرور)
+   */
+  static async removePassword(id: string): ServiceResult<boolean> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في حذف كلمة المرور')];
+      }
+
+      await PGupdate(User, { password_hash: null }, { id });
+      return [true, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف كلمة المرور')];
+    }
+  }
+
+  // ===================== Identity Methods =====================
+
+  /**
+   * ربط هوية خارجية بالمستخدم
+   * google_id يبقى متزامناً مع هوية Google للتوافق مع الكود القديم
+   */
+  static async linkIdentity(id: string, provider: AuthProvider, providerUserId: string, email?: string): ServiceResult<boolean> {
+    try {
+      const [, linkError] = await UserIdentitiesService.create({
+        user_id: id,
+        provider,
+        provider_user_id: providerUserId,
+        email
+      });
+      if (linkError) {
+        return [null, linkError];
+      }
+
+      if (provider === AuthProvider.GOOGLE) {
+        await PGupdate(User, { google_id: providerUserId }, { id });
+      }
+      return [true, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في ربط الهوية')];
+    }
+  }
+
+  /**
+   * إلغاء ربط هوية خارجية من المستخدم
+   */
+  static async unlinkIdentity(id: string, provider: AuthProvider): ServiceResult<boolean> {
+    try {
+      const [deleted, unlinkError] = await UserIdentitiesService.deleteByUserAndProvider(id, provider);
+      if (unlinkError) {
+        return [null, unlinkError];
+      }
+
+      if (provider === AuthProvider.GOOGLE) {
+        await PGupdate(User, { google_id: null }, { id });
+      }
+      return [deleted, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في إلغاء ربط الهوية')];
+    }
+  }
+
   // ===================== Count Methods =====================
 
   /**
@@ -333,6 +456,7 @@ class UsersService {
       }
 
       await PGdelete(User, { id });
+      await IdentityCacheService.invalidateUser(id);
       return [true, null];
     } catch (error) {
       return [null, resolveError(error as Error, 'فشل في حذف المستخدم')];
@@ -341,4 +465,4 @@ class UsersService {
 }
 
 export default UsersService;
-export type { UserData, LocalRegistrationData, GoogleRegistrationData, QueryOptions, UpdateData };
+export type { UserData, LocalRegistrationData, IdentityRegistrationData, QueryOptions, UpdateData };
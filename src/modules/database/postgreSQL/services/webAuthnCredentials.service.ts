@@ -0,0 +1,155 @@
+import { PGinsert, PGselectAll } from '../config/postgre.manager.js';
+import { WebAuthnCredential } from '../models/index.js';
+import { resolveError } from '../../../../utils/errors/errorResolver.util.js';
+
+// ===================== Types =====================
+
+interface WebAuthnCredentialData {
+  id?: string;
+  user_id: string;
+  credential_id: string;
+  public_key: string;
+  algorithm: number;
+  sign_count: number;
+  transports: string[];
+  name?: string;
+  last_used_at?: Date;
+  created_at?: Date;
+  updated_at?: Date;
+  [key: string]: unknown; // Allow index signature for compatibility
+}
+
+type ServiceResult<T> = Promise<[T | null, Error | null]>;
+
+// ===================== Service Class =====================
+
+/**
+ * خدمة إدارة مفاتيح المرور - WebAuthn Credentials Service
+ * Contains all operations related to users passkeys
+ */
+class WebAuthnCredentialsService {
+
+  /**
+   * الحصول على مفاتيح المرور الخاصة بمستخدم
+   * Get credentials by user ID
+   * 
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<WebAuthnCredentialData[]>} [result, error]
+   */
+  static async getByUserId(userId: string): ServiceResult<WebAuthnCredentialData[]> {
+    try {
+      if (!userId) {
+        return [null, resolveError(new Error('معرف المستخدم مطلوب'), 'فشل في جلب مفاتيح المرور')];
+      }
+
+      const credentials = await WebAuthnCredential.findAll({
+        where: { user_id: userId },
+        order: [['created_at', 'DESC']],
+        raw: true
+      });
+
+      return [credentials as unknown as WebAuthnCredentialData[], null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب مفاتيح المرور')];
+    }
+  }
+
+  /**
+   * الحصول على مفتاح مرور بمعرفه من المتصفح
+   * Get credential by WebAuthn credential ID
+   * 
+   * @param {string} credentialId - معرف المفتاح (base64url) / Credential ID (base64url)
+   * @returns {ServiceResult<WebAuthnCredentialData>} [result, error]
+   */
+  static async getByCredentialId(credentialId: string): ServiceResult<WebAuthnCredentialData> {
+    try {
+      if (!credentialId) {
+        return [null, resolveError(new Error('معرف المفتاح مطلوب'), 'فشل في جلب مفتاح المرور')];
+      }
+
+      const credentials = await PGselectAll(WebAuthnCredential, { credential_id: credentialId });
+
+      return [credentials[0] as WebAuthnCredentialData || null, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في جلب مفتاح المرور')];
+    }
+  }
+
+  /**
+   * حفظ مفتاح مرور جديد
+   * Create credential
+   * 
+   * @param {WebAuthnCredentialData} credentialData - بيانات المفتاح / Credential data
+   * @returns {ServiceResult<WebAuthnCredentialData>} [result, error]
+   */
+  static async create(credentialData: WebAuthnCredentialData): ServiceResult<WebAuthnCredentialData> {
+    try {
+      if (!credentialData.user_id || !credentialData.credential_id || !credentialData.public_key) {
+        return [null, resolveError(new Error('بيانات المفتاح غير مكتملة'), 'فشل في حفظ مفتاح المرور')];
+      }
+
+      const [existing] = await this.getByCredentialId(credentialData.credential_id);
+      if (existing) {
+        return [null, resolveError(new Error('مفتاح المرور مسجل بالفعل'), 'فشل في حفظ مفتاح المرور')];
+      }
+
+      const result = await PGinsert(WebAuthnCredential, credentialData);
+
+      return [result.data as WebAuthnCredentialData, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حفظ مفتاح المرور')];
+    }
+  }
+
+  /**
+   * تحديث عداد التوقيعات بعد تسجيل دخول ناجح
+   * يتم التحديث فقط إذا لم يتغير العداد منذ قراءته (يمنع قبول نفس التوقيع مرتين بطلبات متزامنة)
+   * Update signature counter after a successful assertion (compare-and-set)
+   * 
+   * @param {string} id - معرف الصف / Row ID
+   * @param {number} previousCount - العداد المخزن / Stored counter
+   * @param {number} newCount - العداد الجديد / New counter
+   * @returns {ServiceResult<{ changedRows: number }>} [result, error]
+   */
+  static async updateSignCount(id: string, previousCount: number, newCount: number): ServiceResult<{ changedRows: number }> {
+    try {
+      if (!id) {
+        return [null, resolveError(new Error('معرف المفتاح مطلوب'), 'فشل في تحديث مفتاح المرور')];
+      }
+
+      const [changedRows] = await WebAuthnCredential.update(
+        { sign_count: newCount, last_used_at: new Date() },
+        { where: { id, sign_count: previousCount } }
+      );
+
+      return [{ changedRows }, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في تحديث مفتاح المرور')];
+    }
+  }
+
+  /**
+   * حذف مفتاح مرور يخص المستخدم
+   * Delete a credential owned by user
+   * 
+   * @param {string} id - معرف الصف / Row ID
+   * @param {string} userId - معرف المستخدم / User ID
+   * @returns {ServiceResult<boolean>} [deleted, error]
+   */
+  static async delete(id: string, userId: string): ServiceResult<boolean> {
+    try {
+      if (!id || !userId) {
+        return [null, resolveError(new Error('معرف المفتاح والمستخدم مطلوبان'), 'فشل في حذف مفتاح المرور')];
+      }
+
+      const deleted = await WebAuthnCredential.destroy({ where: { id, user_id: userId } });
+
+      return [deleted > 0, null];
+    } catch (error) {
+      return [null, resolveError(error as Error, 'فشل في حذف مفتاح المرور')];
+    }
+  }
+}
+
+export default WebAuthnCredentialsService;
+export type { WebAuthnCredentialData };
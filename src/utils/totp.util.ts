@@ -0,0 +1,142 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * كلمات المرور لمرة واحدة المعتمدة على الوقت (TOTP - RFC 6238)
+ * متوافقة مع Google Authenticator و Authy و 1Password...
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD = 30; // ثانية
+
+/**
+ * ترميز Buffer إلى Base32 (بدون padding)
+ * @param buffer - البيانات
+ * @returns نص Base32
+ */
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+/**
+ * فك ترميز Base32 إلى Buffer
+ * @param input - نص Base32
+ * @returns البيانات
+ */
+const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+/**
+ * إنشاء سر TOTP جديد
+ * @param length - طول السر بالبايت (الافتراضي: 20 = 160 bit كما يوصي RFC 4226)
+ * @returns السر بصيغة Base32
+ */
+const generateTotpSecret = (length: number = 20): string => {
+    return base32Encode(randomBytes(length));
+};
+
+/**
+ * الخطوة الزمنية الحالية
+ * @param timestamp - الوقت بالميلي ثانية (الافتراضي: الآن)
+ */
+const getTotpStep = (timestamp: number = Date.now()): number => {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD);
+};
+
+/**
+ * توليد رمز TOTP لخطوة زمنية معينة
+ * @param secret - السر بصيغة Base32
+ * @param step - الخطوة الزمنية
+ * @returns رمز من 6 أرقام
+ */
+const generateTotp = (secret: string, step: number = getTotpStep()): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+        ((hmac[offset + 1] & 0xff) << 16) |
+        ((hmac[offset + 2] & 0xff) << 8) |
+        (hmac[offset + 3] & 0xff);
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * التحقق من رمز TOTP مع السماح بانحراف بسيط في الوقت
+ * @param secret - السر بصيغة Base32
+ * @param code - الرمز المدخل من المستخدم
+ * @param window - عدد الخطوات المسموح بها قبل وبعد الوقت الحالي (الافتراضي: 1)
+ * @returns الخطوة الزمنية المطابقة أو null إذا كان الرمز غير صحيح
+ */
+const verifyTotp = (secret: string, code: string, window: number = 1): number | null => {
+    const normalized = String(code || '').replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+        return null;
+    }
+
+    const currentStep = getTotpStep();
+    for (let offset = -window; offset <= window; offset++) {
+        const step = currentStep + offset;
+        const expected = generateTotp(secret, step);
+        if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+    return null;
+};
+
+/**
+ * إنشاء رابط otpauth:// لعرضه كـ QR Code في تطبيقات المصادقة
+ * @param secret - السر بصيغة Base32
+ * @param accountName - اسم الحساب (عادة البريد الإلكتروني)
+ * @param issuer - اسم الجهة المصدرة
+ * @returns رابط التهيئة
+ */
+const buildOtpAuthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+export { generateTotpSecret, generateTotp, verifyTotp, getTotpStep, buildOtpAuthUri };
@@ -0,0 +1,339 @@
+import { createHash, createPublicKey, randomBytes, timingSafeEqual, verify, JsonWebKey } from 'crypto';
+
+/**
+ * التحقق من استجابات WebAuthn (مفاتيح المرور - Passkeys)
+ * يدعم: ES256 (-7) و EdDSA (-8) و RS256 (-257)
+ * لا يتم التحقق من شهادة الجهاز (attestation) لأننا نطلب attestation: 'none'
+ */
+
+// خوارزميات COSE المدعومة بالترتيب المفضل
+const COSE_ALGORITHMS = {
+    ES256: -7,
+    EdDSA: -8,
+    RS256: -257
+} as const;
+
+const SUPPORTED_ALGORITHMS: number[] = [COSE_ALGORITHMS.ES256, COSE_ALGORITHMS.EdDSA, COSE_ALGORITHMS.RS256];
+
+// أعلام بيانات المصادقة
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+interface AuthenticatorData {
+    rpIdHash: Buffer;
+    userPresent: boolean;
+    userVerified: boolean;
+    signCount: number;
+    credentialId?: Buffer;
+    credentialPublicKey?: Map<number, unknown>;
+}
+
+interface ClientData {
+    type: string;
+    challenge: string;
+    origin: string;
+}
+
+interface ExpectedCeremony {
+    expectedChallenge: string;
+    expectedOrigins: string[];
+    expectedRpId: string;
+    requireUserVerification?: boolean;
+}
+
+interface RegistrationResponse {
+    clientDataJSON: string;     // base64url
+    attestationObject: string;  // base64url
+}
+
+interface AuthenticationResponse {
+    clientDataJSON: string;     // base64url
+    authenticatorData: string;  // base64url
+    signature: string;          // base64url
+}
+
+interface VerifiedRegistration {
+    credentialId: string;       // base64url
+    publicKey: string;          // SPKI DER base64url
+    algorithm: number;
+    signCount: number;
+    userVerified: boolean;
+}
+
+interface VerifiedAuthentication {
+    signCount: number;
+    userVerified: boolean;
+}
+
+// ===================== CBOR =====================
+
+/**
+ * فك ترميز CBOR (الجزء الذي تحتاجه WebAuthn فقط: أعداد، نصوص، بايتات، مصفوفات، خرائط)
+ * @param buffer - البيانات
+ * @param offset - موضع البداية
+ * @returns القيمة وموضع نهايتها
+ */
+const decodeCbor = (buffer: Buffer, offset: number = 0): { value: unknown; offset: number } => {
+    if (offset >= buffer.length) {
+        throw new Error('Unexpected end of CBOR data');
+    }
+
+    const initial = buffer[offset++];
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+
+    let length: number;
+    if (additional < 24) {
+        length = additional;
+    } else if (additional === 24) {
+        length = buffer.readUInt8(offset);
+        offset += 1;
+    } else if (additional === 25) {
+        length = buffer.readUInt16BE(offset);
+        offset += 2;
+    } else if (additional === 26) {
+        length = buffer.readUInt32BE(offset);
+        offset += 4;
+    } else if (additional === 27) {
+        length = Number(buffer.readBigUInt64BE(offset));
+        offset += 8;
+    } else {
+        throw new Error('Unsupported CBOR length encoding');
+    }
+
+    switch (majorType) {
+        case 0: // unsigned int
+            return { value: length, offset };
+        case 1: // negative int
+            return { value: -1 - length, offset };
+        case 2: // byte string
+            if (offset + length > buffer.length) throw new Error('Unexpected end of CBOR data');
+            return { value: buffer.subarray(offset, offset + length), offset: offset + length };
+        case 3: // text string
+            if (offset + length > buffer.length) throw new Error('Unexpected end of CBOR data');
+            return { value: buffer.toString('utf8', offset, offset + length), offset: offset + length };
+        case 4: { // array
+            const items: unknown[] = [];
+            for (let i = 0; i < length; i++) {
+                const item = decodeCbor(buffer, offset);
+                items.push(item.value);
+                offset = item.offset;
+            }
+            return { value: items, offset };
+        }
+        case 5: { // map
+            const map = new Map<unknown, unknown>();
+            for (let i = 0; i < length; i++) {
+                const key = decodeCbor(buffer, offset);
+                const value = decodeCbor(buffer, key.offset);
+                map.set(key.value, value.value);
+                offset = value.offset;
+            }
+            return { value: map, offset };
+        }
+        case 7: // simple values
+            if (additional === 20) return { value: false, offset };
+            if (additional === 21) return { value: true, offset };
+            if (additional === 22 || additional === 23) return { value: null, offset };
+            throw new Error('Unsupported CBOR simple value');
+        default:
+            throw new Error('Unsupported CBOR type');
+    }
+};
+
+// ===================== Helpers =====================
+
+/**
+ * إنشاء تحدٍ عشوائي (32 بايت بصيغة base64url)
+ */
+const generateWebAuthnChallenge = (): string => {
+    return randomBytes(32).toString('base64url');
+};
+
+/**
+ * قراءة التحدي من clientDataJSON (قبل التحقق، للبحث عن التحدي المخزن)
+ * @param clientDataJSON - البيانات بصيغة base64url
+ * @returns التحدي أو null إذا كانت البيانات غير صالحة
+ */
+const readClientDataChallenge = (clientDataJSON: string): string | null => {
+    try {
+        const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8')) as ClientData;
+        return typeof clientData.challenge === 'string' ? clientData.challenge : null;
+    } catch {
+        return null;
+    }
+};
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+const safeEqual = (a: Buffer, b: Buffer): boolean => a.length === b.length && timingSafeEqual(a, b);
+
+/**
+ * قراءة بيانات المصادقة (authenticatorData)
+ * @param data - البيانات الخام
+ */
+const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+    if (data.length < 37) {
+        throw new Error('Authenticator data is too short');
+    }
+
+    const flags = data[32];
+    const result: AuthenticatorData = {
+        rpIdHash: data.subarray(0, 32),
+        userPresent: Boolean(flags & FLAG_USER_PRESENT),
+        userVerified: Boolean(flags & FLAG_USER_VERIFIED),
+        signCount: data.readUInt32BE(33)
+    };
+
+    if (flags & FLAG_ATTESTED_CREDENTIAL) {
+        // aaguid (16) + طول المعرف (2) + المعرف + المفتاح العام (COSE)
+        let offset = 37 + 16;
+        const idLength = data.readUInt16BE(offset);
+        offset += 2;
+        result.credentialId = data.subarray(offset, offset + idLength);
+        offset += idLength;
+        result.credentialPublicKey = decodeCbor(data, offset).value as Map<number, unknown>;
+    }
+
+    return result;
+};
+
+/**
+ * التحقق من clientDataJSON (النوع، التحدي، المصدر)
+ * @param clientDataJSON - البيانات بصيغة base64url
+ * @param type - النوع المتوقع
+ * @param expected - القيم المتوقعة
+ */
+const verifyClientData = (clientDataJSON: string, type: string, expected: ExpectedCeremony): ClientData => {
+    const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8')) as ClientData;
+
+    if (clientData.type !== type) {
+        throw new Error('Unexpected WebAuthn ceremony type');
+    }
+    if (!safeEqual(Buffer.from(clientData.challenge || ''), Buffer.from(expected.expectedChallenge))) {
+        throw new Error('WebAuthn challenge mismatch');
+    }
+    if (!expected.expectedOrigins.includes(clientData.origin)) {
+        throw new Error('WebAuthn origin not allowed');
+    }
+
+    return clientData;
+};
+
+/**
+ * التحقق من بيانات المصادقة (نطاق الموقع وحضور/تحقق المستخدم)
+ */
+const verifyAuthenticatorFlags = (authData: AuthenticatorData, expected: ExpectedCeremony): void => {
+    if (!safeEqual(authData.rpIdHash, sha256(expected.expectedRpId))) {
+        throw new Error('WebAuthn RP ID mismatch');
+    }
+    if (!authData.userPresent) {
+        throw new Error('User presence is required');
+    }
+    if (expected.requireUserVerification && !authData.userVerified) {
+        throw new Error('User verification is required');
+    }
+};
+
+/**
+ * تحويل مفتاح COSE إلى SPKI DER
+ * @param coseKey - المفتاح بصيغة COSE
+ * @returns المفتاح والخوارزمية
+ */
+const coseKeyToSpki = (coseKey: Map<number, unknown>): { publicKey: Buffer; algorithm: number } => {
+    const kty = coseKey.get(1);
+    const algorithm = coseKey.get(3) as number;
+    const b64 = (value: unknown): string => (value as Buffer).toString('base64url');
+
+    let jwk: JsonWebKey;
+    if (kty === 2 && algorithm === COSE_ALGORITHMS.ES256 && coseKey.get(-1) === 1) {
+        jwk = { kty: 'EC', crv: 'P-256', x: b64(coseKey.get(-2)), y: b64(coseKey.get(-3)) };
+    } else if (kty === 1 && algorithm === COSE_ALGORITHMS.EdDSA && coseKey.get(-1) === 6) {
+        jwk = { kty: 'OKP', crv: 'Ed25519', x: b64(coseKey.get(-2)) };
+    } else if (kty === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+        jwk = { kty: 'RSA', n: b64(coseKey.get(-1)), e: b64(coseKey.get(-2)) };
+    } else {
+        throw new Error('Unsupported WebAuthn public key algorithm');
+    }
+
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'der' });
+    return { publicKey, algorithm };
+};
+
+// ===================== Ceremonies =====================
+
+/**
+ * التحقق من استجابة تسجيل مفتاح مرور جديد (navigator.credentials.create)
+ * @param response - استجابة المتصفح
+ * @param expected - القيم المتوقعة
+ * @returns بيانات المفتاح للحفظ
+ */
+const verifyRegistrationResponse = (response: RegistrationResponse, expected: ExpectedCeremony): VerifiedRegistration => {
+    verifyClientData(response.clientDataJSON, 'webauthn.create', expected);
+
+    const attestation = decodeCbor(Buffer.from(response.attestationObject, 'base64url')).value as Map<string, unknown>;
+    const authData = parseAuthenticatorData(attestation.get('authData') as Buffer);
+    verifyAuthenticatorFlags(authData, expected);
+
+    if (!authData.credentialId || !authData.credentialPublicKey) {
+        throw new Error('Attested credential data is missing');
+    }
+
+    const { publicKey, algorithm } = coseKeyToSpki(authData.credentialPublicKey);
+
+    return {
+        credentialId: authData.credentialId.toString('base64url'),
+        publicKey: publicKey.toString('base64url'),
+        algorithm,
+        signCount: authData.signCount,
+        userVerified: authData.userVerified
+    };
+};
+
+/**
+ * التحقق من استجابة تسجيل الدخول بمفتاح مرور (navigator.credentials.get)
+ * @param response - استجابة المتصفح
+ * @param expected - القيم المتوقعة
+ * @param credential - المفتاح المخزن (المفتاح العام والخوارزمية وعداد التوقيعات)
+ * @returns عداد التوقيعات الجديد
+ */
+const verifyAuthenticationResponse = (
+    response: AuthenticationResponse,
+    expected: ExpectedCeremony,
+    credential: { publicKey: string; algorithm: number; signCount: number }
+): VerifiedAuthentication => {
+    verifyClientData(response.clientDataJSON, 'webauthn.get', expected);
+
+    const authDataBuffer = Buffer.from(response.authenticatorData, 'base64url');
+    const authData = parseAuthenticatorData(authDataBuffer);
+    verifyAuthenticatorFlags(authData, expected);
+
+    // التوقيع على: authenticatorData || SHA-256(clientDataJSON)
+    const signedData = Buffer.concat([authDataBuffer, sha256(Buffer.from(response.clientDataJSON, 'base64url'))]);
+    const key = createPublicKey({ key: Buffer.from(credential.publicKey, 'base64url'), format: 'der', type: 'spki' });
+    const digest = credential.algorithm === COSE_ALGORITHMS.EdDSA ? null : 'sha256';
+
+    if (!verify(digest, signedData, key, Buffer.from(response.signature, 'base64url'))) {
+        throw new Error('Invalid WebAuthn signature');
+    }
+
+    // عداد التوقيعات يجب أن يزيد (إلا إذا كان الجهاز لا يدعمه ويرسل 0 دائماً)
+    if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+        throw new Error('WebAuthn signature counter did not increase, the credential may be cloned');
+    }
+
+    return {
+        signCount: authData.signCount,
+        userVerified: authData.userVerified
+    };
+};
+
+export {
+    SUPPORTED_ALGORITHMS,
+    generateWebAuthnChallenge,
+    readClientDataChallenge,
+    verifyRegistrationResponse,
+    verifyAuthenticationResponse
+};
+export type { RegistrationResponse, AuthenticationResponse, VerifiedRegistration, VerifiedAuthentication };